@@ -0,0 +1,24 @@
+/**
+ * Attestation keys route
+ * The public keys the contract should accept attestations from, for
+ * registering them with the contract during a rotation
+ */
+
+import { NextResponse } from "next/server";
+import { getAttestationKeyring } from "@/app/services/attestationKeys";
+
+export async function GET() {
+  const keyring = getAttestationKeyring();
+  if (!keyring) {
+    return NextResponse.json(
+      { error: "Stats attestation isn't configured" },
+      { status: 503 },
+    );
+  }
+
+  return NextResponse.json({
+    active: keyring.activeKey,
+    keys: keyring.publicKeys,
+    ttlSeconds: keyring.ttlMs / 1000,
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Stats attestation route
+ * Indexes an account like /api/wrapped and returns its minted stats signed
+ * with the server's attestation key, for `mint_wrap` to check. Takes the
+ * same parameters; the signed stats name the network they were indexed on,
+ * which needn't be the one the contract is deployed to. A rolling period
+ * is attested as the fixed range it covered, and the result is cached under
+ * that range too, so verifying the mint doesn't crawl Horizon again.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAttestationKeyring } from "@/app/services/attestationKeys";
+import { getWrapCache } from "@/app/services/wrapCache";
+import { getCacheKey } from "@/app/utils/indexer";
+import { fixPeriod, resolvePeriod } from "@/app/utils/periods";
+import { createAttestedStats } from "@/app/utils/statsAttestation";
+import { indexWrapped, parseWrappedRequest, toWrappedError } from "../request";
+
+export async function GET(request: NextRequest) {
+  const parsed = parseWrappedRequest(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json(parsed.error.body, {
+      status: parsed.error.status,
+    });
+  }
+
+  const keyring = getAttestationKeyring();
+  if (!keyring) {
+    return NextResponse.json(
+      { error: "Stats attestation isn't configured" },
+      { status: 503 },
+    );
+  }
+
+  const wrapRequest = parsed.request;
+  const { accountId, network, period, refresh } = wrapRequest;
+
+  try {
+    const cacheKey = getCacheKey(accountId, network, period);
+    const entry =
+      (refresh ? undefined : await getWrapCache().get(cacheKey)) ??
+      (await indexWrapped(wrapRequest, cacheKey, { signal: request.signal }));
+
+    // Entries cached before ranges were stored end when they were indexed
+    const range = entry.range
+      ? { start: new Date(entry.range.start), end: new Date(entry.range.end) }
+      : resolvePeriod(period, new Date(entry.timestamp));
+    const fixed = fixPeriod(period, range);
+    if (fixed !== period) {
+      await getWrapCache().set(
+        getCacheKey(accountId, network, fixed),
+        entry.result,
+        fixed,
+        undefined,
+        range,
+      );
+    }
+
+    const stats = createAttestedStats(
+      wrapRequest,
+      entry.result,
+      range,
+      keyring.expiryFor(),
+    );
+    return NextResponse.json(keyring.sign(stats));
+  } catch (error: unknown) {
+    console.error("Error in /api/wrapped/attest:", error);
+
+    const { status, body } = toWrappedError(error);
+    return NextResponse.json(body, { status });
+  }
+}
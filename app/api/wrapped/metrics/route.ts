@@ -0,0 +1,18 @@
+/**
+ * Wrap cache metrics
+ * Hit/miss counts for this server instance's wrap cache, and how many
+ * indexing runs it has in flight
+ */
+
+import { NextResponse } from "next/server";
+import { getWrapCache } from "@/app/services/wrapCache";
+import { getInFlightCount } from "@/app/services/indexingCoalescer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(
+    { ...getWrapCache().getMetrics(), inFlight: getInFlightCount() },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
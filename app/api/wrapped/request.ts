@@ -0,0 +1,189 @@
+/**
+ * Shared request handling for the wrapped routes
+ * Parameter validation, cached indexing, response building and Horizon
+ * error mapping used by both the JSON and the streaming variant
+ */
+
+import { WrapPeriod } from "@/app/utils/indexer";
+import { parsePeriod } from "@/app/utils/periods";
+import {
+  WrappedResponse,
+  createWrappedResponse,
+  validateWrappedResponse,
+} from "@/app/utils/wrappedResponse";
+import { getHorizonErrorStatus } from "@/app/services/horizonClient";
+import { indexAccountWithSnapshot } from "@/app/services/indexerService";
+import {
+  CoalesceOptions,
+  coalesceIndexing,
+} from "@/app/services/indexingCoalescer";
+import { CacheEntry, getWrapCache } from "@/app/services/wrapCache";
+import { Network, isSelectableNetwork } from "@/src/config";
+
+export interface WrappedRequest {
+  accountId: string;
+  network: Network;
+  period: WrapPeriod;
+  /** Skip a fresh cached result and fetch what's new since it */
+  refresh: boolean;
+}
+
+export interface WrappedError {
+  status: number;
+  body: { error: string; details?: string };
+}
+
+/**
+ * Validates the query string. Returns the parsed request, or the 400
+ * error to send back.
+ */
+export function parseWrappedRequest(
+  searchParams: URLSearchParams,
+): { request: WrappedRequest } | { error: WrappedError } {
+  const accountId = searchParams.get("accountId");
+  const network = searchParams.get("network") || "mainnet";
+  // A custom range can be given as `from`/`to` (inclusive YYYY-MM-DD) or
+  // as `period=2026-01-01..2026-02-15`
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const period = parsePeriod(
+    from || to ? `${from}..${to}` : searchParams.get("period") || "monthly",
+  );
+
+  const badRequest = (error: string) => ({
+    error: { status: 400, body: { error } },
+  });
+
+  if (!accountId) {
+    return badRequest("Missing accountId parameter");
+  }
+
+  if (!accountId.startsWith("G") || accountId.length !== 56) {
+    return badRequest("Invalid account ID format");
+  }
+
+  if (!isSelectableNetwork(network)) {
+    return badRequest("Invalid network");
+  }
+
+  if (!period) {
+    return badRequest("Invalid period");
+  }
+
+  const refresh = ["1", "true"].includes(searchParams.get("refresh") || "");
+
+  return { request: { accountId, network, period, refresh } };
+}
+
+/**
+ * Indexes a wrap and caches the result, resolving with the new cache
+ * entry. Builds on the cached snapshot when there is one, so only records
+ * newer than it are fetched; concurrent requests for the same key share
+ * the run.
+ */
+export function indexWrapped(
+  { accountId, network, period }: WrappedRequest,
+  cacheKey: string,
+  options: CoalesceOptions = {},
+): Promise<CacheEntry> {
+  const cache = getWrapCache();
+
+  return coalesceIndexing(
+    cacheKey,
+    async (emitter, signal) => {
+      const previous = (await cache.getStale(cacheKey))?.snapshot;
+      const { result, range, snapshot } = await indexAccountWithSnapshot(
+        accountId,
+        network,
+        period,
+        { emitter, signal, previous },
+      );
+      return cache.set(cacheKey, result, period, snapshot, range);
+    },
+    options,
+  );
+}
+
+/**
+ * Builds the versioned response for a cache entry and checks it against
+ * the schema clients validate with. Returns the response, or the 500 error
+ * to send instead of data they would reject.
+ */
+export function buildWrappedResponse(
+  request: WrappedRequest,
+  entry: CacheEntry,
+  cached: boolean,
+): { response: WrappedResponse } | { error: WrappedError } {
+  const response = createWrappedResponse(request, entry.result, {
+    cached,
+    indexedAt: entry.timestamp,
+    staleAt: entry.freshUntil,
+  });
+
+  const validation = validateWrappedResponse(response);
+  if (!validation.valid) {
+    console.error("Invalid /api/wrapped response:", validation.errors);
+    return {
+      error: {
+        status: 500,
+        body: {
+          error: "Wrapped data failed validation",
+          details: validation.errors.slice(0, 3).join("; "),
+        },
+      },
+    };
+  }
+
+  return { response };
+}
+
+/**
+ * Maps an indexing failure to an HTTP status and client-facing message.
+ */
+export function toWrappedError(error: unknown): WrappedError {
+  const err = error as Record<string, unknown>;
+  const message = (err?.message as string) || "";
+  const statusCode = getHorizonErrorStatus(error);
+
+  // Check for NotFoundError (account doesn't exist on this network)
+  if (
+    message.includes("Not Found") ||
+    message.includes("not found") ||
+    statusCode === 404
+  ) {
+    return {
+      status: 404,
+      body: {
+        error: "Account not found on this network",
+        details:
+          "Make sure you selected the network where the account exists",
+      },
+    };
+  }
+
+  // Check for rate limiting
+  if (statusCode === 429) {
+    return {
+      status: 429,
+      body: { error: "Rate limited. Please try again later." },
+    };
+  }
+
+  // Check for Horizon server errors
+  if (statusCode === 500) {
+    return { status: 500, body: { error: "Horizon server error" } };
+  }
+
+  // Check for Bad Request (pagination or other API issues)
+  if (message.includes("Bad Request") || statusCode === 400) {
+    return { status: 400, body: { error: "Bad Request to Horizon API" } };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: "Failed to fetch wrapped data",
+      details: error instanceof Error ? error.message : String(error),
+    },
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Streaming API route for wrapped data
+ * Same inputs and cache as /api/wrapped, but sends indexing progress as
+ * Server-Sent Events and finishes with the same validated
+ * `WrappedResponse`. Streams for the same wrap share one run and see the
+ * same progress.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getWrapCache } from "@/app/services/wrapCache";
+import { getCacheKey } from "@/app/utils/indexer";
+import {
+  INDEXER_EVENT_TYPES,
+  IndexerEvent,
+  createRunId,
+} from "@/app/utils/indexerEventEmitter";
+import {
+  SSE_KEEPALIVE,
+  formatSseEvent,
+  isValidRunId,
+} from "@/app/utils/indexingStream";
+import { IndexingStep } from "@/app/types/indexing";
+import { isAbortError } from "@/app/utils/abort";
+import { isRetryableHorizonError } from "@/app/services/horizonClient";
+import {
+  buildWrappedResponse,
+  indexWrapped,
+  parseWrappedRequest,
+  toWrappedError,
+} from "../request";
+
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+export async function GET(request: NextRequest) {
+  // Invalid input is still a plain JSON 400, before any stream is opened
+  const parsed = parseWrappedRequest(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json(parsed.error.body, {
+      status: parsed.error.status,
+    });
+  }
+  const { accountId, network, period, refresh } = parsed.request;
+
+  // Clients name the run up front so they can ignore events from any
+  // other one; without a usable ID the server picks its own
+  const requestedRunId = request.nextUrl.searchParams.get("runId");
+  const runId =
+    requestedRunId && isValidRunId(requestedRunId)
+      ? requestedRunId
+      : createRunId();
+
+  const encoder = new TextEncoder();
+  // Shared with `cancel`, which runs when the client goes away first
+  let closed = false;
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastStep: IndexingStep = "initializing";
+
+      // Sends run from the shared run's emitter and timers too, so a
+      // stream closed underneath them must not throw
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+          clearInterval(keepalive);
+        }
+      };
+
+      // The indexer reports its own failures as raw step errors; those are
+      // replaced below by the mapped, client-facing message. Completion is
+      // sent below too, so cached results finish the same way.
+      const forwarded: IndexerEvent["type"][] = INDEXER_EVENT_TYPES.filter(
+        (type) => type !== "step-error" && type !== "indexing-complete",
+      );
+      // A shared run carries its own ID; each stream relabels its events
+      // with the ID its client is following
+      const forward = (event: IndexerEvent) => {
+        if (!forwarded.includes(event.type)) return;
+        if (event.type === "step-change") lastStep = event.step;
+        send(formatSseEvent({ ...event, runId }));
+      };
+
+      keepalive = setInterval(
+        () => send(SSE_KEEPALIVE),
+        KEEPALIVE_INTERVAL_MS,
+      );
+
+      const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      };
+      request.signal.addEventListener("abort", cleanup);
+
+      try {
+        const cacheKey = getCacheKey(accountId, network, period);
+        const cachedEntry = refresh
+          ? undefined
+          : await getWrapCache().get(cacheKey);
+
+        // The run is cancelled once every client waiting on it disconnects
+        const entry =
+          cachedEntry ??
+          (await indexWrapped(parsed.request, cacheKey, {
+            signal: request.signal,
+            onEvent: forward,
+          }));
+
+        const built = buildWrappedResponse(
+          parsed.request,
+          entry,
+          entry === cachedEntry,
+        );
+        if ("error" in built) {
+          send(
+            formatSseEvent({
+              type: "step-error",
+              step: lastStep,
+              message: built.error.body.error,
+              recoverable: false,
+              runId,
+            }),
+          );
+          return;
+        }
+
+        send(
+          formatSseEvent({
+            type: "indexing-complete",
+            data: built.response,
+            runId,
+          }),
+        );
+      } catch (error: unknown) {
+        if (isAbortError(error)) return;
+        console.error("Error in /api/wrapped/stream:", error);
+
+        const { body } = toWrappedError(error);
+        send(
+          formatSseEvent({
+            type: "step-error",
+            step: lastStep,
+            message: body.error,
+            // Rate limits and outages may clear up; bad requests won't
+            recoverable: isRetryableHorizonError(error),
+            runId,
+          }),
+        );
+      } finally {
+        cleanup();
+      }
+    },
+
+    cancel() {
+      closed = true;
+      clearInterval(keepalive);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx-style proxies
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Minted wrap verification route
+ * Checks the wrap an account minted for a period against the account's
+ * indexed data. Takes `accountId`, `network` and `period` like
+ * /api/wrapped. The wrap is read from the contract's network, and the
+ * stats are re-indexed on the network the minted wrap was indexed on: the
+ * one the contract recorded, else `network`. Without either the wrap is
+ * unverifiable.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getWrapContractClient } from "@/app/services/wrapContract";
+import { verifyMintedWrap } from "@/app/services/wrapVerification";
+import { getWrapCache } from "@/app/services/wrapCache";
+import { getCacheKey } from "@/app/utils/indexer";
+import { serializePeriod } from "@/app/utils/periods";
+import { indexWrapped, parseWrappedRequest, toWrappedError } from "../request";
+
+export async function GET(request: NextRequest) {
+  const parsed = parseWrappedRequest(request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json(parsed.error.body, {
+      status: parsed.error.status,
+    });
+  }
+  const { accountId, network, period } = parsed.request;
+  // `network` defaults to mainnet; only an explicit one says where the
+  // wrap was indexed
+  const requestedNetwork = request.nextUrl.searchParams.has("network")
+    ? network
+    : undefined;
+
+  let wrap;
+  try {
+    wrap = await getWrapContractClient().getWrap(
+      accountId,
+      serializePeriod(period),
+    );
+  } catch (error) {
+    console.error("Error reading wrap in /api/wrapped/verify:", error);
+    return NextResponse.json(
+      { error: "Couldn't read the wrap from the contract" },
+      { status: 502 },
+    );
+  }
+  if (!wrap) {
+    return NextResponse.json(
+      { error: "No wrap minted for this account and period" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    // Indexed through the wrap cache, so repeated checks of a closed
+    // period don't crawl Horizon again
+    const verification = await verifyMintedWrap(
+      { ...wrap, network: wrap.network ?? requestedNetwork },
+      async (minted, indexedOn) => {
+        const wrapRequest = {
+          accountId,
+          network: indexedOn,
+          period: minted,
+          refresh: false,
+        };
+        const cacheKey = getCacheKey(accountId, indexedOn, minted);
+        const entry =
+          (await getWrapCache().get(cacheKey)) ??
+          (await indexWrapped(wrapRequest, cacheKey, {
+            signal: request.signal,
+          }));
+        return entry.result;
+      },
+    );
+
+    return NextResponse.json(verification);
+  } catch (error: unknown) {
+    console.error("Error in /api/wrapped/verify:", error);
+
+    const { status, body } = toWrappedError(error);
+    return NextResponse.json(body, { status });
+  }
+}
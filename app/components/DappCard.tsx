@@ -1,10 +1,16 @@
 "use client";
 
+import type { CSSProperties } from "react";
+import Image from "next/image";
 import { motion } from "framer-motion";
 
 interface DappCardProps {
   rank: number;
   name: string;
+  /** Logo path from the dapp registry */
+  logo?: string;
+  /** Brand color; falls back to Stellar Wrap green */
+  color?: string;
   interactions: number;
   delay?: number;
 }
@@ -12,6 +18,8 @@ interface DappCardProps {
 export function DappCard({
   rank,
   name,
+  logo,
+  color = "#1DB954",
   interactions,
   delay = 0,
 }: DappCardProps) {
@@ -53,12 +61,28 @@ export function DappCard({
         </div>
       </div>
 
+      {logo && (
+        <div className="absolute top-5 right-5">
+          <Image
+            src={logo}
+            alt={`${name} logo`}
+            width={44}
+            height={44}
+            className="rounded-xl shadow-lg"
+            style={{ boxShadow: `0 0 24px ${color}66` }}
+          />
+        </div>
+      )}
+
       <div className="relative z-10 space-y-1.5">
         <h3 className="text-[28px] md:text-[32px] font-black tracking-tight leading-none text-white drop-shadow-lg group-hover:drop-shadow-xl transition-all">
           {name}
         </h3>
         <div className="flex items-baseline gap-2">
-          <span className="text-[20px] md:text-[22px] font-black text-[#1DB954] group-hover:text-white transition-colors duration-300">
+          <span
+            className="text-[20px] md:text-[22px] font-black text-[var(--dapp-color)] group-hover:text-white transition-colors duration-300"
+            style={{ "--dapp-color": color } as CSSProperties}
+          >
             {interactions}
           </span>
           <span className="text-[13px] md:text-[14px] font-semibold text-white/40 group-hover:text-white/60 transition-colors duration-300">
@@ -0,0 +1,39 @@
+"use client";
+
+import { motion } from "motion/react";
+import { useWrapStore } from "../store/wrapStore";
+
+interface DemoBadgeProps {
+  /** Overrides the store, e.g. before any result has loaded */
+  visible?: boolean;
+}
+
+/**
+ * Labels a wrap showing sample data so it's never taken for the account's
+ * own. Shown for the current result when it is the demo wrap.
+ */
+export function DemoBadge({ visible }: DemoBadgeProps) {
+  const isDemo = useWrapStore((state) => state.result?.isDemo ?? false);
+  if (!(visible ?? isDemo)) return null;
+
+  return (
+    <motion.div
+      className="absolute top-20 left-1/2 -translate-x-1/2 z-30"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <div
+        className="px-4 py-2 rounded-full backdrop-blur-xl border border-[#FFA500]/40 text-center"
+        style={{ backgroundColor: "rgba(0, 0, 0, 0.5)" }}
+      >
+        <span className="text-xs md:text-sm font-black tracking-wider text-[#FFA500]">
+          DEMO DATA
+        </span>
+        <span className="text-xs md:text-sm text-white/60 ml-2">
+          Sample wrap, not a real account
+        </span>
+      </div>
+    </motion.div>
+  );
+}
@@ -7,6 +7,18 @@ import { useRouter } from 'next/navigation';
 import { ColorToggle } from './ColorToggle';
 import { NetworkToggle } from './NetworkToggle';
 import { useWrapStore, WrapPeriod } from '../store/wrapStore';
+import { serializePeriod } from '../utils/periods';
+
+// Rolling windows plus the current calendar year ("Wrapped 2026")
+const PERIOD_OPTIONS: Array<{ label: string; period: WrapPeriod }> = [
+  { label: 'weekly', period: 'weekly' },
+  { label: 'monthly', period: 'monthly' },
+  { label: 'yearly', period: 'yearly' },
+  {
+    label: String(new Date().getUTCFullYear()),
+    period: { type: 'year', year: new Date().getUTCFullYear() },
+  },
+];
 
 export function LandingPage() {
   const router = useRouter();
@@ -403,29 +415,33 @@ export function LandingPage() {
           <div className="flex items-center gap-1 backdrop-blur-xl rounded-xl md:rounded-2xl p-1 md:p-2 border border-white/10"
             style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
           >
-            {(['weekly', 'monthly', 'yearly'] as const).map((periodOption) => (
-              <motion.button
-                key={periodOption}
-                onClick={() => setSelectedPeriod(periodOption)}
-                className="relative px-4 py-2 sm:px-6 sm:py-3 md:px-8 md:py-4 rounded-lg md:rounded-xl font-black tracking-tight text-sm sm:text-base md:text-lg"
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                {selectedPeriod === periodOption && (
-                  <motion.div
-                    layoutId="period-bg"
-                    className="absolute inset-0 rounded-lg md:rounded-xl"
-                    style={{ backgroundColor: 'var(--color-theme-primary)' }}
-                    transition={{ type: "spring", stiffness: 300, damping: 30 }}
-                  />
-                )}
-                <span className={`relative z-10 uppercase ${
-                  selectedPeriod === periodOption ? 'text-black' : 'text-white/50'
-                }`}>
-                  {periodOption}
-                </span>
-              </motion.button>
-            ))}
+            {PERIOD_OPTIONS.map(({ label, period: periodOption }) => {
+              const isSelected =
+                serializePeriod(selectedPeriod) === serializePeriod(periodOption);
+              return (
+                <motion.button
+                  key={label}
+                  onClick={() => setSelectedPeriod(periodOption)}
+                  className="relative px-4 py-2 sm:px-6 sm:py-3 md:px-8 md:py-4 rounded-lg md:rounded-xl font-black tracking-tight text-sm sm:text-base md:text-lg"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {isSelected && (
+                    <motion.div
+                      layoutId="period-bg"
+                      className="absolute inset-0 rounded-lg md:rounded-xl"
+                      style={{ backgroundColor: 'var(--color-theme-primary)' }}
+                      transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                    />
+                  )}
+                  <span className={`relative z-10 uppercase ${
+                    isSelected ? 'text-black' : 'text-white/50'
+                  }`}>
+                    {label}
+                  </span>
+                </motion.button>
+              );
+            })}
           </div>
         </motion.div>
 
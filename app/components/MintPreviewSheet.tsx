@@ -0,0 +1,173 @@
+"use client";
+
+import { motion } from "motion/react";
+import { Loader2, ShieldCheck, X } from "lucide-react";
+import type {
+  FootprintEntry,
+  SimulationPreview,
+} from "../utils/mintSimulation";
+import { formatAmount } from "../utils/amounts";
+import { formatUsername } from "../services/wrapResultMapper";
+
+interface MintPreviewSheetProps {
+  preview: SimulationPreview;
+  /** True while the wallet is signing or the mint is being submitted */
+  isConfirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4 py-1">
+      <span className="text-white/60">{label}</span>
+      <span className="font-mono text-white">{value}</span>
+    </div>
+  );
+}
+
+function FootprintList({
+  title,
+  entries,
+}: {
+  title: string;
+  entries: FootprintEntry[];
+}) {
+  return (
+    <div>
+      <p className="text-white/60">
+        {title} ({entries.length})
+      </p>
+      <ul className="ml-4 text-xs font-mono text-white/80">
+        {entries.map((entry, index) => (
+          <li key={index}>
+            • {entry.kind} {formatUsername(entry.owner)}
+            {entry.durability ? ` (${entry.durability})` : ""}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Confirmation sheet shown between simulating and signing the mint, with
+ * what the simulation says it will cost and touch
+ */
+export function MintPreviewSheet({
+  preview,
+  isConfirming,
+  onConfirm,
+  onCancel,
+}: MintPreviewSheetProps) {
+  const xlm = (stroops: bigint) => `${formatAmount(stroops)} XLM`;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-black/70"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={isConfirming ? undefined : onCancel}
+    >
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mint-preview-title"
+        className="w-full max-w-lg rounded-t-3xl border border-white/20 bg-black p-6 text-sm"
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 30, stiffness: 300 }}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2
+            id="mint-preview-title"
+            className="text-2xl font-black tracking-tight text-white"
+          >
+            Review your mint
+          </h2>
+          <button
+            onClick={onCancel}
+            disabled={isConfirming}
+            className="text-white/60 hover:text-white disabled:opacity-30"
+            aria-label="Cancel mint"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="border-b border-white/10 pb-3">
+            <Row label="Inclusion fee" value={xlm(preview.inclusionFee)} />
+            <Row label="Resource fee" value={xlm(preview.resourceFee)} />
+            <Row label="Maximum total" value={xlm(preview.totalFee)} />
+          </div>
+
+          <div className="border-b border-white/10 pb-3">
+            <Row
+              label="CPU instructions"
+              value={preview.cpuInstructions.toLocaleString()}
+            />
+            <Row
+              label="Ledger reads"
+              value={`${preview.readBytes.toLocaleString()} bytes`}
+            />
+            <Row
+              label="Ledger writes"
+              value={`${preview.writeBytes.toLocaleString()} bytes`}
+            />
+          </div>
+
+          <div className="space-y-2 border-b border-white/10 pb-3">
+            <FootprintList
+              title="Reads"
+              entries={preview.footprint.readOnly}
+            />
+            <FootprintList
+              title="Writes"
+              entries={preview.footprint.readWrite}
+            />
+          </div>
+
+          <div>
+            <p className="text-white/60">
+              Authorizations ({preview.auth.length})
+            </p>
+            <ul className="ml-4 text-xs text-white/80">
+              {preview.auth.map((entry, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  <ShieldCheck className="h-3 w-3 shrink-0" />
+                  <span>
+                    <span className="font-mono">{entry.functionName}</span> on{" "}
+                    <span className="font-mono">
+                      {formatUsername(entry.contractId)}
+                    </span>
+                    , signed by{" "}
+                    <span className="font-mono">
+                      {formatUsername(entry.signer)}
+                    </span>
+                    {entry.coveredByTransaction
+                      ? " with the transaction"
+                      : " separately"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <button
+          onClick={onConfirm}
+          disabled={isConfirming}
+          className="mt-6 flex w-full items-center justify-center gap-3 rounded-2xl border border-white/20 px-6 py-4 text-lg font-black text-white disabled:opacity-60"
+          style={{ backgroundColor: "rgba(var(--color-theme-primary-rgb), 0.3)" }}
+        >
+          {isConfirming && <Loader2 className="h-5 w-5 animate-spin" />}
+          {isConfirming ? "Confirm in your wallet..." : "Sign and mint"}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
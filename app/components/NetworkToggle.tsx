@@ -3,15 +3,16 @@
 import { motion } from 'framer-motion';
 import { Network as NetworkIcon } from 'lucide-react';
 import { useWrapStore } from '../store/wrapStore';
-import { NETWORKS, Network } from '../../src/config';
+import { NETWORKS, SELECTABLE_NETWORKS } from '../../src/config';
 import { getNetworkDisplayName } from '../../src/utils/networkUtils';
 
 export function NetworkToggle() {
   const { network, setNetwork } = useWrapStore();
 
+  // Cycles through the networks in the registry
   const toggleNetwork = () => {
-    const newNetwork: Network = network === NETWORKS.MAINNET ? NETWORKS.TESTNET : NETWORKS.MAINNET;
-    setNetwork(newNetwork);
+    const index = SELECTABLE_NETWORKS.indexOf(network);
+    setNetwork(SELECTABLE_NETWORKS[(index + 1) % SELECTABLE_NETWORKS.length]);
   };
 
   const isMainnet = network === NETWORKS.MAINNET;
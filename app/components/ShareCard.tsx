@@ -1,13 +1,23 @@
-import { motion } from "motion/react";
+import Link from "next/link";
+import { AnimatePresence, motion } from "motion/react";
 import { Share2, Download, Twitter, Loader2, Sparkles, AlertCircle } from "lucide-react";
 import { useState, RefObject, useEffect } from "react";
 import { downloadShareImage } from "../utils/imageExport";
-import { mintWrap } from "../utils/walletKit";
+import {
+  PreparedMint,
+  cancelMint,
+  confirmMint,
+  prepareMint,
+} from "../utils/walletKit";
+import { MintPreviewSheet } from "./MintPreviewSheet";
+import { VerificationBadge } from "./VerificationBadge";
 import { useWrapStore } from "@/app/store/wrapStore";
 import { useTransactionStore } from "@/app/store/transactionStore";
 import { toast } from "sonner";
 import { useSound } from "../hooks/useSound";
 import { SOUND_NAMES } from "../utils/soundManager";
+import { CONTRACT_NETWORK, getExplorerTxUrl } from "@/src/config";
+import { serializePeriod } from "../utils/periods";
 interface ShareCardProps {
   username: string;
   transactions: number;
@@ -26,7 +36,11 @@ export function ShareCard({
   shareImageRef,
 }: ShareCardProps) {
   const [isDownloading, setIsDownloading] = useState(false);
-  const { address } = useWrapStore();
+  // The simulated mint awaiting confirmation in the preview sheet
+  const [preparedMint, setPreparedMint] = useState<PreparedMint | null>(null);
+  // The period the last confirmed mint was minted under, to verify it by
+  const [mintedTimeframe, setMintedTimeframe] = useState<string | null>(null);
+  const { address, network, period, result } = useWrapStore();
   const { playSound } = useSound();
   
   const { transactionState, transactionHash, transactionError, resetTransaction } = useTransactionStore();
@@ -35,26 +49,35 @@ export function ShareCard({
     "building",
     "simulating",
     "signing",
+    "signed",
     "submitting",
+    "submitted",
     "confirming",
   ].includes(transactionState);
   
   const mintSuccess = transactionState === "confirmed" ? transactionHash : null;
   const mintFailed = transactionState === "failed";
+  const mintedPeriod = mintedTimeframe ?? serializePeriod(period);
+  // Sample data is never recorded on-chain as if it were the account's
+  const isDemo = result?.isDemo ?? false;
+  const isConfirming = ["signing", "signed", "submitting"].includes(
+    transactionState,
+  );
 
   useEffect(() => {
     if (transactionState === "confirmed" && transactionHash) {
       playSound(SOUND_NAMES.MINT_SUCCESS);
+      const explorerUrl = getExplorerTxUrl(CONTRACT_NETWORK, transactionHash);
       toast.success("Minted successfully!", {
-        description: "View your transaction on Stellar Explorer",
-        action: {
-          label: "View",
-          onClick: () =>
-            window.open(
-              `https://stellar.expert/explorer/testnet/tx/${transactionHash}`,
-              "_blank",
-            ),
-        },
+        description: explorerUrl
+          ? "View your transaction on Stellar Explorer"
+          : `Transaction ${transactionHash}`,
+        action: explorerUrl
+          ? {
+              label: "View",
+              onClick: () => window.open(explorerUrl, "_blank"),
+            }
+          : undefined,
       });
     }
 
@@ -98,12 +121,27 @@ export function ShareCard({
       return;
     }
 
-    if (transactionState === "failed" || transactionState === "confirmed") {
+    if (isDemo || !result?.mintStats) {
+      toast.error("Only your own wrap can be minted", {
+        description: "Sample data from demo mode isn't minted on-chain.",
+      });
+      return;
+    }
+
+    // A mint left simulated (e.g. by a reload) lost its prepared
+    // transaction, so it starts over too
+    if (["failed", "confirmed", "simulated"].includes(transactionState)) {
       resetTransaction();
     }
 
     try {
-      await mintWrap(address);
+      // Simulate first; signing waits for the user to confirm the preview
+      setPreparedMint(
+        await prepareMint(address, network, {
+          ...result.mintStats,
+          timeframe: serializePeriod(period),
+        }),
+      );
     } catch (error) {
       // Errors are handled by transactionObserver setting state to 'failed'
       // which triggers the useEffect to show a toast, so we just log here.
@@ -111,7 +149,26 @@ export function ShareCard({
     }
   };
 
+  const handleConfirmMint = async () => {
+    if (!preparedMint) return;
+    setMintedTimeframe(preparedMint.timeframe);
+    try {
+      await confirmMint(preparedMint);
+    } catch (error) {
+      // Reported through the observer like simulation failures
+      console.error("Minting process caught error:", error);
+    } finally {
+      setPreparedMint(null);
+    }
+  };
+
+  const handleCancelMint = () => {
+    cancelMint();
+    setPreparedMint(null);
+  };
+
   const getMintButtonText = () => {
+    if (isDemo) return "Demo wraps can't be minted";
     switch (transactionState) {
       case "building":
         return "Building transaction...";
@@ -119,7 +176,9 @@ export function ShareCard({
         return "Simulating transaction...";
       case "signing":
         return "Awaiting wallet signature...";
+      case "signed":
       case "submitting":
+      case "submitted":
         return "Submitting transaction...";
       case "confirming":
         return "Confirming transaction...";
@@ -315,13 +374,13 @@ export function ShareCard({
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 1.0 }}
             whileHover={{
-              scale: isMinting || !!mintSuccess ? 1 : 1.02,
+              scale: isDemo || isMinting || !!mintSuccess ? 1 : 1.02,
               transition: { duration: 0.2 },
             }}
-            whileTap={{ scale: isMinting || !!mintSuccess ? 1 : 0.98 }}
+            whileTap={{ scale: isDemo || isMinting || !!mintSuccess ? 1 : 0.98 }}
             className={`w-full group relative mt-8 ${mintFailed ? "animate-pulse" : ""}`}
             onClick={handleMint}
-            disabled={isMinting || !!mintSuccess}
+            disabled={isDemo || isMinting || !!mintSuccess}
           >
             <motion.div
               className={`absolute -inset-1 rounded-2xl blur-xl transition-opacity ${mintFailed ? "opacity-50" : "opacity-0 group-hover:opacity-100"}`}
@@ -346,6 +405,22 @@ export function ShareCard({
               </span>
             </div>
           </motion.button>
+          {mintSuccess && address && (
+            <div className="mt-4 flex items-center justify-center gap-4">
+              <VerificationBadge
+                key={`${address}:${network}:${mintedPeriod}`}
+                accountId={address}
+                network={network}
+                period={mintedPeriod}
+              />
+              <Link
+                href={`/gallery/${address}`}
+                className="text-white/60 underline hover:text-white"
+              >
+                See your minted wraps
+              </Link>
+            </div>
+          )}
         </div>
 
         {/* Right: Share options */}
@@ -468,6 +543,16 @@ export function ShareCard({
           </motion.div>
         </div>
       </div>
+      <AnimatePresence>
+        {preparedMint && (
+          <MintPreviewSheet
+            preview={preparedMint.preview}
+            isConfirming={isConfirming}
+            onConfirm={handleConfirmMint}
+            onCancel={handleCancelMint}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
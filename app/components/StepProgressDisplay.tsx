@@ -1,18 +1,24 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
-import { AlertCircle, RotateCcw, X } from "lucide-react";
+import { AlertCircle, FlaskConical, RotateCcw, X } from "lucide-react";
 import { useIndexingStore } from "@/app/store/indexingStore";
 import { INDEXING_STEPS, STEP_ORDER } from "@/app/types/indexing";
+import { useSmoothedProgress } from "@/app/hooks/useSmoothedProgress";
 
 interface StepProgressDisplayProps {
   onRetry?: () => void;
   onCancel?: () => void;
+  onUseDemoData?: () => void;
+  /** Ease the displayed percentages between progress updates */
+  smooth?: boolean;
 }
 
 export function StepProgressDisplay({
   onRetry,
   onCancel,
+  onUseDemoData,
+  smooth = false,
 }: StepProgressDisplayProps) {
   const {
     currentStep,
@@ -24,6 +30,11 @@ export function StepProgressDisplay({
     estimatedTimeRemaining,
     isLoading,
   } = useIndexingStore();
+  const currentStepProgress = useSmoothedProgress(
+    currentStep ? stepProgress[currentStep] : 0,
+    smooth,
+  );
+  const displayedOverallProgress = useSmoothedProgress(overallProgress, smooth);
 
   const formatTime = (ms: number): string => {
     const seconds = Math.ceil(ms / 1000);
@@ -86,7 +97,7 @@ export function StepProgressDisplay({
                   Step Progress
                 </p>
                 <p className="text-lg md:text-xl font-bold text-white">
-                  {stepProgress[currentStep]}%
+                  {currentStepProgress}%
                 </p>
               </div>
             </motion.div>
@@ -103,14 +114,14 @@ export function StepProgressDisplay({
               Step Progress
             </label>
             <span className="text-xs font-mono text-neutral-400">
-              {currentStep ? stepProgress[currentStep] : 0}%
+              {currentStepProgress}%
             </span>
           </div>
           <motion.div
             id="step-progress"
             className="h-2 bg-white/5 rounded-full overflow-hidden border border-white/10"
             role="progressbar"
-            aria-valuenow={currentStep ? stepProgress[currentStep] : 0}
+            aria-valuenow={currentStepProgress}
             aria-valuemin={0}
             aria-valuemax={100}
           >
@@ -118,7 +129,7 @@ export function StepProgressDisplay({
               className="h-full bg-linear-to-r from-(--color-theme-primary) to-(--color-theme-primary) rounded-full"
               initial={{ width: "0%" }}
               animate={{
-                width: `${currentStep ? stepProgress[currentStep] : 0}%`,
+                width: `${currentStepProgress}%`,
               }}
               transition={{ duration: 0.3, ease: "easeOut" }}
               style={{
@@ -145,14 +156,14 @@ export function StepProgressDisplay({
             id="overall-progress"
             className="h-3 bg-white/5 rounded-full overflow-hidden border border-white/10"
             role="progressbar"
-            aria-valuenow={overallProgress}
+            aria-valuenow={displayedOverallProgress}
             aria-valuemin={0}
             aria-valuemax={100}
           >
             <motion.div
               className="h-full bg-linear-to-r from-(--color-theme-primary) to-(--color-theme-primary)"
               initial={{ width: "0%" }}
-              animate={{ width: `${overallProgress}%` }}
+              animate={{ width: `${displayedOverallProgress}%` }}
               transition={{ duration: 0.3, ease: "easeOut" }}
               style={{
                 boxShadow: "var(--color-theme-primary) 0 0 15px",
@@ -258,6 +269,17 @@ export function StepProgressDisplay({
                     Retry
                   </motion.button>
                 )}
+                {onUseDemoData && (
+                  <motion.button
+                    onClick={onUseDemoData}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    className="flex items-center gap-2 px-4 py-2 bg-neutral-500/20 hover:bg-neutral-500/30 border border-neutral-500/30 rounded-lg text-sm font-medium text-neutral-300 transition-colors"
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                    Use demo data
+                  </motion.button>
+                )}
                 {onCancel && (
                   <motion.button
                     onClick={onCancel}
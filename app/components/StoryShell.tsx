@@ -5,6 +5,7 @@ import { Home, Share2, ChevronRight, Palette } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { ReactNode } from "react";
 import { MuteToggle } from "./MuteToggle";
+import { DemoBadge } from "./DemoBadge";
 
 interface StoryShellProps {
   children: ReactNode;
@@ -143,6 +144,8 @@ export function StoryShell({ children, activeSegment = 1 }: StoryShellProps) {
 
       </div>
 
+      <DemoBadge />
+
       {/* Main Content */}
       <main className="flex-1 relative z-10 flex flex-col items-center justify-center">
         {children}
@@ -7,6 +7,7 @@ import { DappCard } from "./DappCard";
 export function TopDapps() {
   const { result } = useWrapStore();
   const topDapps = result?.dapps ?? [];
+  const topCall = result?.topContractCall;
 
   const container = {
     hidden: { opacity: 0 },
@@ -59,11 +60,33 @@ export function TopDapps() {
             key={dapp.name}
             rank={index + 1}
             name={dapp.name}
+            logo={dapp.logo}
+            color={dapp.color}
             interactions={dapp.interactions}
             delay={index * 0.15}
           />
         ))}
       </motion.div>
+
+      {/* Most called contract function */}
+      {topCall && (
+        <motion.p
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.8, delay: 1 }}
+          className="text-[18px] md:text-[22px] font-semibold text-white/60"
+        >
+          You called{" "}
+          <code className="font-mono font-black text-[#1DB954]">
+            {topCall.functionName}
+          </code>{" "}
+          <span className="font-black text-white">
+            {topCall.calls.toLocaleString()}
+          </span>{" "}
+          {topCall.calls === 1 ? "time" : "times"} on{" "}
+          <span className="font-black text-white">{topCall.target}</span>
+        </motion.p>
+      )}
     </div>
   );
 }
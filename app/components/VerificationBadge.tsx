@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+} from "lucide-react";
+import type { Network } from "@/src/config";
+import type {
+  FieldCheck,
+  WrapVerification,
+} from "../services/wrapVerification";
+
+interface VerificationBadgeProps {
+  accountId: string;
+  /**
+   * Network the minted stats were indexed on. Left out when unknown, so
+   * only a network the contract recorded is checked.
+   */
+  network?: Network;
+  /** Serialized period the wrap was minted for */
+  period: string;
+}
+
+const FIELD_LABELS: Record<FieldCheck["field"], string> = {
+  totalVolume: "volume",
+  mostActiveAsset: "most active asset",
+  contractCalls: "contract calls",
+};
+
+function describe(verification: WrapVerification): string {
+  if (verification.reason) return verification.reason;
+  const mismatched = verification.checks
+    .filter((check) => !check.matches)
+    .map(
+      ({ field, minted, indexed }) =>
+        `${FIELD_LABELS[field]}: minted ${minted}, indexed ${indexed}`,
+    );
+  return mismatched.length > 0
+    ? mismatched.join("; ")
+    : "Minted stats match the account's indexed activity";
+}
+
+/**
+ * Whether a minted wrap's stats match a re-index of its account. Checks
+ * once per mount; key it by account and period to check another wrap.
+ */
+export function VerificationBadge({
+  accountId,
+  network,
+  period,
+}: VerificationBadgeProps) {
+  const [verification, setVerification] = useState<WrapVerification | null>(
+    null,
+  );
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ accountId, period });
+    if (network) params.set("network", network);
+
+    fetch(`/api/wrapped/verify?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`API error: ${response.status}`);
+        setVerification((await response.json()) as WrapVerification);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.warn("Wrap verification failed:", error);
+          setFailed(true);
+        }
+      });
+
+    return () => controller.abort();
+  }, [accountId, network, period]);
+
+  const base =
+    "inline-flex items-center gap-1.5 rounded-full border px-3 py-1 " +
+    "text-xs font-semibold";
+
+  if (failed) {
+    return (
+      <span className={`${base} border-white/20 text-white/40`}>
+        <ShieldQuestion className="h-3.5 w-3.5" />
+        Couldn&apos;t verify
+      </span>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <span className={`${base} border-white/20 text-white/60`}>
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Verifying
+      </span>
+    );
+  }
+
+  switch (verification.status) {
+    case "verified":
+      return (
+        <span
+          className={`${base} border-green-500/40 text-green-400`}
+          title={describe(verification)}
+        >
+          <ShieldCheck className="h-3.5 w-3.5" />
+          Verified
+        </span>
+      );
+    case "mismatch":
+      return (
+        <span
+          className={`${base} border-red-500/40 text-red-400`}
+          title={describe(verification)}
+        >
+          <ShieldAlert className="h-3.5 w-3.5" />
+          Mismatch
+        </span>
+      );
+    default:
+      return (
+        <span
+          className={`${base} border-white/20 text-white/60`}
+          title={describe(verification)}
+        >
+          <ShieldQuestion className="h-3.5 w-3.5" />
+          Unverifiable
+        </span>
+      );
+  }
+}
@@ -12,6 +12,7 @@ import { useStellarAddressValidation } from '../../src/hooks/useStellarAddressVa
 import { indexerService } from '../../src/services/indexerService';
 import { useSound } from '../hooks/useSound';
 import { SOUND_NAMES } from '../utils/soundManager';
+import { DEMO_ADDRESS } from '../data/mockData';
 
 
 
@@ -150,10 +151,9 @@ export default function ConnectPage() {
   };
 
   const handleDemoMode = () => {
-    const demoAddress = "GDEMOADDRESSFORSTELLARWRAPDEMOPURPOSES12345678";
-    handleRawAddressChange(demoAddress);
+    handleRawAddressChange(DEMO_ADDRESS);
     setTimeout(() => {
-      setAddress(demoAddress);
+      setAddress(DEMO_ADDRESS);
       setStatus("loading");
       playSound(SOUND_NAMES.SLIDE_WHOOSH);
       router.push("/loading");
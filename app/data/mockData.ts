@@ -1,3 +1,6 @@
+// Placeholder address used by the connect page's demo mode
+export const DEMO_ADDRESS = "GDEMOADDRESSFORSTELLARWRAPDEMOPURPOSES12345678";
+
 // Mock user data
 export const mockData = {
   username: "stellar_legend",
@@ -0,0 +1,165 @@
+/**
+ * On-chain gallery
+ * Lists the soulbound wraps an account has minted, read straight from the
+ * contract, with their stored stats and mint transaction
+ */
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { StrKey } from "@stellar/stellar-sdk";
+import {
+  MintTransaction,
+  MintedWrap,
+  findMintTransactions,
+  getWrapContractClient,
+} from "@/app/services/wrapContract";
+import {
+  describePeriod,
+  parsePeriod,
+  resolvePeriod,
+} from "@/app/utils/periods";
+import { VerificationBadge } from "@/app/components/VerificationBadge";
+import { CONTRACT_NETWORK, getExplorerTxUrl } from "@/src/config";
+
+interface GalleryPageProps {
+  params: Promise<{ address: string }>;
+}
+
+function periodLabel(period: string): string {
+  const parsed = parsePeriod(period);
+  return parsed ? describePeriod(parsed) : period;
+}
+
+/** Calendar periods by start date; rolling and unknown ones sort last */
+function periodStart(period: string): number {
+  const parsed = parsePeriod(period);
+  return parsed && typeof parsed !== "string"
+    ? resolvePeriod(parsed).start.getTime()
+    : 0;
+}
+
+function WrapCard({
+  wrap,
+  mint,
+}: {
+  wrap: MintedWrap;
+  mint?: MintTransaction;
+}) {
+  const txHash = mint?.hash;
+  const explorerUrl = txHash
+    ? getExplorerTxUrl(CONTRACT_NETWORK, txHash)
+    : null;
+
+  return (
+    <li className="rounded-2xl border border-white/10 bg-black/50 p-6">
+      <div className="mb-3 flex items-center justify-between gap-4">
+        <h2 className="text-2xl font-black tracking-tight text-white">
+          {periodLabel(wrap.period)}
+        </h2>
+        {/* Indexed on the network the contract or the mint's attestation
+            names; the badge reports a wrap with neither as unverifiable */}
+        <VerificationBadge
+          accountId={wrap.owner}
+          network={wrap.network ?? mint?.network}
+          period={wrap.period}
+        />
+      </div>
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-white/60">Total volume</dt>
+        <dd className="font-mono text-white">
+          {wrap.totalVolume.toLocaleString()}
+        </dd>
+        <dt className="text-white/60">Most active asset</dt>
+        <dd className="font-mono text-white">{wrap.mostActiveAsset}</dd>
+        <dt className="text-white/60">Contract calls</dt>
+        <dd className="font-mono text-white">
+          {wrap.contractCalls.toLocaleString()}
+        </dd>
+        {wrap.mintedAt && (
+          <>
+            <dt className="text-white/60">Minted</dt>
+            <dd className="font-mono text-white">
+              {new Date(wrap.mintedAt).toLocaleDateString()}
+            </dd>
+          </>
+        )}
+      </dl>
+      {txHash && (
+        <p className="mt-4 text-xs text-white/40">
+          Mint transaction:{" "}
+          {explorerUrl ? (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono underline hover:text-white"
+            >
+              {txHash.slice(0, 12)}…
+            </a>
+          ) : (
+            <span className="font-mono">{txHash}</span>
+          )}
+        </p>
+      )}
+    </li>
+  );
+}
+
+export default async function GalleryPage({ params }: GalleryPageProps) {
+  const { address } = await params;
+  if (!StrKey.isValidEd25519PublicKey(address)) notFound();
+
+  let wraps: MintedWrap[] = [];
+  let mints = new Map<string, MintTransaction>();
+  let error: string | null = null;
+  try {
+    [wraps, mints] = await Promise.all([
+      getWrapContractClient().listWraps(address),
+      // Mint links and networks are extras; the gallery renders without them
+      findMintTransactions(address).catch(
+        () => new Map<string, MintTransaction>(),
+      ),
+    ]);
+  } catch (err) {
+    console.error("Failed to read minted wraps:", err);
+    error = "Couldn't read this account's wraps from the contract.";
+  }
+
+  const sorted = [...wraps].sort(
+    (a, b) => periodStart(b.period) - periodStart(a.period),
+  );
+
+  return (
+    <div className="min-h-screen bg-theme-background p-8">
+      <div className="mx-auto max-w-2xl">
+        <h1 className="mb-2 text-4xl font-bold text-white">Minted Wraps</h1>
+        <p className="mb-8 break-all font-mono text-sm text-white/40">
+          {address}
+        </p>
+
+        {error ? (
+          <p className="rounded-lg border border-red-500/30 bg-red-500/10 p-4 text-red-400">
+            {error}
+          </p>
+        ) : sorted.length === 0 ? (
+          <p className="text-white/60">
+            No wraps minted yet.{" "}
+            <Link href="/connect" className="underline hover:text-white">
+              Make yours
+            </Link>
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {sorted.map((wrap) => (
+              <WrapCard
+                key={wrap.period}
+                wrap={wrap}
+                mint={mints.get(wrap.period)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { Network } from "@/src/config";
+import type { WrapPeriod } from "../utils/indexer";
+import { useIndexingStore } from "../store/indexingStore";
+import {
+  INDEXER_EVENT_TYPES,
+  IndexerEvent,
+  applyIndexerEvent,
+  createRunId,
+} from "../utils/indexerEventEmitter";
+import { WRAPPED_STREAM_PATH } from "../utils/indexingStream";
+import { serializePeriod } from "../utils/periods";
+import { createAbortError } from "../utils/abort";
+import { WrappedResponse, parseWrappedResponse } from "../utils/wrappedResponse";
+
+/**
+ * Indexes an account on the server and feeds its progress events into
+ * `useIndexingStore` as they arrive. Each call is a new run; the store
+ * follows only the latest one. Resolves with the validated response. The
+ * stream closes on completion, failure, abort, or unmount; closing it
+ * cancels the run on the server.
+ */
+export function useIndexingStream() {
+  const sourceRef = useRef<EventSource | null>(null);
+
+  const close = useCallback(() => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+  }, []);
+
+  useEffect(() => close, [close]);
+
+  const streamIndexing = useCallback(
+    (
+      accountId: string,
+      network: Network,
+      period: WrapPeriod,
+      signal?: AbortSignal,
+    ): Promise<WrappedResponse> => {
+      close();
+      if (signal?.aborted) return Promise.reject(createAbortError());
+
+      const runId = createRunId();
+      useIndexingStore.getState().followRun(runId);
+
+      const params = new URLSearchParams({
+        accountId,
+        network,
+        period: serializePeriod(period),
+        runId,
+      });
+      const source = new EventSource(`${WRAPPED_STREAM_PATH}?${params}`);
+      sourceRef.current = source;
+
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          finish();
+          reject(createAbortError());
+        };
+        const finish = () => {
+          signal?.removeEventListener("abort", onAbort);
+          if (sourceRef.current === source) close();
+          else source.close();
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        INDEXER_EVENT_TYPES.forEach((type) => {
+          source.addEventListener(type, (message) => {
+            const event = JSON.parse(
+              (message as MessageEvent<string>).data,
+            ) as IndexerEvent;
+            applyIndexerEvent(event);
+
+            if (event.type === "indexing-complete") {
+              finish();
+              try {
+                resolve(parseWrappedResponse(event.data));
+              } catch (error) {
+                reject(error);
+              }
+            } else if (event.type === "step-error") {
+              finish();
+              reject(new Error(event.message));
+            }
+          });
+        });
+
+        // EventSource reconnects on its own, which would start a new run;
+        // treat a dropped connection as a failure instead. Settled promises
+        // ignore the extra reject.
+        source.onerror = () => {
+          finish();
+          reject(new Error("Lost connection to the indexing stream"));
+        };
+      });
+    },
+    [close],
+  );
+
+  return { streamIndexing, close };
+}
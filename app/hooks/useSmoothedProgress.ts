@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState } from "react";
+import { easeProgress } from "../utils/indexingProgress";
+
+/**
+ * Eases a progress percentage toward its latest reported value, so bursts
+ * of real progress don't make the display jump. Purely cosmetic: it never
+ * runs ahead of `target`, and when disabled returns `target` unchanged.
+ */
+export function useSmoothedProgress(target: number, enabled = true): number {
+  const [displayed, setDisplayed] = useState(target);
+  const displayedRef = useRef(target);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = easeProgress(displayedRef.current, target, now - last);
+      last = now;
+      displayedRef.current = next;
+      setDisplayed(next);
+      if (next !== target) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [target, enabled]);
+
+  return enabled ? Math.round(displayed) : target;
+}
@@ -1,26 +1,35 @@
 "use client";
 
 import { motion } from "motion/react";
-import { useCallback, useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { Home, ChevronRight } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { ProgressIndicator } from "../components/ProgressIndicator";
 import { StepProgressDisplay } from "../components/StepProgressDisplay";
 import { MuteToggle } from "../components/MuteToggle";
-import { useWrapStore } from "../store/wrapStore";
+import { DemoBadge } from "../components/DemoBadge";
+import { useWrapStore, WrapResult } from "../store/wrapStore";
 import { useIndexingStore } from "../store/indexingStore";
-import { mockData } from "../data/mockData";
+import { DEMO_ADDRESS } from "../data/mockData";
 import { useSound } from "../hooks/useSound";
 import { SOUND_NAMES } from "../utils/soundManager";
-import { indexAccount } from "../services/indexerService";
-import { IndexerEventEmitter } from "../utils/indexerEventEmitter";
+import { useIndexingStream } from "../hooks/useIndexingStream";
+import { isAbortError } from "../utils/abort";
+import {
+  createDemoWrapResult,
+  mapIndexerResultToWrapResult,
+} from "../services/wrapResultMapper";
 
 export default function LoadingScreen() {
   const router = useRouter();
   const { address, period, network, setStatus, setResult, setError } =
     useWrapStore();
-  const { startIndexing, cancelIndexing, loadState } = useIndexingStore();
+  const { startIndexing, cancelIndexing, reset: resetIndexing } =
+    useIndexingStore();
+  const isDemo = !address || address === DEMO_ADDRESS;
   const { playSound } = useSound();
+  const { streamIndexing } = useIndexingStream();
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleComplete = useCallback(() => {
     playSound(SOUND_NAMES.SLIDE_WHOOSH);
@@ -28,10 +37,19 @@ export default function LoadingScreen() {
   }, [router, playSound]);
 
   const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
     cancelIndexing();
     router.push("/");
   }, [cancelIndexing, router]);
 
+  const handleUseDemoData = useCallback(() => {
+    resetIndexing();
+    setError(null);
+    setResult(createDemoWrapResult());
+    setStatus("ready");
+    handleComplete();
+  }, [resetIndexing, setError, setResult, setStatus, handleComplete]);
+
   const handleRetry = useCallback(() => {
     // Reset error state and re-run the loading flow by reloading the page
     // (useEffect cleanup + re-mount is the cleanest way without prop-drilling)
@@ -40,81 +58,33 @@ export default function LoadingScreen() {
 
   useEffect(() => {
     let isMounted = true;
-
-    // Initialize event emitter connection to store on first load
-    IndexerEventEmitter.getInstance().connectToStore();
+    // Cancel and unmount both abort the run, which stops it on the server
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     const loadWrap = async () => {
       try {
         setStatus("loading");
         setError(null);
 
-        // Attempt to resume from persisted state; only start fresh if no state is restored
-        const wasRestored = loadState();
-        if (!wasRestored) {
-          startIndexing();
-        }
-
-        // Call real indexer service - will emit step progress events
-        let result;
+        // An interrupted run resumes on the server from its checkpoint, and
+        // its first progress events catch the store up
+        startIndexing();
 
-        if (address) {
-          try {
-            const indexerResult = await indexAccount(
-              address,
-              network as "mainnet" | "testnet",
-              period as "weekly" | "monthly" | "yearly",
-            );
+        let result: WrapResult;
 
-            // Map indexer result to wrap result format
-            result = {
-              username: mockData.username,
-              totalTransactions:
-                indexerResult.totalTransactions || mockData.transactions,
-              percentile: mockData.percentile,
-              dapps: mockData.dapps.map((dapp) => ({
-                name: dapp.name,
-                interactions: dapp.transactions,
-                color: dapp.color,
-                gradient: dapp.gradient,
-              })),
-              vibes: mockData.vibes,
-              persona: mockData.persona,
-              personaDescription: mockData.personaDescription,
-            };
-          } catch (indexerError) {
-            // Fallback to mock data if real indexer fails
-            console.warn("Real indexer failed, using mock data:", indexerError);
-            result = {
-              username: mockData.username,
-              totalTransactions: mockData.transactions,
-              percentile: mockData.percentile,
-              dapps: mockData.dapps.map((dapp) => ({
-                name: dapp.name,
-                interactions: dapp.transactions,
-                color: dapp.color,
-                gradient: dapp.gradient,
-              })),
-              vibes: mockData.vibes,
-              persona: mockData.persona,
-              personaDescription: mockData.personaDescription,
-            };
-          }
+        if (address && !isDemo) {
+          // Index on the server; its step events stream into the store
+          const response = await streamIndexing(
+            address,
+            network,
+            period,
+            controller.signal,
+          );
+          result = mapIndexerResultToWrapResult(response.data);
         } else {
-          result = {
-            username: mockData.username,
-            totalTransactions: mockData.transactions,
-            percentile: mockData.percentile,
-            dapps: mockData.dapps.map((dapp) => ({
-              name: dapp.name,
-              interactions: dapp.transactions,
-              color: dapp.color,
-              gradient: dapp.gradient,
-            })),
-            vibes: mockData.vibes,
-            persona: mockData.persona,
-            personaDescription: mockData.personaDescription,
-          };
+          // Demo mode has no account to index; use the labelled sample wrap
+          result = createDemoWrapResult();
         }
 
         if (!isMounted) return;
@@ -129,19 +99,15 @@ export default function LoadingScreen() {
           }
         }, 800);
       } catch (error: unknown) {
-        if (!isMounted) return;
+        if (!isMounted || isAbortError(error)) return;
         setStatus("error");
         if (error instanceof Error) {
           setError(error.message);
         } else {
           setError("Failed to load wrap data");
         }
-        // Fallback: still navigate so user isn’t stuck
-        setTimeout(() => {
-          if (isMounted) {
-            handleComplete();
-          }
-        }, 1200);
+        // Stay on the error view: the user can retry, cancel, or explicitly
+        // continue with demo data instead of silently getting mock numbers.
       }
     };
 
@@ -149,10 +115,11 @@ export default function LoadingScreen() {
 
     return () => {
       isMounted = false;
-      IndexerEventEmitter.getInstance().reset();
+      controller.abort();
     };
   }, [
     address,
+    isDemo,
     period,
     network,
     setError,
@@ -160,7 +127,7 @@ export default function LoadingScreen() {
     setStatus,
     handleComplete,
     startIndexing,
-    loadState,
+    streamIndexing,
   ]);
 
   const starConfigs = useMemo(
@@ -180,9 +147,16 @@ export default function LoadingScreen() {
 
       {/* Step Progress Display - Shows granular indexing progress */}
       <div className="relative z-20 pointer-events-auto">
-        <StepProgressDisplay onCancel={handleCancel} onRetry={handleRetry} />
+        <StepProgressDisplay
+          onCancel={handleCancel}
+          onRetry={handleRetry}
+          onUseDemoData={handleUseDemoData}
+          smooth
+        />
       </div>
 
+      <DemoBadge visible={isDemo} />
+
       <div className="absolute inset-0 from-black via-black to-black opacity-60" />
 
       <motion.button
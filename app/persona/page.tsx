@@ -8,6 +8,7 @@ import Link from "next/link";
 import { readStreamableValue } from "ai/rsc";
 import { ProgressIndicator } from "../components/ProgressIndicator";
 import { MuteToggle } from "../components/MuteToggle";
+import { DemoBadge } from "../components/DemoBadge";
 import { useWrapStore } from "../store/wrapStore";
 import { generatePersonaDescription } from "../actions/generate-persona";
 import { useSound } from "../hooks/useSound";
@@ -284,6 +285,7 @@ export default function ArchetypeReveal(): JSX.Element {
       >
         {/* Progress Indicator */}
         <ProgressIndicator currentStep={5} totalSteps={6} showNext={false} />
+        <DemoBadge />
 
         <div className="md:max-w-[1330px] w-96  md:w-full p-4 sm:p-12 flex flex-col items-center justify-center gap-4 sm:gap-8 overflow-hidden bg-[#020202] text-white min-h-screen sm:min-h-0">
           {/* Background Layer (ring wave + ambient) */}
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the attestation keyring
+ *
+ * Run with: npx tsx app/services/__tests__/attestationKeys.test.ts
+ */
+
+import { Keypair } from "@stellar/stellar-sdk";
+import {
+  AttestedStats,
+  encodeAttestedStats,
+} from "@/app/utils/statsAttestation";
+import {
+  AttestationKeyring,
+  DEFAULT_ATTESTATION_TTL_MS,
+  getAttestationKeyring,
+} from "../attestationKeys";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const NEW_KEY = Keypair.fromRawEd25519Seed(Buffer.alloc(32, 1));
+const OLD_KEY = Keypair.fromRawEd25519Seed(Buffer.alloc(32, 2));
+
+const STATS: AttestedStats = {
+  account: Keypair.fromRawEd25519Seed(Buffer.alloc(32, 3)).publicKey(),
+  network: "testnet",
+  timeframe: "2026",
+  rangeStart: 1767225600,
+  rangeEnd: 1798761600,
+  totalVolume: 100,
+  mostActiveAsset: "USDC",
+  contractCalls: 3,
+  expiresAt: 1776000000,
+};
+
+// ─── Keyring ────────────────────────────────────────────────────────────────
+
+section("AttestationKeyring");
+{
+  const keyring = new AttestationKeyring([NEW_KEY.secret(), OLD_KEY.secret()]);
+  assert(keyring.activeKey === NEW_KEY.publicKey(), "the first key is active");
+  assert(
+    keyring.publicKeys.join() ===
+      [NEW_KEY.publicKey(), OLD_KEY.publicKey()].join(),
+    "retired keys are still published, newest first",
+  );
+
+  const attestation = keyring.sign(STATS);
+  const payload = encodeAttestedStats(STATS, NEW_KEY.publicKey());
+  assert(
+    attestation.signer === NEW_KEY.publicKey() &&
+      NEW_KEY.verify(payload, Buffer.from(attestation.signature, "base64")),
+    "signs with the active key",
+  );
+
+  const now = new Date("2026-03-01T00:00:00Z");
+  assert(
+    keyring.expiryFor(now).getTime() ===
+      now.getTime() + DEFAULT_ATTESTATION_TTL_MS,
+    "attestations expire after the TTL",
+  );
+  const shortLived = new AttestationKeyring([NEW_KEY.secret()], 1000);
+  assert(
+    shortLived.expiryFor(now).getTime() === now.getTime() + 1000,
+    "the TTL is configurable",
+  );
+
+  let message = "";
+  try {
+    new AttestationKeyring([]);
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  assert(message !== "", "a keyring needs a key");
+}
+
+// ─── Environment ────────────────────────────────────────────────────────────
+
+section("getAttestationKeyring");
+{
+  process.env.ATTESTATION_SECRET_KEYS = ` not-a-seed, ${OLD_KEY.secret()} ,`;
+  process.env.ATTESTATION_TTL_SECONDS = "60";
+  const warn = console.warn;
+  console.warn = () => {};
+  const keyring = getAttestationKeyring();
+  console.warn = warn;
+
+  assert(
+    keyring?.activeKey === OLD_KEY.publicKey(),
+    "skips unusable and blank entries",
+  );
+  assert(keyring?.ttlMs === 60000, "reads the TTL in seconds");
+  assert(getAttestationKeyring() === keyring, "is a singleton");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for the dapp registry and attribution
+ *
+ * Run with: npx tsx app/services/__tests__/dappRegistry.test.ts
+ */
+
+import { Keypair, StrKey } from "@stellar/stellar-sdk";
+import type { IndexedOperation } from "@/app/utils/indexer";
+import { calculateAchievements } from "../achievementCalculator";
+import { DAPP_REGISTRY, DappMatcher, DappRegistry } from "../dappRegistry";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const ROUTER = "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH";
+const ISSUER = "GBNZILSTVQZ4R7IKQDGHYGY2QXL5QOFJYQMXPKWRRM5PAV7Y4M67AQUA";
+const STRANGER = Keypair.random().publicKey();
+const POOL = "dd7b1ab831c273310ddbec6f97870aa83c2fbd78ce22aded37ecbf4f3380fac7";
+
+const REGISTRY: DappRegistry = {
+  version: 1,
+  updatedAt: "2026-01-01",
+  dapps: [
+    {
+      id: "swap",
+      name: "Swap",
+      networks: { mainnet: { contracts: [ROUTER] } },
+    },
+    {
+      id: "pool",
+      name: "Pool",
+      networks: { mainnet: { liquidityPools: [POOL], accounts: [ISSUER] } },
+    },
+  ],
+};
+
+function op(overrides: Partial<IndexedOperation>): IndexedOperation {
+  return {
+    id: Math.random().toString(16).slice(2),
+    type: "payment",
+    created_at: "2026-01-01T00:00:00Z",
+    transaction_hash: "tx",
+    source_account: ACCOUNT,
+    ...overrides,
+  };
+}
+
+// ─── Registry file ──────────────────────────────────────────────────────────
+
+section("dappRegistry.json");
+{
+  const ids = DAPP_REGISTRY.dapps.map((dapp) => dapp.id);
+  assert(DAPP_REGISTRY.version >= 1, "registry is versioned");
+  assert(new Set(ids).size === ids.length, "dapp IDs are unique");
+
+  DAPP_REGISTRY.dapps.forEach((dapp) => {
+    Object.values(dapp.networks).forEach((identifiers) => {
+      identifiers?.contracts?.forEach((id) =>
+        assert(StrKey.isValidContract(id), `${dapp.id}: valid contract ${id}`),
+      );
+      identifiers?.accounts?.forEach((id) =>
+        assert(
+          StrKey.isValidEd25519PublicKey(id),
+          `${dapp.id}: valid account ${id}`,
+        ),
+      );
+      identifiers?.liquidityPools?.forEach((id) =>
+        assert(/^[0-9a-f]{64}$/.test(id), `${dapp.id}: valid pool ${id}`),
+      );
+    });
+    assert(
+      !dapp.icon || dapp.icon.startsWith("/dapps/"),
+      `${dapp.id}: icon served from public/dapps`,
+    );
+  });
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+section("DappMatcher");
+{
+  const matcher = new DappMatcher(REGISTRY, "mainnet");
+  assert(
+    matcher.match(
+      op({ type: "invoke_host_function", contract_id: ROUTER }),
+      ACCOUNT,
+    )?.id === "swap",
+    "matches invoked contract",
+  );
+  assert(
+    matcher.match(
+      op({ type: "liquidity_pool_deposit", liquidity_pool_id: POOL }),
+      ACCOUNT,
+    )?.id === "pool",
+    "matches liquidity pool deposits",
+  );
+  assert(
+    matcher.match(op({ from: ACCOUNT, to: ISSUER }), ACCOUNT)?.id === "pool",
+    "matches outgoing payment counterparty",
+  );
+  assert(
+    matcher.match(op({ from: ISSUER, to: ACCOUNT }), ACCOUNT)?.id === "pool",
+    "matches incoming payment counterparty",
+  );
+  assert(
+    matcher.match(op({ from: ACCOUNT, to: STRANGER }), ACCOUNT) === undefined,
+    "unknown counterparties are not attributed",
+  );
+  assert(
+    new DappMatcher(REGISTRY, "testnet").match(
+      op({ type: "invoke_host_function", contract_id: ROUTER }),
+      ACCOUNT,
+    ) === undefined,
+    "identifiers are per network",
+  );
+}
+
+// ─── Attribution ────────────────────────────────────────────────────────────
+
+section("calculateAchievements dapps");
+{
+  const result = calculateAchievements(
+    [
+      {
+        hash: "a",
+        created_at: "2026-01-01T00:00:00Z",
+        memo: "swap",
+        fee_bump: false,
+        operations: [
+          op({ type: "invoke_host_function", contract_id: ROUTER }),
+          op({ type: "invoke_host_function", contract_id: ROUTER }),
+        ],
+      },
+      {
+        hash: "b",
+        created_at: "2026-01-02T00:00:00Z",
+        fee_bump: false,
+        operations: [
+          op({ type: "invoke_host_function", contract_id: ROUTER }),
+          op({ from: ACCOUNT, to: ACCOUNT, amount: "1.0000000" }),
+        ],
+      },
+    ],
+    ACCOUNT,
+  );
+
+  assert(result.dapps.length === 1, "memo keywords no longer create dapps");
+  assert(result.dapps[0].name === "Soroswap", "attributed from the registry");
+  assert(
+    result.dapps[0].transactionCount === 2,
+    "counts transactions, not operations",
+  );
+  assert(!!result.dapps[0].icon && !!result.dapps[0].color, "carries branding");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
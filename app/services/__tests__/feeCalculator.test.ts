@@ -0,0 +1,253 @@
+/**
+ * Unit Tests for fee accounting
+ *
+ * Run with: npx tsx app/services/__tests__/feeCalculator.test.ts
+ */
+
+import {
+  Account,
+  Keypair,
+  Networks,
+  Operation,
+  SorobanDataBuilder,
+  TransactionBuilder,
+  xdr,
+} from "@stellar/stellar-sdk";
+import type { IndexedTransaction } from "@/app/utils/indexer";
+import { calculateFees, resourceFeeCharged } from "../feeCalculator";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const SPONSOR = Keypair.random().publicKey();
+const OTHER = Keypair.random().publicKey();
+
+function sorobanEnvelope(resourceFee: number, feeBumpedBy?: string): string {
+  const sorobanData = new SorobanDataBuilder()
+    .setResourceFee(resourceFee)
+    .build();
+  const inner = new TransactionBuilder(new Account(ACCOUNT, "1"), {
+    fee: "100",
+    networkPassphrase: Networks.TESTNET,
+  })
+    .addOperation(
+      Operation.invokeContractFunction({
+        contract: "CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE",
+        function: "mint_wrap",
+        args: [],
+      }),
+    )
+    .setSorobanData(sorobanData)
+    .setTimeout(30)
+    .build();
+
+  if (!feeBumpedBy) {
+    return inner.toEnvelope().toXDR("base64");
+  }
+  return TransactionBuilder.buildFeeBumpTransaction(
+    feeBumpedBy,
+    "200",
+    inner,
+    Networks.TESTNET,
+  )
+    .toEnvelope()
+    .toXDR("base64");
+}
+
+function feeMetaExt(
+  nonRefundable: number,
+  refundable: number,
+): xdr.SorobanTransactionMetaExt {
+  return new xdr.SorobanTransactionMetaExt(
+    1,
+    new xdr.SorobanTransactionMetaExtV1({
+      ext: new xdr.ExtensionPoint(0),
+      totalNonRefundableResourceFeeCharged: xdr.Int64.fromString(
+        String(nonRefundable),
+      ),
+      totalRefundableResourceFeeCharged: xdr.Int64.fromString(
+        String(refundable),
+      ),
+      rentFeeCharged: xdr.Int64.fromString("0"),
+    }),
+  );
+}
+
+/** Meta as emitted before Protocol 23 */
+function sorobanMeta(
+  nonRefundable: number,
+  refundable: number,
+  ext = feeMetaExt(nonRefundable, refundable),
+): string {
+  return new xdr.TransactionMeta(
+    3,
+    new xdr.TransactionMetaV3({
+      ext: new xdr.ExtensionPoint(0),
+      txChangesBefore: [],
+      operations: [],
+      txChangesAfter: [],
+      sorobanMeta: new xdr.SorobanTransactionMeta({
+        ext,
+        events: [],
+        returnValue: xdr.ScVal.scvVoid(),
+        diagnosticEvents: [],
+      }),
+    }),
+  ).toXDR("base64");
+}
+
+/**
+ * Meta as emitted from Protocol 23; classic transactions have no
+ * `sorobanMeta`
+ */
+function sorobanMetaV4(charges?: [number, number]): string {
+  return new xdr.TransactionMeta(
+    4,
+    new xdr.TransactionMetaV4({
+      ext: new xdr.ExtensionPoint(0),
+      txChangesBefore: [],
+      operations: [],
+      txChangesAfter: [],
+      sorobanMeta: charges
+        ? new xdr.SorobanTransactionMetaV2({
+            ext: feeMetaExt(...charges),
+            returnValue: xdr.ScVal.scvVoid(),
+          })
+        : null,
+      events: [],
+      diagnosticEvents: [],
+    }),
+  ).toXDR("base64");
+}
+
+function tx(overrides: Partial<IndexedTransaction>): IndexedTransaction {
+  return {
+    hash: Math.random().toString(16).slice(2),
+    created_at: "2026-01-01T00:00:00Z",
+    source_account: ACCOUNT,
+    fee_account: ACCOUNT,
+    fee_charged: "100",
+    fee_bump: false,
+    operations: [],
+    ...overrides,
+  };
+}
+
+// ─── Resource fees ──────────────────────────────────────────────────────────
+
+section("resourceFeeCharged");
+assert(
+  resourceFeeCharged("90000", sorobanMeta(30_000, 45_000)) === BigInt(75_000),
+  "reads refundable + non-refundable charges from meta",
+);
+assert(
+  resourceFeeCharged(
+    "90000",
+    sorobanMetaV4([30_000, 25_000]),
+    sorobanEnvelope(80_000),
+  ) === BigInt(55_000),
+  "reads the charges from v4 meta rather than the declared fee",
+);
+assert(
+  resourceFeeCharged("90000", "not-xdr", sorobanEnvelope(80_000)) ===
+    BigInt(80_000),
+  "falls back to the envelope when meta does not decode",
+);
+assert(
+  resourceFeeCharged(
+    "90000",
+    sorobanMeta(0, 0, new xdr.SorobanTransactionMetaExt(0)),
+    sorobanEnvelope(80_000),
+  ) === BigInt(80_000),
+  "falls back to the envelope when meta records no charges",
+);
+assert(
+  resourceFeeCharged("90000", sorobanMetaV4(), sorobanEnvelope(80_000)) ===
+    BigInt(80_000),
+  "falls back to the envelope when v4 meta has no Soroban meta",
+);
+assert(
+  resourceFeeCharged("90000", sorobanMetaV4()) === null,
+  "v4 meta without Soroban meta and no envelope → null",
+);
+assert(
+  resourceFeeCharged("50000", undefined, sorobanEnvelope(80_000)) ===
+    BigInt(50_000),
+  "declared resource fee is capped at the fee charged",
+);
+assert(
+  resourceFeeCharged("90000", undefined, sorobanEnvelope(60_000, SPONSOR)) ===
+    BigInt(60_000),
+  "reads the inner transaction of a fee-bump",
+);
+assert(resourceFeeCharged("100") === null, "nothing to read → null");
+
+// ─── Totals ─────────────────────────────────────────────────────────────────
+
+section("calculateFees");
+{
+  const fees = calculateFees(
+    [
+      tx({ fee_charged: "100" }),
+      tx({ fee_charged: "90000", resource_fee_charged: "75000" }),
+      // Someone paid us: not our fee
+      tx({ source_account: OTHER, fee_account: OTHER, fee_charged: "100" }),
+      // We fee-bumped someone else's transaction
+      tx({
+        source_account: OTHER,
+        fee_account: ACCOUNT,
+        fee_charged: "400",
+        fee_bump: true,
+      }),
+      // A sponsor fee-bumped ours
+      tx({ fee_account: SPONSOR, fee_charged: "400", fee_bump: true }),
+    ],
+    ACCOUNT,
+  );
+
+  assert(fees.transactionsPaid === 3, "only counts transactions we paid for");
+  assert(fees.feeBumpsPaid === 1, "counts fee-bumps we sponsored");
+  assert(fees.totalStroops === "90500", "sums fee_charged exactly");
+  assert(fees.resourceStroops === "75000", "resource fee split out");
+  assert(fees.inclusionStroops === "15500", "inclusion is the remainder");
+  assert(fees.total === 0.00905, "total reported in XLM");
+  assert(fees.resource === 0.0075, "resource reported in XLM");
+}
+
+{
+  const fees = calculateFees([], ACCOUNT);
+  assert(fees.totalStroops === "0" && fees.total === 0, "no transactions → 0");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for fiat volume valuation against the static price fixture
+ *
+ * Run with: npx tsx app/services/__tests__/fiatVolume.test.ts
+ */
+
+import priceFixture from "@/app/data/priceFixture.json";
+import { NATIVE_ASSET_KEY, parseAmount } from "@/app/utils/amounts";
+import type { VolumeEntry } from "../achievementCalculator";
+import { valueVolume } from "../fiatVolume";
+import { PriceProvider, StaticPriceProvider } from "../priceProvider";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function assertClose(actual: number, expected: number, message: string): void {
+  assert(
+    Math.abs(actual - expected) < 1e-9,
+    `${message} (expected ${expected}, got ${actual})`,
+  );
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const provider = new StaticPriceProvider(priceFixture);
+const USDC = priceFixture.quoteAsset;
+const AQUA = "AQUA:GBNZILSTVQZ4R7IKQDGHYGY2QXL5QOFJYQMXPKWRRM5PAV7Y4M67AQUA";
+const UNKNOWN = "JUNK:GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+
+function entry(asset: string, amount: string, createdAt: string): VolumeEntry {
+  return { asset, stroops: parseAmount(amount), created_at: createdAt };
+}
+
+async function run(): Promise<void> {
+  section("StaticPriceProvider");
+  {
+    const prices = await provider.getDailyPrices(
+      NATIVE_ASSET_KEY,
+      new Date("2026-01-02T00:00:00Z"),
+      new Date("2026-01-03T23:00:00Z"),
+    );
+    assert(prices.size === 2, "only days inside the range are returned");
+    assert(prices.get("2026-01-02") === 0.12, "price for a listed day");
+  }
+
+  section("valueVolume: same-day prices");
+  {
+    const result = await valueVolume(
+      [
+        entry(NATIVE_ASSET_KEY, "100", "2026-01-02T10:00:00Z"),
+        entry(AQUA, "1000", "2026-01-03T08:00:00Z"),
+      ],
+      provider,
+    );
+    assertClose(result.total, 12 + 2.5, "XLM and AQUA valued on their own day");
+    assert(result.quoteLabel === "USD", "quote label carried through");
+    assert(result.byAsset[0].code === "XLM", "largest value first");
+    assert(result.unpricedAssets.length === 0, "everything priced");
+  }
+
+  section("valueVolume: quote asset and carry-forward");
+  {
+    const reported: string[] = [];
+    const result = await valueVolume(
+      [
+        entry(USDC, "10", "2026-01-02T10:00:00Z"),
+        // No close on the 4th: falls back to the 3rd
+        entry(NATIVE_ASSET_KEY, "50", "2026-01-04T12:00:00Z"),
+      ],
+      provider,
+      (valued, total) => reported.push(`${valued}/${total}`),
+    );
+    assertClose(result.total, 10 + 6.5, "USDC at 1, XLM at previous close");
+    assert(
+      reported.join(",") === "1/2,2/2",
+      "progress reported once per asset",
+    );
+  }
+
+  section("valueVolume: unpriced assets");
+  {
+    const result = await valueVolume(
+      [
+        entry(UNKNOWN, "5", "2026-01-02T10:00:00Z"),
+        // Last close is the 5th, more than a week earlier
+        entry(NATIVE_ASSET_KEY, "100", "2026-01-20T10:00:00Z"),
+      ],
+      provider,
+    );
+    assert(result.total === 0, "nothing priced → zero total");
+    assert(result.unpricedAssets.length === 2, "both assets reported unpriced");
+    assert(result.unpricedAssets.includes(UNKNOWN), "unknown asset listed");
+  }
+
+  section("valueVolume: an asset whose prices can't be fetched");
+  {
+    const failing: PriceProvider = {
+      quoteAsset: provider.quoteAsset,
+      quoteLabel: provider.quoteLabel,
+      async getDailyPrices(asset, from, to) {
+        if (asset === AQUA) throw new Error("AQUA has no issuer");
+        return provider.getDailyPrices(asset, from, to);
+      },
+    };
+    const warn = console.warn;
+    console.warn = () => {};
+    const result = await valueVolume(
+      [
+        entry(AQUA, "10", "2026-01-02T10:00:00Z"),
+        entry(USDC, "7", "2026-01-02T10:00:00Z"),
+      ],
+      failing,
+    );
+    console.warn = warn;
+    assert(
+      result.unpricedAssets.join() === AQUA,
+      "only the failing asset is unpriced",
+    );
+    assertClose(result.total, 7, "the other assets are still valued");
+  }
+
+  section("valueVolume: a very active asset");
+  {
+    const entries = Array.from({ length: 200_000 }, () =>
+      entry(NATIVE_ASSET_KEY, "1", "2026-01-02T10:00:00Z"),
+    );
+    const result = await valueVolume(entries, provider);
+    assert(
+      result.byAsset.length === 1 && result.unpricedAssets.length === 0,
+      "values every entry without overflowing the stack",
+    );
+  }
+
+  section("valueVolume: no entries");
+  {
+    const result = await valueVolume([], provider);
+    assert(result.total === 0 && result.byAsset.length === 0, "empty input");
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -0,0 +1,302 @@
+/**
+ * Unit Tests for the rate-limit-aware Horizon request layer
+ *
+ * Run with: npx tsx app/services/__tests__/horizonClient.test.ts
+ */
+
+import { Horizon } from "@stellar/stellar-sdk";
+import {
+  TokenBucket,
+  applyRateLimitHeaders,
+  backoffDelay,
+  getHorizonErrorStatus,
+  getTokenBucket,
+  isHorizonEndpointFailure,
+  isRetryableHorizonError,
+  parseRetryAfter,
+  requestHorizon,
+} from "../horizonClient";
+import { createAbortError } from "@/app/utils/abort";
+import { HorizonPool } from "@/app/utils/stellarClient";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+/** Shaped like the SDK's NetworkError: the problem document as `response` */
+function horizonError(status: number): Error {
+  return Object.assign(new Error(`Horizon ${status}`), {
+    response: { status, title: "error" },
+  });
+}
+
+function fakeServer(host: string): Horizon.Server {
+  return {
+    serverURL: { host: () => host, toString: () => `https://${host}` },
+    httpClient: { interceptors: { response: { use: () => 0 } } },
+  } as unknown as Horizon.Server;
+}
+
+async function run(): Promise<void> {
+  // ─── TokenBucket ────────────────────────────────────────────────────────────
+
+  section("TokenBucket");
+  {
+    let now = 0;
+    const bucket = new TokenBucket(2, 1, () => now);
+    await bucket.take();
+    await bucket.take();
+    assert(bucket.waitTime() === 1000, "empty bucket waits for a refill");
+
+    now = 500;
+    assert(bucket.waitTime() === 500, "refills continuously");
+
+    now = 5000;
+    assert(bucket.waitTime() === 0, "refilled bucket is free");
+
+    bucket.pauseUntil(8000);
+    assert(bucket.waitTime() === 3000, "pause holds tokens back");
+
+    now = 8000;
+    bucket.limitTo(0);
+    assert(bucket.waitTime() === 1000, "server-reported remaining caps tokens");
+  }
+
+  // ─── Headers ────────────────────────────────────────────────────────────────
+
+  section("parseRetryAfter");
+  {
+    assert(parseRetryAfter("3") === 3000, "seconds form");
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    assert(
+      parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now) === 10_000,
+      "HTTP date form",
+    );
+    assert(parseRetryAfter(undefined) === undefined, "missing header");
+    assert(parseRetryAfter("soon") === undefined, "unparseable header");
+  }
+
+  section("applyRateLimitHeaders");
+  {
+    let now = 0;
+    const bucket = new TokenBucket(10, 1, () => now);
+    applyRateLimitHeaders(
+      bucket,
+      { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "30" },
+      now,
+    );
+    assert(bucket.waitTime() === 30_000, "exhausted window pauses to reset");
+
+    now = 30_000;
+    const retried = new TokenBucket(10, 1, () => now);
+    applyRateLimitHeaders(retried, { "retry-after": "4" }, now);
+    assert(retried.waitTime() === 4000, "Retry-After pauses the host");
+
+    const untouched = new TokenBucket(10, 1, () => now);
+    applyRateLimitHeaders(untouched, { "x-ratelimit-remaining": "500" }, now);
+    assert(untouched.waitTime() === 0, "plenty remaining changes nothing");
+  }
+
+  // ─── Classification ─────────────────────────────────────────────────────────
+
+  section("isRetryableHorizonError");
+  {
+    assert(getHorizonErrorStatus(horizonError(429)) === 429, "reads status");
+    assert(isRetryableHorizonError(horizonError(429)), "429 is retryable");
+    assert(isRetryableHorizonError(horizonError(503)), "5xx is retryable");
+    assert(!isRetryableHorizonError(horizonError(404)), "404 is fatal");
+    assert(!isRetryableHorizonError(horizonError(400)), "400 is fatal");
+    assert(
+      isRetryableHorizonError(
+        Object.assign(new Error("socket"), { code: "ECONNRESET" }),
+      ),
+      "connection reset is retryable",
+    );
+    assert(
+      !isRetryableHorizonError(new TypeError("x is undefined")),
+      "programming errors are fatal",
+    );
+    assert(!isRetryableHorizonError(createAbortError()), "abort is fatal");
+
+    assert(isHorizonEndpointFailure(horizonError(502)), "5xx fails over");
+    assert(
+      isHorizonEndpointFailure(
+        Object.assign(new Error("slow"), { code: "ETIMEDOUT" }),
+      ),
+      "timeouts fail over",
+    );
+    assert(
+      !isHorizonEndpointFailure(horizonError(429)),
+      "rate limits stay on the endpoint",
+    );
+  }
+
+  section("backoffDelay");
+  {
+    assert(backoffDelay(0, () => 0.999) < 500, "first retry under the base");
+    assert(backoffDelay(3, () => 0.5) === 2000, "doubles per attempt");
+    assert(backoffDelay(20, () => 0.999) < 30_000, "capped");
+    assert(backoffDelay(2, () => 0) === 0, "jitter can reach zero");
+  }
+
+  // ─── requestHorizon ─────────────────────────────────────────────────────────
+
+  section("requestHorizon");
+  {
+    let calls = 0;
+    const result = await requestHorizon(fakeServer("retry.test"), async () => {
+      calls++;
+      if (calls === 1) throw horizonError(503);
+      return "ok";
+    });
+    assert(result === "ok" && calls === 2, "retries a retryable failure");
+
+    const handlers: ((response: unknown) => unknown)[] = [];
+    const observed = {
+      ...fakeServer("observed.test"),
+      httpClient: {
+        interceptors: {
+          response: {
+            use: (fulfilled: (response: unknown) => unknown) =>
+              handlers.push(fulfilled),
+          },
+        },
+      },
+    } as unknown as Horizon.Server;
+    await requestHorizon(observed, async () => "ok");
+    await requestHorizon(observed, async () => "ok");
+    assert(handlers.length === 1, "intercepts each server's client once");
+    handlers[0]({
+      config: { url: "https://observed.test/accounts" },
+      headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "30" },
+    });
+    assert(
+      getTokenBucket("observed.test").waitTime() > 0,
+      "the server's rate-limit headers pause its host",
+    );
+
+    let fatalCalls = 0;
+    let fatal: unknown;
+    try {
+      await requestHorizon(fakeServer("fatal.test"), async () => {
+        fatalCalls++;
+        throw horizonError(404);
+      });
+    } catch (error) {
+      fatal = error;
+    }
+    assert(
+      fatalCalls === 1 && getHorizonErrorStatus(fatal) === 404,
+      "fatal failures are thrown without retrying",
+    );
+
+    let limitedCalls = 0;
+    try {
+      await requestHorizon(
+        fakeServer("limited.test"),
+        async () => {
+          limitedCalls++;
+          throw horizonError(429);
+        },
+        { maxRetries: 1 },
+      );
+    } catch {
+      // expected
+    }
+    assert(limitedCalls === 2, "gives up after maxRetries");
+
+    let timedOut: unknown;
+    try {
+      await requestHorizon(
+        fakeServer("slow.test"),
+        () => new Promise(() => {}),
+        { maxRetries: 0, timeoutMs: 10 },
+      );
+    } catch (error) {
+      timedOut = error;
+    }
+    assert(
+      (timedOut as { code?: string })?.code === "ETIMEDOUT",
+      "attempts time out",
+    );
+  }
+
+  section("requestHorizon with a pool");
+  {
+    const primary = fakeServer("primary.test");
+    const backup = fakeServer("backup.test");
+    const pool = new HorizonPool([primary, backup]);
+    const cursors: string[] = [];
+    const hosts: Horizon.Server[] = [];
+
+    // A crawl's second page fails on the primary and moves to the backup
+    const page = (cursor: string) =>
+      requestHorizon(pool, async (server) => {
+        hosts.push(server);
+        cursors.push(cursor);
+        if (server === primary && cursor === "200") throw horizonError(503);
+        return cursor;
+      });
+    await page("100");
+    await page("200");
+    await page("300");
+
+    assert(
+      hosts[0] === primary && hosts[1] === primary && hosts[2] === backup,
+      "retries on the next endpoint after a 5xx",
+    );
+    assert(hosts[3] === backup, "stays off the failed endpoint");
+    assert(
+      cursors.join(",") === "100,200,200,300",
+      "the failed page is retried with the same cursor",
+    );
+
+    const limited = new HorizonPool([
+      fakeServer("limited-primary.test"),
+      fakeServer("limited-backup.test"),
+    ]);
+    await requestHorizon(
+      limited,
+      async (server) => {
+        if (server === limited.endpoints[0].server) throw horizonError(429);
+        return "ok";
+      },
+      { maxRetries: 1 },
+    ).catch(() => undefined);
+    assert(
+      limited.current() === limited.endpoints[0].server,
+      "a rate limit doesn't mark the endpoint unhealthy",
+    );
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
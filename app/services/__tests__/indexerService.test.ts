@@ -0,0 +1,264 @@
+/**
+ * Unit Tests for incremental refreshes of an indexed wrap
+ *
+ * Run with: npx tsx app/services/__tests__/indexerService.test.ts
+ */
+
+import { Horizon } from "@stellar/stellar-sdk";
+import { HorizonPool } from "@/app/utils/stellarClient";
+import type {
+  IndexedTransaction,
+  IndexerSnapshot,
+  WrapPeriod,
+} from "@/app/utils/indexer";
+import {
+  MAX_SNAPSHOT_TRANSACTIONS,
+  indexAccountWithSnapshot,
+} from "../indexerService";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HorizonRecord = Record<string, unknown>;
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * DAY_MS).toISOString();
+
+function transactionRecord(
+  token: string,
+  hash: string,
+  createdAt: string,
+): HorizonRecord {
+  return {
+    id: hash,
+    hash,
+    paging_token: token,
+    created_at: createdAt,
+    source_account: ACCOUNT,
+    fee_charged: "100",
+  };
+}
+
+/** A transaction as an earlier snapshot stored it */
+function snapshotTransaction(
+  hash: string,
+  createdAt: string,
+): IndexedTransaction {
+  return {
+    hash,
+    created_at: createdAt,
+    source_account: ACCOUNT,
+    fee_account: ACCOUNT,
+    fee_charged: "100",
+    fee_bump: false,
+    operations: [],
+  };
+}
+
+/**
+ * Horizon serving `transactions` (oldest first) in pages, with no
+ * operations or effects. Records the cursor of every page requested.
+ */
+function fakeHorizon(transactions: HorizonRecord[], cursors: string[]) {
+  const collection = (records: HorizonRecord[], track: boolean) => () => {
+    let order = "asc";
+    let limit = 10;
+    let cursor = "";
+    const builder = {
+      forAccount: () => builder,
+      order: (value: string) => {
+        order = value;
+        return builder;
+      },
+      limit: (value: number) => {
+        limit = value;
+        return builder;
+      },
+      cursor: (value: string) => {
+        cursor = value;
+        return builder;
+      },
+      call: async () => {
+        if (track) cursors.push(cursor);
+        const sorted = order === "asc" ? records : [...records].reverse();
+        const start = cursor
+          ? sorted.findIndex((record) =>
+              order === "asc"
+                ? String(record.paging_token) > cursor
+                : String(record.paging_token) < cursor,
+            )
+          : 0;
+        return {
+          records: start === -1 ? [] : sorted.slice(start, start + limit),
+        };
+      },
+    };
+    return builder;
+  };
+
+  return new HorizonPool([
+    {
+      serverURL: { host: () => "horizon.test", toString: () => "test" },
+      httpClient: { interceptors: { response: { use: () => 0 } } },
+      transactions: collection(transactions, true),
+      operations: collection([], false),
+      effects: collection([], false),
+    } as unknown as Horizon.Server,
+  ]);
+}
+
+function refresh(
+  horizon: HorizonPool,
+  period: WrapPeriod,
+  previous: IndexerSnapshot,
+) {
+  return indexAccountWithSnapshot(ACCOUNT, "testnet", period, {
+    horizon,
+    previous,
+    priceProvider: null,
+    checkpoints: null,
+  });
+}
+
+async function run(): Promise<void> {
+  // ─── Rolling windows ────────────────────────────────────────────────────────
+
+  section("refreshing a rolling window");
+  {
+    const cursors: string[] = [];
+    const previous: IndexerSnapshot = {
+      cursors: { transactions: "099", operations: "099", effects: "099-0" },
+      transactions: [
+        snapshotTransaction("kept", daysAgo(2)),
+        snapshotTransaction("expired", daysAgo(10)),
+      ],
+    };
+    const horizon = fakeHorizon(
+      [
+        // Already in the snapshot, but newer than its cursor
+        transactionRecord("100", "kept", daysAgo(2)),
+        transactionRecord("101", "newer", daysAgo(1)),
+        transactionRecord("102", "newest", daysAgo(0.1)),
+      ],
+      cursors,
+    );
+
+    const { result, snapshot } = await refresh(horizon, "weekly", previous);
+    const hashes = snapshot?.transactions.map((tx) => tx.hash) ?? [];
+
+    assert(cursors[0] === "099", "pages from the snapshot's cursor");
+    assert(
+      snapshot?.cursors.transactions === "102",
+      "the cursor advances to the newest record",
+    );
+    assert(
+      snapshot?.cursors.operations === "099",
+      "an empty collection keeps its cursor",
+    );
+    assert(
+      hashes.filter((hash) => hash === "kept").length === 1,
+      "records already in the snapshot aren't added twice",
+    );
+    assert(
+      hashes.join(",") === "newest,newer,kept",
+      "new records are merged in newest first",
+    );
+    assert(
+      !hashes.includes("expired"),
+      "transactions that left the window drop off",
+    );
+    assert(result.totalTransactions === 3, "the result counts the window");
+  }
+
+  // ─── Closed ranges ──────────────────────────────────────────────────────────
+
+  section("refreshing a closed range");
+  {
+    const cursors: string[] = [];
+    const end = Date.UTC(2025, 1, 1);
+    // A full page whose last record is past the range end, then more
+    const records = Array.from({ length: 250 }, (_, index) =>
+      transactionRecord(
+        String(1000 + index),
+        `tx${index}`,
+        new Date(end - (199 - index) * 60 * 1000).toISOString(),
+      ),
+    );
+    const previous: IndexerSnapshot = {
+      cursors: { transactions: "0999" },
+      transactions: [],
+    };
+
+    const { snapshot } = await refresh(
+      fakeHorizon(records, cursors),
+      { type: "month", year: 2025, month: 1 },
+      previous,
+    );
+
+    assert(cursors.length === 1, "stops paging past the range end");
+    assert(
+      snapshot?.transactions.length === 199,
+      "keeps only records inside the range",
+    );
+    assert(
+      snapshot?.cursors.transactions === "1199",
+      "the cursor is the last record paged",
+    );
+  }
+
+  // ─── Snapshot size ──────────────────────────────────────────────────────────
+
+  section("snapshot size");
+  {
+    const busy = Array.from(
+      { length: MAX_SNAPSHOT_TRANSACTIONS + 1 },
+      (_, index) => snapshotTransaction(`busy${index}`, daysAgo(1)),
+    );
+    const { result, snapshot } = await refresh(fakeHorizon([], []), "weekly", {
+      cursors: { transactions: "1", operations: "1", effects: "1-0" },
+      transactions: busy,
+    });
+    assert(
+      result.totalTransactions === MAX_SNAPSHOT_TRANSACTIONS + 1,
+      "a busy wrap is still indexed",
+    );
+    assert(snapshot === undefined, "but isn't cached with a snapshot");
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
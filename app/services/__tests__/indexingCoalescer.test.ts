@@ -0,0 +1,224 @@
+/**
+ * Unit Tests for in-flight indexing coalescing
+ *
+ * Run with: npx tsx app/services/__tests__/indexingCoalescer.test.ts
+ */
+
+import type { IndexerResult } from "@/app/utils/indexer";
+import type { IndexerEvent } from "@/app/utils/indexerEventEmitter";
+import { isAbortError } from "@/app/utils/abort";
+import { coalesceIndexing, getInFlightCount } from "../indexingCoalescer";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+const RESULT = { accountId: "GABC" } as IndexerResult;
+
+async function run(): Promise<void> {
+  // ─── Sharing ────────────────────────────────────────────────────────────────
+
+  section("concurrent callers share one run");
+  {
+    let starts = 0;
+    const gate = deferred<void>();
+    const start = async () => {
+      starts++;
+      await gate.promise;
+      return RESULT;
+    };
+
+    const first = coalesceIndexing("shared", start);
+    const second = coalesceIndexing("shared", start);
+    assert(getInFlightCount() === 1, "one run in flight");
+
+    gate.resolve();
+    const [a, b] = await Promise.all([first, second]);
+    assert(starts === 1, "starts indexing once");
+    assert(a === RESULT && b === RESULT, "both get the result");
+    assert(getInFlightCount() === 0, "the run is forgotten once done");
+
+    await coalesceIndexing("shared", start);
+    assert(starts === 2, "a later request starts a new run");
+  }
+
+  section("failures are shared");
+  {
+    let starts = 0;
+    const start = async () => {
+      starts++;
+      throw new Error("Horizon down");
+    };
+    const errors = await Promise.all([
+      rejection(coalesceIndexing("failing", start)),
+      rejection(coalesceIndexing("failing", start)),
+    ]);
+    assert(
+      starts === 1 &&
+        errors.every((error) => (error as Error)?.message === "Horizon down"),
+      "every caller sees the one failure",
+    );
+  }
+
+  // ─── Progress ───────────────────────────────────────────────────────────────
+
+  section("progress events are shared");
+  {
+    const gate = deferred<void>();
+    const early: IndexerEvent[] = [];
+    const late: IndexerEvent[] = [];
+
+    const first = coalesceIndexing(
+      "progress",
+      async (emitter) => {
+        emitter.emitStepChange("initializing");
+        emitter.emitStepProgress("initializing", 40);
+        emitter.emitStepProgress("initializing", 80);
+        await gate.promise;
+        emitter.emitStepComplete("initializing");
+        return RESULT;
+      },
+      { onEvent: (event) => early.push(event) },
+    );
+    // Let the run start before the second caller joins
+    await Promise.resolve();
+    await Promise.resolve();
+
+    const second = coalesceIndexing("progress", async () => RESULT, {
+      onEvent: (event) => late.push(event),
+    });
+    gate.resolve();
+    await Promise.all([first, second]);
+
+    assert(early.length === 4, "the first caller sees every event");
+    assert(
+      late.map((event) => event.type).join(",") ===
+        "step-change,step-progress,step-complete",
+      "a late joiner gets the history, then live events",
+    );
+    const replayed = late[1];
+    assert(
+      replayed.type === "step-progress" && replayed.progress === 80,
+      "only the latest progress per step is replayed",
+    );
+  }
+
+  section("a throwing listener is dropped");
+  {
+    const seen: IndexerEvent[] = [];
+    let throws = 0;
+    const warn = console.warn;
+    console.warn = () => {};
+
+    const broken = coalesceIndexing(
+      "listeners",
+      async (emitter) => {
+        await Promise.resolve();
+        emitter.emitStepChange("initializing");
+        emitter.emitStepComplete("initializing");
+        return RESULT;
+      },
+      {
+        onEvent: () => {
+          throws++;
+          throw new Error("Invalid state: Controller is already closed");
+        },
+      },
+    );
+    const healthy = coalesceIndexing("listeners", async () => RESULT, {
+      onEvent: (event) => seen.push(event),
+    });
+    const results = await Promise.all([broken, healthy]);
+    console.warn = warn;
+
+    assert(
+      results.every((result) => result === RESULT),
+      "the shared run still succeeds",
+    );
+    assert(throws === 1, "the listener is unsubscribed after throwing");
+    assert(seen.length === 2, "other listeners keep receiving events");
+  }
+
+  // ─── Cancellation ───────────────────────────────────────────────────────────
+
+  section("cancellation");
+  {
+    let runSignal: AbortSignal | undefined;
+    const gate = deferred<void>();
+    const start = async (_: unknown, signal: AbortSignal) => {
+      runSignal = signal;
+      await gate.promise;
+      return RESULT;
+    };
+
+    const leaving = new AbortController();
+    const staying = new AbortController();
+    const first = coalesceIndexing("cancel", start, {
+      signal: leaving.signal,
+    });
+    const second = coalesceIndexing("cancel", start, {
+      signal: staying.signal,
+    });
+    await Promise.resolve();
+
+    leaving.abort();
+    assert(isAbortError(await rejection(first)), "the leaver stops waiting");
+    assert(runSignal?.aborted === false, "the run continues for the other");
+
+    staying.abort();
+    await rejection(second);
+    assert(runSignal?.aborted === true, "the run stops once nobody waits");
+    assert(getInFlightCount() === 0, "a cancelled run is forgotten");
+    gate.resolve();
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -0,0 +1,275 @@
+/**
+ * Unit Tests for Soroban invocation decoding
+ *
+ * Run with: npx tsx app/services/__tests__/sorobanDecoder.test.ts
+ */
+
+import {
+  Address,
+  Asset,
+  Networks,
+  nativeToScVal,
+  xdr,
+} from "@stellar/stellar-sdk";
+import type { IndexedTransaction } from "@/app/utils/indexer";
+import { calculateAchievements } from "../achievementCalculator";
+import {
+  HostFunctionParameter,
+  decodeContractEvents,
+  decodeInvocation,
+} from "../sorobanDecoder";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const ROUTER = "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH";
+const NATIVE_ASSET_CONTRACT = Asset.native().contractId(Networks.PUBLIC);
+
+function param(type: string, value: xdr.ScVal): HostFunctionParameter {
+  return { type, value: value.toXDR("base64") };
+}
+
+const SWAP_PARAMETERS: HostFunctionParameter[] = [
+  param("Address", Address.fromString(ROUTER).toScVal()),
+  param("Sym", xdr.ScVal.scvSymbol("swap")),
+  param("Address", Address.fromString(ACCOUNT).toScVal()),
+  param("I128", nativeToScVal(BigInt(5_000_000), { type: "i128" })),
+  param("Bool", xdr.ScVal.scvBool(true)),
+];
+
+function contractEvent(
+  type: xdr.ContractEventType,
+  topics: xdr.ScVal[],
+  data: xdr.ScVal,
+  contract = ROUTER,
+): xdr.ContractEvent {
+  return new xdr.ContractEvent({
+    ext: new xdr.ExtensionPoint(0),
+    contractId: Address.fromString(contract).toScAddress().contractId(),
+    type,
+    body: new xdr.ContractEventBody(
+      0,
+      new xdr.ContractEventV0({ topics, data }),
+    ),
+  });
+}
+
+/** Meta as emitted before Protocol 23: events in `sorobanMeta` */
+function metaV3WithEvents(events: xdr.ContractEvent[]): string {
+  return new xdr.TransactionMeta(
+    3,
+    new xdr.TransactionMetaV3({
+      ext: new xdr.ExtensionPoint(0),
+      txChangesBefore: [],
+      operations: [],
+      txChangesAfter: [],
+      sorobanMeta: new xdr.SorobanTransactionMeta({
+        ext: new xdr.SorobanTransactionMetaExt(0),
+        events,
+        returnValue: xdr.ScVal.scvVoid(),
+        diagnosticEvents: [],
+      }),
+    }),
+  ).toXDR("base64");
+}
+
+/**
+ * Meta as emitted from Protocol 23: events per operation, and the fee
+ * events of the whole transaction alongside
+ */
+function metaV4WithEvents(
+  operationEvents: xdr.ContractEvent[][],
+  transactionEvents: xdr.ContractEvent[] = [],
+): string {
+  return new xdr.TransactionMeta(
+    4,
+    new xdr.TransactionMetaV4({
+      ext: new xdr.ExtensionPoint(0),
+      txChangesBefore: [],
+      operations: operationEvents.map(
+        (events) =>
+          new xdr.OperationMetaV2({
+            ext: new xdr.ExtensionPoint(0),
+            changes: [],
+            events,
+          }),
+      ),
+      txChangesAfter: [],
+      sorobanMeta: new xdr.SorobanTransactionMetaV2({
+        ext: new xdr.SorobanTransactionMetaExt(0),
+        returnValue: xdr.ScVal.scvVoid(),
+      }),
+      events: transactionEvents.map(
+        (event) =>
+          new xdr.TransactionEvent({
+            stage: xdr.TransactionEventStage.transactionEventStageAfterTx(),
+            event,
+          }),
+      ),
+      diagnosticEvents: [],
+    }),
+  ).toXDR("base64");
+}
+
+const SWAP_EVENT = contractEvent(
+  xdr.ContractEventType.contract(),
+  [xdr.ScVal.scvSymbol("swap"), Address.fromString(ACCOUNT).toScVal()],
+  nativeToScVal(BigInt(42), { type: "i128" }),
+);
+const DIAGNOSTIC_EVENT = contractEvent(
+  xdr.ContractEventType.diagnostic(),
+  [xdr.ScVal.scvSymbol("fn_call")],
+  xdr.ScVal.scvVoid(),
+);
+
+// ─── Invocations ────────────────────────────────────────────────────────────
+
+section("decodeInvocation");
+{
+  const invocation = decodeInvocation(SWAP_PARAMETERS);
+  assert(invocation?.contractId === ROUTER, "contract ID decoded");
+  assert(invocation?.functionName === "swap", "function name decoded");
+  assert(invocation?.args.length === 3, "remaining parameters are arguments");
+  assert(invocation?.args[0] === ACCOUNT, "address argument is a G… string");
+  assert(invocation?.args[1] === BigInt(5_000_000), "i128 argument is bigint");
+  assert(invocation?.args[2] === true, "bool argument is native");
+
+  assert(decodeInvocation(undefined) === null, "missing parameters → null");
+  assert(
+    decodeInvocation([param("Bytes", xdr.ScVal.scvBytes(Buffer.alloc(32)))]) ===
+      null,
+    "wasm upload is not a contract call",
+  );
+  assert(
+    decodeInvocation([
+      { type: "Address", value: "garbage" },
+      SWAP_PARAMETERS[1],
+    ]) === null,
+    "undecodable XDR → null",
+  );
+}
+
+// ─── Events ─────────────────────────────────────────────────────────────────
+
+section("decodeContractEvents");
+{
+  const events = decodeContractEvents(
+    metaV3WithEvents([SWAP_EVENT, DIAGNOSTIC_EVENT]),
+  );
+
+  assert(events.length === 1, "diagnostic events are skipped");
+  assert(events[0].contractId === ROUTER, "event contract ID encoded as C…");
+  assert(events[0].topics[0] === "swap", "topics decoded to native values");
+  assert(events[0].topics[1] === ACCOUNT, "address topics decoded");
+  assert(events[0].data === BigInt(42), "data decoded to native value");
+
+  assert(decodeContractEvents(undefined).length === 0, "no meta → no events");
+  assert(decodeContractEvents("AAAA").length === 0, "bad meta → no events");
+}
+
+section("decodeContractEvents v4 meta");
+{
+  const fee = contractEvent(
+    xdr.ContractEventType.contract(),
+    [xdr.ScVal.scvSymbol("fee"), Address.fromString(ACCOUNT).toScVal()],
+    nativeToScVal(BigInt(100), { type: "i128" }),
+    NATIVE_ASSET_CONTRACT,
+  );
+  const transfer = contractEvent(
+    xdr.ContractEventType.contract(),
+    [xdr.ScVal.scvSymbol("transfer")],
+    xdr.ScVal.scvVoid(),
+  );
+  const events = decodeContractEvents(
+    metaV4WithEvents([[SWAP_EVENT, DIAGNOSTIC_EVENT], [transfer]], [fee]),
+  );
+
+  assert(events.length === 2, "contract events of every operation decoded");
+  assert(
+    events[0].contractId === ROUTER &&
+      events[0].topics[0] === "swap" &&
+      events[0].topics[1] === ACCOUNT &&
+      events[0].data === BigInt(42),
+    "v4 event decoded like a v3 one",
+  );
+  assert(events[1].topics[0] === "transfer", "operations kept in order");
+  assert(
+    events.every((event) => event.contractId !== NATIVE_ASSET_CONTRACT),
+    "transaction-level fee events are skipped",
+  );
+  assert(
+    decodeContractEvents(metaV4WithEvents([])).length === 0,
+    "v4 meta without operations → no events",
+  );
+}
+
+// ─── Per-contract stats ─────────────────────────────────────────────────────
+
+section("calculateAchievements contracts");
+{
+  const invocation = decodeInvocation(SWAP_PARAMETERS)!;
+  const tx = (hash: string, functionName: string): IndexedTransaction => ({
+    hash,
+    created_at: "2026-01-01T00:00:00Z",
+    fee_bump: false,
+    operations: [
+      {
+        id: hash,
+        type: "invoke_host_function",
+        created_at: "2026-01-01T00:00:00Z",
+        transaction_hash: hash,
+        contract_id: invocation.contractId,
+        function_name: functionName,
+        args: invocation.args,
+        events: [{ contractId: ROUTER, topics: ["swap"], data: null }],
+      },
+    ],
+  });
+
+  const result = calculateAchievements(
+    [tx("a", "swap"), tx("b", "swap"), tx("c", "add_liquidity")],
+    ACCOUNT,
+  );
+  const [router] = result.contracts;
+  assert(result.contracts.length === 1, "one entry per contract");
+  assert(router.calls === 3, "calls counted per contract");
+  assert(router.dappName === "Soroswap", "contract named from the registry");
+  assert(
+    router.functions[0].name === "swap" && router.functions[0].calls === 2,
+    "functions sorted by call count",
+  );
+  assert(router.events === 3, "events counted");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,263 @@
+/**
+ * Unit Tests for the server-side wrap cache
+ *
+ * Run with: npx tsx app/services/__tests__/wrapCache.test.ts
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { IndexerResult } from "@/app/utils/indexer";
+import {
+  CacheBackend,
+  CacheEntry,
+  WrapCache,
+  createFileCacheBackend,
+  createMemoryCacheBackend,
+  createRedisCacheBackend,
+  getCacheTtl,
+} from "../wrapCache";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+function entry(accountId: string): CacheEntry {
+  return {
+    result: { accountId, totalTransactions: 1 } as IndexerResult,
+    timestamp: 0,
+    freshUntil: 0,
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const POLICY = { open: 1000, closed: 99_000 };
+
+async function run(): Promise<void> {
+  // ─── Memory backend ─────────────────────────────────────────────────────────
+
+  section("memory backend");
+  {
+    let now = 0;
+    const backend = createMemoryCacheBackend(2, () => now);
+    await backend.set("a", entry("A"), 1000);
+    await backend.set("b", entry("B"), 1000);
+    await backend.get("a");
+    await backend.set("c", entry("C"), 1000);
+
+    assert(
+      (await backend.get("b")) === undefined,
+      "evicts the least recently read key",
+    );
+    assert((await backend.get("a"))?.result.accountId === "A", "keeps read key");
+    assert((await backend.get("c")) !== undefined, "keeps newest key");
+
+    now = 1000;
+    assert((await backend.get("a")) === undefined, "expires after its TTL");
+  }
+
+  // ─── File backend ───────────────────────────────────────────────────────────
+
+  section("file backend");
+  {
+    const directory = mkdtempSync(path.join(tmpdir(), "wrap-cache-"));
+    try {
+      let now = 0;
+      const backend = createFileCacheBackend(directory, () => now);
+      await backend.set("GABC:mainnet:monthly", entry("GABC"), 1000);
+
+      const reopened = createFileCacheBackend(directory, () => now);
+      assert(
+        (await reopened.get("GABC:mainnet:monthly"))?.result.accountId ===
+          "GABC",
+        "survives a new backend instance",
+      );
+
+      now = 1000;
+      assert(
+        (await reopened.get("GABC:mainnet:monthly")) === undefined,
+        "expires after its TTL",
+      );
+      assert((await backend.get("missing")) === undefined, "misses cleanly");
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  // ─── Redis backend ──────────────────────────────────────────────────────────
+
+  section("redis backend");
+  {
+    const store = new Map<string, string>();
+    const commands: string[][] = [];
+    const backend = createRedisCacheBackend(async (args) => {
+      commands.push(args);
+      if (args[0] === "SET") store.set(args[1], args[2]);
+      if (args[0] === "DEL") store.delete(args[1]);
+      return args[0] === "GET" ? (store.get(args[1]) ?? null) : "OK";
+    });
+
+    await backend.set("k", entry("K"), 1500);
+    assert(
+      commands[0].slice(3).join(" ") === "PX 1500",
+      "sets the TTL in milliseconds",
+    );
+    assert((await backend.get("k"))?.result.accountId === "K", "round-trips");
+    await backend.delete("k");
+    assert((await backend.get("k")) === undefined, "deletes");
+  }
+
+  // ─── TTLs ───────────────────────────────────────────────────────────────────
+
+  section("getCacheTtl");
+  {
+    const now = Date.parse("2026-06-15T12:00:00Z");
+    assert(getCacheTtl("monthly", POLICY, now) === 1000, "rolling is open");
+    assert(
+      getCacheTtl({ type: "year", year: 2025 }, POLICY, now) === 99_000,
+      "past calendar range is closed",
+    );
+    assert(
+      getCacheTtl({ type: "month", year: 2026, month: 6 }, POLICY, now) ===
+        1000,
+      "current month is open",
+    );
+    assert(
+      getCacheTtl(
+        { type: "month", year: 2026, month: 5 },
+        POLICY,
+        Date.parse("2026-06-01T00:01:00Z"),
+      ) === 1000,
+      "a range that just ended stays open while it settles",
+    );
+    assert(
+      getCacheTtl(
+        "yearly",
+        { ...POLICY, byPeriod: { yearly: HOUR_MS } },
+        now,
+      ) === HOUR_MS,
+      "per-period overrides win",
+    );
+  }
+
+  // ─── WrapCache ──────────────────────────────────────────────────────────────
+
+  section("WrapCache metrics");
+  {
+    const cache = new WrapCache(createMemoryCacheBackend(), POLICY);
+    await cache.get("k");
+    await cache.set("k", entry("K").result, "monthly");
+    const hit = await cache.get("k");
+
+    assert(hit?.result.accountId === "K", "stores the result");
+    const metrics = cache.getMetrics();
+    assert(
+      metrics.hits === 1 && metrics.misses === 1 && metrics.writes === 1,
+      "counts hits, misses and writes",
+    );
+    assert(metrics.hitRate === 0.5, "reports the hit rate");
+  }
+
+  section("WrapCache keeps expired results to refresh from");
+  {
+    const cache = new WrapCache(createMemoryCacheBackend(), {
+      ...POLICY,
+      open: -1,
+    });
+    const snapshot = {
+      cursors: { transactions: "123" },
+      transactions: [],
+    };
+    await cache.set("k", entry("K").result, "monthly", snapshot, {
+      start: new Date(1000),
+      end: new Date(2000),
+    });
+
+    assert((await cache.get("k")) === undefined, "an expired result misses");
+    const stale = await cache.getStale("k");
+    assert(
+      stale?.snapshot?.cursors.transactions === "123",
+      "its snapshot is still there",
+    );
+    assert(
+      stale?.range?.start === 1000 && stale.range.end === 2000,
+      "so is the range it covered, in epoch ms",
+    );
+  }
+
+  section("WrapCache keys include the dapp registry version");
+  {
+    const backend = createMemoryCacheBackend();
+    await new WrapCache(backend, POLICY, 1).set(
+      "k",
+      entry("K").result,
+      "monthly",
+    );
+
+    assert(
+      (await new WrapCache(backend, POLICY, 1).get("k")) !== undefined,
+      "the same registry version hits",
+    );
+    assert(
+      (await new WrapCache(backend, POLICY, 2).getStale("k")) === undefined,
+      "a newer registry misses results attributed with the old one",
+    );
+  }
+
+  section("WrapCache with a failing backend");
+  {
+    const broken: CacheBackend = {
+      name: "broken",
+      get: async () => {
+        throw new Error("down");
+      },
+      set: async () => {
+        throw new Error("down");
+      },
+      delete: async () => {
+        throw new Error("down");
+      },
+    };
+    const cache = new WrapCache(broken, POLICY);
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      assert((await cache.get("k")) === undefined, "a read failure is a miss");
+      await cache.set("k", entry("K").result, "monthly");
+    } finally {
+      console.warn = warn;
+    }
+    assert(cache.getMetrics().errors === 2, "counts backend errors");
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -0,0 +1,320 @@
+/**
+ * Unit Tests for the read-only wrap contract client
+ *
+ * Run with: npx tsx app/services/__tests__/wrapContract.test.ts
+ */
+
+import { Horizon } from "@stellar/stellar-sdk";
+import {
+  Address,
+  Keypair,
+  Networks,
+  StrKey,
+  Transaction,
+  nativeToScVal,
+  rpc,
+  xdr,
+} from "@stellar/stellar-sdk";
+import { HorizonPool } from "@/app/utils/stellarClient";
+import { encodeAttestedStats } from "@/app/utils/statsAttestation";
+import type { Network } from "@/src/config";
+import {
+  WrapContractClient,
+  decodeMintedWrap,
+  findMintTransactions,
+} from "../wrapContract";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const OWNER = Keypair.random().publicKey();
+const CONTRACT = StrKey.encodeContract(Buffer.alloc(32, 7));
+const OTHER_CONTRACT = StrKey.encodeContract(Buffer.alloc(32, 8));
+
+/** A `Wrap` struct as the contract returns it */
+function wrapScVal(timeframe: string, mintedAt?: number): xdr.ScVal {
+  const fields: [string, xdr.ScVal][] = [
+    ["contract_calls", nativeToScVal(12, { type: "u32" })],
+    ["most_active_asset", nativeToScVal("XLM", { type: "string" })],
+    ["owner", new Address(OWNER).toScVal()],
+    ["timeframe", nativeToScVal(timeframe, { type: "string" })],
+    ["total_volume", nativeToScVal(BigInt(45000), { type: "u64" })],
+  ];
+  if (mintedAt !== undefined) {
+    fields.push([
+      "minted_at",
+      nativeToScVal(BigInt(mintedAt), { type: "u64" }),
+    ]);
+  }
+  return xdr.ScVal.scvMap(
+    fields.map(
+      ([key, val]) =>
+        new xdr.ScMapEntry({ key: xdr.ScVal.scvSymbol(key), val }),
+    ),
+  );
+}
+
+/** Soroban RPC that answers every simulation with `retval` */
+function fakeRpc(retval: xdr.ScVal | undefined, calls: string[] = []) {
+  return {
+    simulateTransaction: async (transaction: Transaction) => {
+      const invoke = transaction.operations[0] as unknown as {
+        func: xdr.HostFunction;
+      };
+      calls.push(invoke.func.invokeContract().functionName().toString());
+      return {
+        id: "1",
+        latestLedger: 100,
+        events: [],
+        _parsed: true,
+        minResourceFee: "0",
+        transactionData: {},
+        result: retval ? { retval, auth: [] } : undefined,
+      };
+    },
+  } as unknown as rpc.Server;
+}
+
+/** Horizon that serves `pages` of operations in order */
+function fakeHorizon(pages: Record<string, unknown>[][], cursors: string[]) {
+  let page = 0;
+  const builder = {
+    forAccount: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    cursor: (cursor: string) => {
+      cursors.push(cursor);
+      return builder;
+    },
+    call: async () => ({ records: pages[page++] ?? [] }),
+  };
+  return new HorizonPool([
+    {
+      serverURL: { host: () => "horizon.test" },
+      httpClient: { interceptors: { response: { use: () => 0 } } },
+      operations: () => builder,
+    } as unknown as Horizon.Server,
+  ]);
+}
+
+/** The attestation payload of a mint of stats indexed on `network` */
+function attestationPayload(network: Network): Buffer {
+  return encodeAttestedStats(
+    {
+      account: OWNER,
+      network,
+      timeframe: "2026",
+      rangeStart: 1767225600,
+      rangeEnd: 1798761600,
+      totalVolume: 1,
+      mostActiveAsset: "XLM",
+      contractCalls: 1,
+      expiresAt: 1767226200,
+    },
+    Keypair.random().publicKey(),
+  );
+}
+
+/** Horizon's record of a `mint_wrap` call */
+function mintOperation(
+  hash: string,
+  timeframe: string,
+  contract = CONTRACT,
+  attestation?: Buffer,
+): Record<string, unknown> {
+  const param = (type: string, value: xdr.ScVal) => ({
+    type,
+    value: value.toXDR("base64"),
+  });
+  const attestationParams = attestation
+    ? [
+        param("Bytes", xdr.ScVal.scvBytes(attestation)),
+        param("Bytes", xdr.ScVal.scvBytes(Buffer.alloc(64))),
+      ]
+    : [];
+  return {
+    type: "invoke_host_function",
+    transaction_hash: hash,
+    paging_token: hash,
+    parameters: [
+      param("Address", new Address(contract).toScVal()),
+      param("Sym", xdr.ScVal.scvSymbol("mint_wrap")),
+      param("Address", new Address(OWNER).toScVal()),
+      param("U64", nativeToScVal(BigInt(1), { type: "u64" })),
+      param("String", nativeToScVal("XLM", { type: "string" })),
+      param("U32", nativeToScVal(1, { type: "u32" })),
+      param("String", nativeToScVal(timeframe, { type: "string" })),
+      ...attestationParams,
+    ],
+  };
+}
+
+async function run(): Promise<void> {
+  // ─── Decoding ───────────────────────────────────────────────────────────────
+
+  section("decodeMintedWrap");
+  {
+    const wrap = decodeMintedWrap({
+      owner: OWNER,
+      timeframe: "2026",
+      total_volume: BigInt(45000),
+      most_active_asset: "XLM",
+      contract_calls: 12,
+      minted_at: BigInt(1767225600),
+    });
+    assert(
+      wrap?.period === "2026" && wrap.totalVolume === 45000,
+      "reads the stored stats, converting u64 values",
+    );
+    assert(
+      wrap?.mintedAt === "2026-01-01T00:00:00.000Z",
+      "reads the mint time",
+    );
+    assert(wrap?.network === undefined, "the network is optional");
+    assert(
+      decodeMintedWrap({
+        owner: OWNER,
+        timeframe: "2026",
+        total_volume: BigInt(45000),
+        most_active_asset: "XLM",
+        contract_calls: 12,
+        network: "futurenet",
+      })?.network === "futurenet",
+      "reads a stored network",
+    );
+    assert(decodeMintedWrap({ owner: OWNER }) === null, "rejects partial data");
+    assert(decodeMintedWrap("wrap") === null, "rejects non-structs");
+  }
+
+  // ─── View calls ─────────────────────────────────────────────────────────────
+
+  section("WrapContractClient");
+  {
+    const calls: string[] = [];
+    const list = xdr.ScVal.scvVec([wrapScVal("2026-Q1", 0), wrapScVal("2025")]);
+    const wraps = await new WrapContractClient(
+      fakeRpc(list, calls),
+      CONTRACT,
+      Networks.TESTNET,
+    ).listWraps(OWNER);
+    assert(calls[0] === "list_wraps", "simulates list_wraps");
+    assert(
+      wraps.length === 2 &&
+        wraps[0].owner === OWNER &&
+        wraps[0].contractCalls === 12 &&
+        wraps[1].mintedAt === undefined,
+      "decodes every wrap in the list",
+    );
+
+    const none = await new WrapContractClient(
+      fakeRpc(xdr.ScVal.scvVoid(), calls),
+      CONTRACT,
+      Networks.TESTNET,
+    ).getWrap(OWNER, "2024");
+    assert(
+      calls[1] === "get_wrap" && none === null,
+      "an unminted period is null",
+    );
+
+    const failing = {
+      simulateTransaction: async () => ({
+        id: "1",
+        latestLedger: 100,
+        events: [],
+        _parsed: true,
+        error: "HostError: Error(Storage, MissingValue)\nEvent log: ...",
+      }),
+    } as unknown as rpc.Server;
+    let message = "";
+    try {
+      await new WrapContractClient(
+        failing,
+        CONTRACT,
+        Networks.TESTNET,
+      ).listWraps(OWNER);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assert(
+      message === "list_wraps failed: HostError: Error(Storage, MissingValue)",
+      "simulation errors name the call",
+    );
+  }
+
+  // ─── Mint transactions ──────────────────────────────────────────────────────
+
+  section("findMintTransactions");
+  {
+    const cursors: string[] = [];
+    const mints = await findMintTransactions(
+      OWNER,
+      fakeHorizon(
+        [
+          [
+            mintOperation(
+              "newer",
+              "2026",
+              CONTRACT,
+              attestationPayload("futurenet"),
+            ),
+            mintOperation("other", "2025", OTHER_CONTRACT),
+            { type: "payment", transaction_hash: "pay", paging_token: "pay" },
+            mintOperation("older", "2026"),
+            mintOperation("q1", "2026-Q1"),
+          ],
+        ],
+        cursors,
+      ),
+      CONTRACT,
+    );
+    assert(
+      mints.get("2026")?.hash === "newer",
+      "keeps the latest mint per period",
+    );
+    assert(mints.get("2026-Q1")?.hash === "q1", "finds every period");
+    assert(!mints.has("2025"), "ignores other contracts");
+    assert(
+      mints.get("2026")?.network === "futurenet",
+      "reads the network from the mint's attestation",
+    );
+    assert(
+      mints.get("2026-Q1")?.network === undefined,
+      "a mint without an attestation has no network",
+    );
+    assert(cursors.length === 0, "stops after a partial page");
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -0,0 +1,282 @@
+/**
+ * Unit Tests for the IndexerResult → WrapResult mapper
+ *
+ * Run with: npx tsx app/services/__tests__/wrapResultMapper.test.ts
+ *
+ * Self-contained assertions, same as the Soroban converter tests, so no
+ * test framework dependency is needed.
+ */
+
+import type { IndexerResult } from "@/app/utils/indexer";
+import {
+  PERSONAS,
+  createDemoWrapResult,
+  estimatePercentile,
+  formatUsername,
+  mapIndexerResultToWrapResult,
+  mapTopContractCall,
+  mapTopDapps,
+  mapVibes,
+  pickPersona,
+} from "../wrapResultMapper";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+
+function fixture(overrides: Partial<IndexerResult> = {}): IndexerResult {
+  return {
+    accountId: ACCOUNT,
+    totalTransactions: 0,
+    totalVolume: 0,
+    volumeByAsset: [],
+    fiatVolume: null,
+    mostActiveAsset: "XLM",
+    contractCalls: 0,
+    contracts: [],
+    gasSpent: 0,
+    fees: {
+      totalStroops: "0",
+      inclusionStroops: "0",
+      resourceStroops: "0",
+      total: 0,
+      inclusion: 0,
+      resource: 0,
+      transactionsPaid: 0,
+      feeBumpsPaid: 0,
+    },
+    dapps: [],
+    vibes: [],
+    activity: {
+      payments: 0,
+      trades: 0,
+      pathPayments: 0,
+      liquidity: 0,
+      contractCalls: 0,
+      other: 0,
+    },
+    ...overrides,
+  };
+}
+
+const EMPTY = fixture();
+
+const TRADER = fixture({
+  totalTransactions: 120,
+  totalVolume: 52_000,
+  dapps: [
+    { id: "payments", name: "Payments", volume: 10, transactionCount: 4 },
+    {
+      id: "dex",
+      name: "DEX",
+      icon: "/dapps/dex.svg",
+      color: "#7B61FF",
+      volume: 900,
+      transactionCount: 31,
+    },
+    { id: "bridge", name: "Bridge", volume: 50, transactionCount: 9 },
+    { id: "soroban", name: "Soroban", volume: 0, transactionCount: 2 },
+  ],
+  activity: {
+    payments: 30,
+    trades: 60,
+    pathPayments: 10,
+    liquidity: 0,
+    contractCalls: 0,
+    other: 0,
+  },
+});
+
+const BUILDER = fixture({
+  totalTransactions: 40,
+  contractCalls: 25,
+  contracts: [
+    {
+      contractId: "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH",
+      dappId: "soroswap",
+      dappName: "Soroswap",
+      calls: 20,
+      functions: [
+        { name: "swap", calls: 12 },
+        { name: "add_liquidity", calls: 8 },
+      ],
+      events: 40,
+    },
+    {
+      contractId: "CCW67TSZV3SSS2HXMBQ5JFGCKJNXKZM7UQUWUZPUTHXSTZLEO7SJMI75",
+      calls: 5,
+      functions: [{ name: "transfer", calls: 5 }],
+      events: 5,
+    },
+  ],
+  activity: {
+    payments: 5,
+    trades: 0,
+    pathPayments: 0,
+    liquidity: 0,
+    contractCalls: 25,
+    other: 3,
+  },
+});
+
+// Three equal categories: 33.33% each must still total 100
+const THIRDS = fixture({
+  totalTransactions: 3,
+  activity: {
+    payments: 1,
+    trades: 1,
+    pathPayments: 0,
+    liquidity: 0,
+    contractCalls: 1,
+    other: 0,
+  },
+});
+
+// ─── Username & Percentile ──────────────────────────────────────────────────
+
+section("formatUsername");
+assert(formatUsername(ACCOUNT) === "GAAZ…CWN7", "shortens a full account ID");
+assert(formatUsername("GSHORT") === "GSHORT", "leaves short strings alone");
+
+section("estimatePercentile");
+assert(estimatePercentile(0) === 0, "no transactions → 0");
+assert(estimatePercentile(1) === 10, "1 transaction → lowest tier");
+assert(estimatePercentile(120) === 80, "120 transactions → 80th");
+assert(estimatePercentile(5000) === 99, "very active → 99th");
+
+// ─── Dapps ──────────────────────────────────────────────────────────────────
+
+section("mapTopDapps");
+{
+  const dapps = mapTopDapps(TRADER);
+  assert(dapps.length === 3, "keeps at most three dapps");
+  assert(dapps[0].name === "DEX", "sorted by interaction count");
+  assert(dapps[0].interactions === 31, "interactions come from transactionCount");
+  assert(dapps[0].isFanFavorite === true, "top dapp is the fan favorite");
+  assert(dapps[1].isFanFavorite === false, "others are not fan favorites");
+  assert(
+    dapps.every((dapp) => !!dapp.color && !!dapp.gradient),
+    "every dapp gets a color and gradient",
+  );
+  assert(dapps[0].color === "#7B61FF", "registry brand color is used");
+  assert(dapps[0].logo === "/dapps/dex.svg", "registry icon becomes the logo");
+  assert(mapTopDapps(EMPTY).length === 0, "no dapps → empty list");
+}
+
+// ─── Contract calls ─────────────────────────────────────────────────────────
+
+section("mapTopContractCall");
+{
+  const top = mapTopContractCall(BUILDER);
+  assert(top?.functionName === "swap", "picks the most called function");
+  assert(top?.calls === 12, "reports its call count");
+  assert(top?.target === "Soroswap", "names the dapp when known");
+  assert(
+    mapTopContractCall({
+      ...BUILDER,
+      contracts: BUILDER.contracts.slice(1),
+    })?.target === "CCW6…MI75",
+    "falls back to the shortened contract ID",
+  );
+  assert(mapTopContractCall(EMPTY) === undefined, "no calls → undefined");
+}
+
+// ─── Vibes ──────────────────────────────────────────────────────────────────
+
+section("mapVibes");
+{
+  const sum = (result: IndexerResult) =>
+    mapVibes(result).reduce((total, vibe) => total + vibe.percentage, 0);
+
+  assert(mapVibes(EMPTY).length === 0, "no activity → no vibes");
+  assert(sum(TRADER) === 100, "trader vibes sum to 100");
+  assert(sum(BUILDER) === 100, "builder vibes sum to 100");
+  assert(sum(THIRDS) === 100, "equal thirds still sum to 100");
+
+  const traderVibes = mapVibes(TRADER);
+  assert(traderVibes[0].type === "defi", "largest slice comes first");
+  assert(traderVibes[0].percentage === 70, "trades + path payments = 70%");
+  assert(
+    traderVibes.every((vibe) => vibe.percentage > 0),
+    "empty categories are dropped",
+  );
+}
+
+// ─── Persona ────────────────────────────────────────────────────────────────
+
+section("pickPersona");
+assert(pickPersona(EMPTY) === PERSONAS.explorer, "empty account → explorer");
+assert(pickPersona(BUILDER) === PERSONAS.architect, "contract heavy → architect");
+assert(pickPersona(TRADER) === PERSONAS.wizard, "defi heavy → wizard");
+assert(
+  pickPersona({ ...TRADER, totalVolume: 2_000_000 }) === PERSONAS.whale,
+  "huge volume → whale",
+);
+assert(
+  pickPersona(
+    fixture({
+      totalTransactions: 80,
+      activity: { ...EMPTY.activity, payments: 70, other: 10 },
+    }),
+  ) === PERSONAS.merchant,
+  "payment heavy → merchant",
+);
+assert(pickPersona(THIRDS) === PERSONAS.diamondHand, "few mixed txs → diamond hand");
+
+// ─── Full mapping ───────────────────────────────────────────────────────────
+
+section("mapIndexerResultToWrapResult");
+{
+  const wrap = mapIndexerResultToWrapResult(TRADER);
+  assert(wrap.isDemo === false, "real results are not demo data");
+  assert(wrap.username === "GAAZ…CWN7", "username derived from account");
+  assert(wrap.totalTransactions === 120, "transaction count passed through");
+  assert(wrap.percentile === 80, "percentile estimated from activity");
+  assert(wrap.persona === PERSONAS.wizard.name, "persona name set");
+  assert(
+    wrap.personaDescription === PERSONAS.wizard.description,
+    "persona description set",
+  );
+  assert(
+    wrap.mintStats?.totalVolume === TRADER.totalVolume &&
+      wrap.mintStats.contractCalls === TRADER.contractCalls,
+    "mint stats carried over",
+  );
+
+  const demo = createDemoWrapResult();
+  assert(demo.isDemo === true, "demo wrap is flagged as demo");
+  assert(demo.mintStats === undefined, "demo wrap can't be minted");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
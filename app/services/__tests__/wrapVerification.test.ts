@@ -0,0 +1,240 @@
+/**
+ * Unit Tests for minted wrap verification
+ *
+ * Run with: npx tsx app/services/__tests__/wrapVerification.test.ts
+ */
+
+import type { IndexerResult, WrapPeriod } from "@/app/utils/indexer";
+import { resolvePeriod, serializePeriod } from "@/app/utils/periods";
+import { createAttestedStats } from "@/app/utils/statsAttestation";
+import type { Network } from "@/src/config";
+import type { MintedWrap } from "../wrapContract";
+import { compareMintedStats, verifyMintedWrap } from "../wrapVerification";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-05-15T12:00:00Z");
+
+function minted(period: string, overrides: Partial<MintedWrap> = {}) {
+  return {
+    owner: "GABC",
+    period,
+    totalVolume: 45000,
+    mostActiveAsset: "XLM",
+    contractCalls: 12,
+    network: "testnet",
+    ...overrides,
+  } as MintedWrap;
+}
+
+function indexed(overrides: Partial<IndexerResult> = {}): IndexerResult {
+  return {
+    accountId: "GABC",
+    totalVolume: 45000.75,
+    mostActiveAsset: "XLM",
+    contractCalls: 12,
+    ...overrides,
+  } as IndexerResult;
+}
+
+/** Indexer that records the periods and networks it was asked for */
+function indexer(
+  result: IndexerResult,
+  periods: WrapPeriod[] = [],
+  networks: Network[] = [],
+) {
+  return async (period: WrapPeriod, network: Network) => {
+    periods.push(period);
+    networks.push(network);
+    return result;
+  };
+}
+
+async function run(): Promise<void> {
+  // ─── Field checks ───────────────────────────────────────────────────────────
+
+  section("compareMintedStats");
+  {
+    const checks = compareMintedStats(minted("2025"), indexed());
+    assert(checks.length === 3, "checks every minted stat");
+    assert(
+      checks[0].field === "totalVolume" &&
+        checks[0].indexed === 45000 &&
+        checks[0].matches,
+      "floors the indexed volume like the mint does",
+    );
+
+    const differing = compareMintedStats(
+      minted("2025"),
+      indexed({ mostActiveAsset: "USDC", contractCalls: 13 }),
+    );
+    assert(
+      differing.filter((check) => !check.matches).length === 2,
+      "flags each differing field",
+    );
+    assert(
+      differing[1].minted === "XLM" && differing[1].indexed === "USDC",
+      "keeps both values of a difference",
+    );
+  }
+
+  // ─── Verification ───────────────────────────────────────────────────────────
+
+  section("verifyMintedWrap");
+  {
+    const periods: WrapPeriod[] = [];
+    const networks: Network[] = [];
+    const verified = await verifyMintedWrap(
+      minted("2025"),
+      indexer(indexed(), periods, networks),
+      NOW,
+    );
+    assert(verified.status === "verified", "matching stats are verified");
+    assert(
+      JSON.stringify(periods) === JSON.stringify([{ type: "year", year: 2025 }]),
+      "re-indexes the minted period",
+    );
+    assert(
+      networks.join() === "testnet",
+      "re-indexes on the network the wrap was indexed on",
+    );
+    assert(
+      verified.owner === "GABC" &&
+        verified.period === "2025" &&
+        verified.checkedAt === NOW.toISOString(),
+      "reports what was checked and when",
+    );
+
+    const mismatch = await verifyMintedWrap(
+      minted("2026-Q1"),
+      indexer(indexed({ contractCalls: 40 })),
+      NOW,
+    );
+    assert(
+      mismatch.status === "mismatch" && !mismatch.reason,
+      "a difference in an ended period is a mismatch",
+    );
+
+    const open = await verifyMintedWrap(
+      minted("2026-05"),
+      indexer(indexed({ contractCalls: 40 })),
+      NOW,
+    );
+    assert(
+      open.status === "unverifiable" &&
+        open.checks.length === 3 &&
+        open.reason !== undefined,
+      "a difference in an open period is unverifiable",
+    );
+
+    const openMatching = await verifyMintedWrap(
+      minted("2026"),
+      indexer(indexed()),
+      NOW,
+    );
+    assert(
+      openMatching.status === "verified",
+      "an open period that still matches is verified",
+    );
+
+    const rollingPeriods: WrapPeriod[] = [];
+    const rolling = await verifyMintedWrap(
+      minted("monthly"),
+      indexer(indexed(), rollingPeriods),
+      NOW,
+    );
+    assert(
+      rolling.status === "unverifiable" && rollingPeriods.length === 0,
+      "wraps minted with a rolling period are unverifiable without indexing",
+    );
+
+    // The store's default period: minted as the range the wrap covered
+    const indexedAt = new Date("2026-05-15T11:59:30.400Z");
+    const stats = createAttestedStats(
+      { accountId: "GABC", network: "testnet", period: "yearly" },
+      indexed(),
+      resolvePeriod("yearly", indexedAt),
+      NOW,
+    );
+    const defaultPeriods: WrapPeriod[] = [];
+    const defaultMint = await verifyMintedWrap(
+      minted(stats.timeframe, {
+        totalVolume: stats.totalVolume,
+        mostActiveAsset: stats.mostActiveAsset,
+        contractCalls: stats.contractCalls,
+        network: stats.network,
+      }),
+      indexer(indexed(), defaultPeriods),
+      NOW,
+    );
+    assert(
+      defaultMint.status === "verified",
+      "a wrap minted for a rolling period round-trips to verified",
+    );
+    assert(
+      defaultPeriods.length === 1 &&
+        serializePeriod(defaultPeriods[0]) === stats.timeframe &&
+        resolvePeriod(defaultPeriods[0]).end.toISOString() ===
+          "2026-05-15T11:59:31.000Z",
+      "re-indexes the exact range that was attested",
+    );
+
+    const unknownNetworkPeriods: WrapPeriod[] = [];
+    const unknownNetwork = await verifyMintedWrap(
+      minted("2025", { network: undefined }),
+      indexer(indexed(), unknownNetworkPeriods),
+      NOW,
+    );
+    assert(
+      unknownNetwork.status === "unverifiable" &&
+        unknownNetworkPeriods.length === 0,
+      "a wrap whose network is unknown is unverifiable without indexing",
+    );
+
+    const unknown = await verifyMintedWrap(
+      minted("sometime"),
+      indexer(indexed()),
+      NOW,
+    );
+    assert(
+      unknown.status === "unverifiable" &&
+        unknown.reason === 'Unknown period "sometime"',
+      "unknown periods are unverifiable",
+    );
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -3,77 +3,208 @@
  * Processes transaction data to calculate user metrics and achievements
  */
 
-import { IndexerResult, DappInfo, VibeTag } from "@/app/utils/indexer";
+import {
+  IndexerResult,
+  DappInfo,
+  VibeTag,
+  ActivityBreakdown,
+  IndexedTransaction,
+  IndexedOperation,
+  AssetVolume,
+  ContractUsage,
+} from "@/app/utils/indexer";
+import {
+  ZERO_STROOPS,
+  addToTotal,
+  assetKey,
+  parseAmount,
+  parseAssetKey,
+  sumAmounts,
+  toDisplayNumber,
+} from "@/app/utils/amounts";
+import type { Network } from "@/src/config";
+import { calculateFees } from "./feeCalculator";
+import { getDappMatcher } from "./dappRegistry";
 
-interface Transaction {
+const ACTIVITY_BY_OPERATION: Record<string, keyof ActivityBreakdown> = {
+  payment: "payments",
+  create_account: "payments",
+  manage_buy_offer: "trades",
+  manage_sell_offer: "trades",
+  create_passive_sell_offer: "trades",
+  path_payment_strict_receive: "pathPayments",
+  path_payment_strict_send: "pathPayments",
+  liquidity_pool_deposit: "liquidity",
+  liquidity_pool_withdraw: "liquidity",
+  invoke_host_function: "contractCalls",
+};
+
+/**
+ * A single amount moved in one asset, dated so it can be priced later.
+ */
+export interface VolumeEntry {
+  asset: string;
+  stroops: bigint;
   created_at: string;
-  memo?: string;
-  operations?: Operation[];
 }
 
-interface Operation {
-  type: string;
-  amount?: string;
-  asset_code?: string;
-  memo?: string;
+/**
+ * Amounts actually traded by an offer operation, per sold asset, taken from
+ * its `trade` effects. An offer that rested on the book without filling
+ * moved nothing.
+ */
+function tradedAmounts(op: IndexedOperation): VolumeEntry[] {
+  return (op.effects ?? [])
+    .filter((effect) => effect.type === "trade" && effect.sold_amount)
+    .map((effect) => ({
+      asset: assetKey({
+        asset_type: effect.sold_asset_type,
+        asset_code: effect.sold_asset_code,
+        asset_issuer: effect.sold_asset_issuer,
+      }),
+      stroops: parseAmount(effect.sold_amount as string),
+      created_at: effect.created_at,
+    }));
 }
 
-const DAPP_KEYWORDS = {
-  "stellar.expert": { name: "Stellar Expert", icon: "📊" },
-  soroban: { name: "Soroban", icon: "⚡" },
-  swap: { name: "DEX", icon: "🔄" },
-  lp: { name: "Liquidity Pool", icon: "💧" },
-  bridge: { name: "Bridge", icon: "🌉" },
-  payment: { name: "Payments", icon: "💳" },
-};
+/**
+ * Volume-bearing amounts of an operation: payments and path payments count
+ * their delivered amount, offers count what they actually traded.
+ */
+export function operationVolume(op: IndexedOperation): VolumeEntry[] {
+  switch (op.type) {
+    case "payment":
+    case "path_payment_strict_receive":
+    case "path_payment_strict_send":
+      return [
+        {
+          asset: assetKey(op),
+          stroops: op.amount ? parseAmount(op.amount) : ZERO_STROOPS,
+          created_at: op.created_at,
+        },
+      ];
+    case "manage_buy_offer":
+    case "manage_sell_offer":
+      return tradedAmounts(op);
+    default:
+      return [];
+  }
+}
+
+export function collectVolumeEntries(
+  transactions: IndexedTransaction[],
+): VolumeEntry[] {
+  return transactions.flatMap((tx) => tx.operations.flatMap(operationVolume));
+}
+
+/**
+ * Groups contract invocations by contract and function, naming contracts
+ * after their registry dapp where known.
+ */
+export function summarizeContractUsage(
+  transactions: IndexedTransaction[],
+  network: Network = "mainnet",
+): ContractUsage[] {
+  const dappMatcher = getDappMatcher(network);
+  const usage = new Map<string, ContractUsage>();
+  const functionCalls = new Map<string, Map<string, number>>();
+
+  transactions.forEach((tx) => {
+    tx.operations.forEach((op) => {
+      if (op.type !== "invoke_host_function" || !op.contract_id) return;
+
+      let contract = usage.get(op.contract_id);
+      if (!contract) {
+        const dapp = dappMatcher.matchContract(op.contract_id);
+        contract = {
+          contractId: op.contract_id,
+          dappId: dapp?.id,
+          dappName: dapp?.name,
+          calls: 0,
+          functions: [],
+          events: 0,
+        };
+        usage.set(op.contract_id, contract);
+        functionCalls.set(op.contract_id, new Map());
+      }
+      contract.calls++;
+      contract.events += op.events?.length ?? 0;
+
+      if (op.function_name) {
+        const calls = functionCalls.get(op.contract_id)!;
+        calls.set(op.function_name, (calls.get(op.function_name) || 0) + 1);
+      }
+    });
+  });
+
+  usage.forEach((contract, contractId) => {
+    contract.functions = Array.from(functionCalls.get(contractId)!.entries())
+      .map(([name, calls]) => ({ name, calls }))
+      .sort((a, b) => b.calls - a.calls);
+  });
+
+  return Array.from(usage.values()).sort((a, b) => b.calls - a.calls);
+}
 
 export function calculateAchievements(
-  transactions: Transaction[],
+  transactions: IndexedTransaction[],
+  accountId: string,
+  network: Network = "mainnet",
 ): IndexerResult {
-  let totalVolume = 0;
+  const dappMatcher = getDappMatcher(network);
   let contractCalls = 0;
-  const gasSpent = 0;
-  const assetMap = new Map<string, number>();
+  const volumeByAsset = new Map<string, bigint>();
+  const operationsByAsset = new Map<string, number>();
   const dappMap = new Map<string, DappInfo>();
+  const dappVolumes = new Map<string, bigint>();
+  const dappTransactions = new Map<string, Set<string>>();
   const vibeMap = new Map<string, number>();
+  const activity: ActivityBreakdown = {
+    payments: 0,
+    trades: 0,
+    pathPayments: 0,
+    liquidity: 0,
+    contractCalls: 0,
+    other: 0,
+  };
 
   // Process transactions
-  transactions.forEach((tx: Transaction) => {
-    if (!tx.operations) return;
+  transactions.forEach((tx: IndexedTransaction) => {
+    tx.operations.forEach((op: IndexedOperation) => {
+      activity[ACTIVITY_BY_OPERATION[op.type] ?? "other"]++;
+
+      const volume = operationVolume(op);
+      volume.forEach(({ asset, stroops }) => {
+        addToTotal(volumeByAsset, asset, stroops);
+        operationsByAsset.set(asset, (operationsByAsset.get(asset) || 0) + 1);
+      });
 
-    tx.operations.forEach((op: Operation) => {
       // Count contract invocations (Soroban operations)
       if (op.type === "invoke_host_function") {
         contractCalls++;
         vibeMap.set("soroban-user", (vibeMap.get("soroban-user") || 0) + 1);
       }
 
-      // Process payment operations
-      if (op.type === "payment") {
-        const amount = op.amount ? parseFloat(op.amount) : 0;
-        totalVolume += amount;
-
-        const asset = op.asset_code || "XLM";
-        assetMap.set(asset, (assetMap.get(asset) || 0) + amount);
-
-        // Detect dapps
-        if (op.memo || tx.memo) {
-          const memo = (op.memo || tx.memo || "").toLowerCase();
-          Object.entries(DAPP_KEYWORDS).forEach(([keyword, dapp]) => {
-            if (memo.includes(keyword)) {
-              const key = dapp.name;
-              const existing = dappMap.get(key) || {
-                name: key,
-                icon: dapp.icon,
-                volume: 0,
-                transactionCount: 0,
-              };
-              existing.volume += amount;
-              existing.transactionCount += 1;
-              dappMap.set(key, existing);
-            }
-          });
-        }
+      const dapp = dappMatcher.match(op, accountId);
+      if (dapp) {
+        const existing = dappMap.get(dapp.id) || {
+          id: dapp.id,
+          name: dapp.name,
+          icon: dapp.icon,
+          color: dapp.color,
+          homeDomain: dapp.homeDomain,
+          volume: 0,
+          transactionCount: 0,
+        };
+        dappMap.set(dapp.id, existing);
+
+        const seen = dappTransactions.get(dapp.id) || new Set<string>();
+        seen.add(tx.hash);
+        dappTransactions.set(dapp.id, seen);
+
+        volume.forEach(({ stroops }) =>
+          addToTotal(dappVolumes, dapp.id, stroops),
+        );
       }
 
       // Process path payment operations
@@ -81,24 +212,25 @@ export function calculateAchievements(
         op.type === "path_payment_strict_receive" ||
         op.type === "path_payment_strict_send"
       ) {
-        const amount = op.amount ? parseFloat(op.amount) : 0;
-        totalVolume += amount;
-
-        const asset = op.asset_code || "XLM";
-        assetMap.set(asset, (assetMap.get(asset) || 0) + amount);
-
         vibeMap.set("bridge-warrior", (vibeMap.get("bridge-warrior") || 0) + 1);
       }
 
       // Process trades
       if (op.type === "manage_buy_offer" || op.type === "manage_sell_offer") {
         vibeMap.set("defi-trader", (vibeMap.get("defi-trader") || 0) + 1);
-        const amount = op.amount ? parseFloat(op.amount) : 0;
-        totalVolume += amount;
       }
     });
   });
 
+  dappMap.forEach((dapp, key) => {
+    dapp.volume = toDisplayNumber(dappVolumes.get(key) ?? ZERO_STROOPS);
+    dapp.transactionCount = dappTransactions.get(key)?.size ?? 0;
+  });
+
+  // Combined total across assets; only meaningful as a rough activity
+  // signal. Use `volumeByAsset` for anything denominated.
+  const totalVolume = toDisplayNumber(sumAmounts(volumeByAsset.values()));
+
   // Determine vibes based on activity
   const vibes: VibeTag[] = [];
 
@@ -127,24 +259,34 @@ export function calculateAchievements(
     vibes.push({ tag: "Selective", count: transactions.length });
   }
 
-  // Get most active asset
-  let mostActiveAsset = "XLM";
-  let maxAmount = 0;
-  assetMap.forEach((amount, asset) => {
-    if (amount > maxAmount) {
-      maxAmount = amount;
-      mostActiveAsset = asset;
-    }
-  });
+  // Most active asset is the one with the most volume-bearing operations;
+  // raw amounts of different assets are not comparable.
+  const assetVolumes: AssetVolume[] = Array.from(volumeByAsset.entries())
+    .map(([key, stroops]) => ({
+      asset: key,
+      ...parseAssetKey(key),
+      volume: toDisplayNumber(stroops),
+      stroops: stroops.toString(),
+      operations: operationsByAsset.get(key) || 0,
+    }))
+    .sort((a, b) => b.operations - a.operations);
+
+  const mostActiveAsset = assetVolumes[0]?.code ?? "XLM";
+  const fees = calculateFees(transactions, accountId);
 
   return {
-    accountId: "",
+    accountId,
     totalTransactions: transactions.length,
     totalVolume,
+    volumeByAsset: assetVolumes,
+    fiatVolume: null,
     mostActiveAsset,
     contractCalls,
-    gasSpent,
+    contracts: summarizeContractUsage(transactions, network),
+    gasSpent: fees.total,
+    fees,
     dapps: Array.from(dappMap.values()),
     vibes,
+    activity,
   };
 }
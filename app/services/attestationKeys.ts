@@ -0,0 +1,94 @@
+/**
+ * Attestation keys
+ * The ed25519 keys the server signs minted stats with, and the rotation
+ * scheme for them.
+ *
+ * `ATTESTATION_SECRET_KEYS` lists Stellar secret seeds, newest first. The
+ * first one signs; the rest are retired but still published, since the
+ * contract keeps accepting attestations they signed until those expire.
+ * To rotate, prepend a new seed and register its public key with the
+ * contract. Once `ATTESTATION_TTL_SECONDS` has passed, deregister the old
+ * key and drop it from the list.
+ */
+
+import { Keypair } from "@stellar/stellar-sdk";
+import {
+  AttestedStats,
+  StatsAttestation,
+  signAttestedStats,
+} from "@/app/utils/statsAttestation";
+
+/** Long enough to review the mint preview and sign */
+export const DEFAULT_ATTESTATION_TTL_MS = 10 * 60 * 1000;
+
+export class AttestationKeyring {
+  private readonly keys: Keypair[];
+
+  /**
+   * @param secrets - Secret seeds, newest first
+   * @throws Error if there are none
+   */
+  constructor(
+    secrets: string[],
+    readonly ttlMs = DEFAULT_ATTESTATION_TTL_MS,
+  ) {
+    if (secrets.length === 0) {
+      throw new Error("An attestation keyring needs at least one key");
+    }
+    this.keys = secrets.map((secret) => Keypair.fromSecret(secret));
+  }
+
+  /** Public key of the key new attestations are signed with */
+  get activeKey(): string {
+    return this.keys[0].publicKey();
+  }
+
+  /** Public keys the contract should accept, newest first */
+  get publicKeys(): string[] {
+    return this.keys.map((key) => key.publicKey());
+  }
+
+  /** When an attestation signed at `now` stops being accepted */
+  expiryFor(now = new Date()): Date {
+    return new Date(now.getTime() + this.ttlMs);
+  }
+
+  sign(stats: AttestedStats): StatsAttestation {
+    return signAttestedStats(stats, this.keys[0]);
+  }
+}
+
+let keyring: AttestationKeyring | null | undefined;
+
+/**
+ * The keyring configured by `ATTESTATION_SECRET_KEYS` (comma-separated)
+ * and `ATTESTATION_TTL_SECONDS`, or null when no usable key is set.
+ */
+export function getAttestationKeyring(): AttestationKeyring | null {
+  if (keyring === undefined) {
+    const env = process.env;
+    const secrets = (env.ATTESTATION_SECRET_KEYS || "")
+      .split(",")
+      .map((secret) => secret.trim())
+      .filter((secret) => {
+        if (!secret) return false;
+        try {
+          Keypair.fromSecret(secret);
+          return true;
+        } catch {
+          console.warn("Ignoring an unusable ATTESTATION_SECRET_KEYS entry");
+          return false;
+        }
+      });
+    const ttlSeconds = Number(env.ATTESTATION_TTL_SECONDS);
+
+    keyring =
+      secrets.length > 0
+        ? new AttestationKeyring(
+            secrets,
+            ttlSeconds > 0 ? ttlSeconds * 1000 : DEFAULT_ATTESTATION_TTL_MS,
+          )
+        : null;
+  }
+  return keyring;
+}
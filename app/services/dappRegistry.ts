@@ -0,0 +1,88 @@
+/**
+ * Dapp registry
+ * Attributes operations to dapps by the contracts, accounts and liquidity
+ * pools they touch, using the versioned list in `app/data/dappRegistry.json`
+ */
+
+import registryJson from "@/app/data/dappRegistry.json";
+import type { IndexedOperation } from "@/app/utils/indexer";
+import type { Network } from "@/src/config";
+
+/** On-chain identifiers a dapp is known by on one network */
+export interface DappIdentifiers {
+  /** Soroban contract IDs (`C…`) */
+  contracts?: string[];
+  /** Issuer or treasury accounts (`G…`) */
+  accounts?: string[];
+  /** Classic liquidity pool IDs (hex) */
+  liquidityPools?: string[];
+}
+
+export interface DappEntry {
+  id: string;
+  name: string;
+  homeDomain?: string;
+  /** Path under `public/` */
+  icon?: string;
+  color?: string;
+  networks: Partial<Record<Network, DappIdentifiers>>;
+}
+
+export interface DappRegistry {
+  /** Bumped whenever entries change; part of every wrap cache key */
+  version: number;
+  updatedAt: string;
+  dapps: DappEntry[];
+}
+
+export const DAPP_REGISTRY: DappRegistry = registryJson;
+
+/**
+ * Lookup tables for one network. Built once per network and reused.
+ */
+export class DappMatcher {
+  private byContract = new Map<string, DappEntry>();
+  private byAccount = new Map<string, DappEntry>();
+  private byPool = new Map<string, DappEntry>();
+
+  constructor(registry: DappRegistry, network: Network) {
+    registry.dapps.forEach((dapp) => {
+      const ids = dapp.networks[network];
+      if (!ids) return;
+      ids.contracts?.forEach((id) => this.byContract.set(id, dapp));
+      ids.accounts?.forEach((id) => this.byAccount.set(id, dapp));
+      ids.liquidityPools?.forEach((id) => this.byPool.set(id, dapp));
+    });
+  }
+
+  matchContract(contractId: string): DappEntry | undefined {
+    return this.byContract.get(contractId);
+  }
+
+  /**
+   * The dapp an operation interacted with, if any: the invoked contract,
+   * the pool deposited to or withdrawn from, or the payment counterparty.
+   */
+  match(op: IndexedOperation, accountId: string): DappEntry | undefined {
+    if (op.contract_id) {
+      return this.matchContract(op.contract_id);
+    }
+    if (op.liquidity_pool_id) {
+      return this.byPool.get(op.liquidity_pool_id);
+    }
+
+    const counterparty = op.from === accountId ? op.to : op.from;
+    return counterparty ? this.byAccount.get(counterparty) : undefined;
+  }
+}
+
+const matchers = new Map<Network, DappMatcher>();
+
+export function getDappMatcher(network: Network): DappMatcher {
+  let matcher = matchers.get(network);
+  if (!matcher) {
+    matcher = new DappMatcher(DAPP_REGISTRY, network);
+    matchers.set(network, matcher);
+  }
+  return matcher;
+}
@@ -0,0 +1,121 @@
+/**
+ * Fee accounting
+ * Totals what an account paid in transaction fees, splitting Soroban
+ * resource fees from inclusion fees
+ */
+
+import { xdr } from "@stellar/stellar-sdk";
+import type { FeeBreakdown, IndexedTransaction } from "@/app/utils/indexer";
+import { ZERO_STROOPS, toDisplayNumber } from "@/app/utils/amounts";
+
+export const SOROBAN_OPERATION_TYPES = [
+  "invoke_host_function",
+  "extend_footprint_ttl",
+  "restore_footprint",
+];
+
+function declaredResourceFee(envelopeXdr: string): bigint | null {
+  const envelope = xdr.TransactionEnvelope.fromXDR(envelopeXdr, "base64");
+  const v1 =
+    envelope.switch() === xdr.EnvelopeType.envelopeTypeTxFeeBump()
+      ? envelope.feeBump().tx().innerTx().v1()
+      : envelope.switch() === xdr.EnvelopeType.envelopeTypeTx()
+        ? envelope.v1()
+        : null;
+  const ext = v1?.tx().ext();
+  if (!ext || ext.switch() !== 1) return null;
+  return BigInt(ext.sorobanData().resourceFee().toString());
+}
+
+function chargedResourceFee(resultMetaXdr: string): bigint | null {
+  const meta = xdr.TransactionMeta.fromXDR(resultMetaXdr, "base64");
+  // v4 (Protocol 23 onwards) records the charges like v3 did
+  const sorobanMeta =
+    meta.switch() === 4
+      ? meta.v4().sorobanMeta()
+      : meta.switch() === 3
+        ? meta.v3().sorobanMeta()
+        : null;
+  const ext = sorobanMeta?.ext();
+  if (!ext || ext.switch() !== 1) return null;
+  const v1 = ext.v1();
+  return (
+    BigInt(v1.totalNonRefundableResourceFeeCharged().toString()) +
+    BigInt(v1.totalRefundableResourceFeeCharged().toString())
+  );
+}
+
+/**
+ * Resource fee actually charged to a Soroban transaction, in stroops.
+ * Read from the result meta when it records the charges; otherwise falls
+ * back to the resource fee declared in the envelope, capped at the total
+ * fee charged. The declared fee includes the refundable part, so it can
+ * overstate what was charged. Returns null if neither is available.
+ */
+export function resourceFeeCharged(
+  feeCharged: string,
+  resultMetaXdr?: string,
+  envelopeXdr?: string,
+): bigint | null {
+  if (resultMetaXdr) {
+    try {
+      const charged = chargedResourceFee(resultMetaXdr);
+      if (charged !== null) return charged;
+    } catch {
+      // Newer meta versions than the SDK knows; try the envelope instead
+    }
+  }
+
+  if (envelopeXdr) {
+    try {
+      const declared = declaredResourceFee(envelopeXdr);
+      if (declared !== null) {
+        const total = BigInt(feeCharged);
+        return declared < total ? declared : total;
+      }
+    } catch (error) {
+      console.warn("Failed to decode transaction envelope:", error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sums fees for every transaction `accountId` paid for: its own
+ * transactions and fee-bumps where it was the fee source. Transactions it
+ * merely appears in (e.g. received payments) cost it nothing.
+ */
+export function calculateFees(
+  transactions: IndexedTransaction[],
+  accountId: string,
+): FeeBreakdown {
+  let total = ZERO_STROOPS;
+  let resource = ZERO_STROOPS;
+  let transactionsPaid = 0;
+  let feeBumpsPaid = 0;
+
+  transactions.forEach((tx) => {
+    if (!tx.fee_charged || tx.fee_account !== accountId) return;
+
+    total += BigInt(tx.fee_charged);
+    transactionsPaid++;
+    if (tx.fee_bump) feeBumpsPaid++;
+    if (tx.resource_fee_charged) {
+      resource += BigInt(tx.resource_fee_charged);
+    }
+  });
+
+  const inclusion = total - resource;
+
+  return {
+    totalStroops: total.toString(),
+    inclusionStroops: inclusion.toString(),
+    resourceStroops: resource.toString(),
+    total: toDisplayNumber(total),
+    inclusion: toDisplayNumber(inclusion),
+    resource: toDisplayNumber(resource),
+    transactionsPaid,
+    feeBumpsPaid,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Fiat volume valuation
+ * Values each payment and trade at its asset's price on the day it happened
+ */
+
+import type { FiatVolume } from "@/app/utils/indexer";
+import { parseAssetKey, toDisplayNumber } from "@/app/utils/amounts";
+import type { VolumeEntry } from "./achievementCalculator";
+import { DailyPrices, PriceProvider, dayKey } from "./priceProvider";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Markets don't trade every day. An entry on a day without a close uses the
+ * most recent close up to this many days earlier.
+ */
+const PRICE_LOOKBACK_DAYS = 7;
+
+function priceForDay(
+  prices: DailyPrices,
+  sortedDays: string[],
+  day: string,
+): number | undefined {
+  const exact = prices.get(day);
+  if (exact !== undefined) return exact;
+
+  const earliest = dayKey(
+    new Date(new Date(day).getTime() - PRICE_LOOKBACK_DAYS * DAY_MS),
+  );
+  for (let i = sortedDays.length - 1; i >= 0; i--) {
+    const candidate = sortedDays[i];
+    if (candidate < earliest) break;
+    if (candidate <= day) return prices.get(candidate);
+  }
+  return undefined;
+}
+
+/**
+ * Values volume entries in the provider's quote asset. Entries with no
+ * usable price are left out of the total; assets where no entry could be
+ * priced, or whose prices couldn't be fetched, are listed in
+ * `unpricedAssets`. `onProgress` is called as each asset is valued.
+ */
+export async function valueVolume(
+  entries: VolumeEntry[],
+  provider: PriceProvider,
+  onProgress?: (valuedAssets: number, totalAssets: number) => void,
+): Promise<FiatVolume> {
+  const entriesByAsset = new Map<string, VolumeEntry[]>();
+  entries.forEach((entry) => {
+    const group = entriesByAsset.get(entry.asset) || [];
+    group.push(entry);
+    entriesByAsset.set(entry.asset, group);
+  });
+
+  const byAsset: FiatVolume["byAsset"] = [];
+  const unpricedAssets: string[] = [];
+  let valuedAssets = 0;
+
+  await Promise.all(
+    Array.from(entriesByAsset.entries()).map(async ([asset, group]) => {
+      let prices: DailyPrices | null = null;
+      let sortedDays: string[] = [];
+
+      // The quote asset is worth exactly 1 of itself
+      if (asset !== provider.quoteAsset) {
+        // A loop, not Math.min(...times): spreading a very active asset's
+        // entries overflows the call stack
+        let first = Infinity;
+        let last = -Infinity;
+        group.forEach((entry) => {
+          const time = new Date(entry.created_at).getTime();
+          first = Math.min(first, time);
+          last = Math.max(last, time);
+        });
+        try {
+          prices = await provider.getDailyPrices(
+            asset,
+            new Date(first - PRICE_LOOKBACK_DAYS * DAY_MS),
+            new Date(last),
+          );
+        } catch (error) {
+          // One asset without prices shouldn't cost the whole valuation
+          console.warn(`Failed to fetch prices for ${asset}:`, error);
+          prices = new Map();
+        }
+        sortedDays = Array.from(prices.keys()).sort();
+      }
+
+      let value = 0;
+      let priced = false;
+      group.forEach((entry) => {
+        const price = prices
+          ? priceForDay(prices, sortedDays, dayKey(new Date(entry.created_at)))
+          : 1;
+        if (price !== undefined) {
+          value += toDisplayNumber(entry.stroops) * price;
+          priced = true;
+        }
+      });
+
+      if (priced) {
+        byAsset.push({ asset, code: parseAssetKey(asset).code, value });
+      } else {
+        unpricedAssets.push(asset);
+      }
+      onProgress?.(++valuedAssets, entriesByAsset.size);
+    }),
+  );
+
+  byAsset.sort((a, b) => b.value - a.value);
+  unpricedAssets.sort();
+
+  return {
+    quoteAsset: provider.quoteAsset,
+    quoteLabel: provider.quoteLabel,
+    total: byAsset.reduce((sum, entry) => sum + entry.value, 0),
+    byAsset,
+    unpricedAssets,
+  };
+}
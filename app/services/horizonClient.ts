@@ -0,0 +1,327 @@
+/**
+ * Rate-limit-aware Horizon requests
+ * Per-host token buckets, Retry-After / X-RateLimit handling, retries with
+ * exponential backoff for errors worth retrying, and failover between a
+ * network's endpoints
+ */
+
+import { Horizon } from "@stellar/stellar-sdk";
+import {
+  abortable,
+  createAbortError,
+  isAbortError,
+  throwIfAborted,
+  withTimeout,
+} from "@/app/utils/abort";
+import { HorizonPool } from "@/app/utils/stellarClient";
+
+const DEFAULT_BUCKET_CAPACITY = 20;
+const DEFAULT_REFILL_PER_SECOND = 10;
+const DEFAULT_MAX_RETRIES = 5;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_CAP_MS = 30_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ERR_NETWORK",
+];
+const NETWORK_ERROR_MESSAGE = /network error|fetch failed|timeout|socket hang up/i;
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => clearTimeout(timer), {
+        once: true,
+      });
+    }),
+    signal,
+  );
+}
+
+/**
+ * Token bucket for one Horizon host. Each request takes a token; tokens
+ * refill at a steady rate. The bucket can also be paused outright when the
+ * server says to back off.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly capacity = DEFAULT_BUCKET_CAPACITY,
+    private readonly refillPerSecond = DEFAULT_REFILL_PER_SECOND,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  /** Milliseconds until a token is available; 0 if one is free now */
+  waitTime(): number {
+    this.refill();
+    const pause = Math.max(0, this.pausedUntil - this.now());
+    if (this.tokens >= 1) return pause;
+    return Math.max(
+      pause,
+      Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000),
+    );
+  }
+
+  /** Waits for and takes one token */
+  async take(signal?: AbortSignal): Promise<void> {
+    for (let wait = this.waitTime(); wait > 0; wait = this.waitTime()) {
+      await sleep(wait, signal);
+    }
+    this.tokens -= 1;
+  }
+
+  /** Stops handing out tokens until `time` */
+  pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  /** The server reports how many requests are left; never assume more */
+  limitTo(remaining: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, Math.max(0, remaining));
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.refillPerSecond,
+    );
+    this.lastRefill = now;
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+export function getTokenBucket(host: string): TokenBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = new TokenBucket();
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+type HeaderSource =
+  | Headers
+  | Record<string, string | string[] | boolean | undefined>
+  | undefined;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const record = headers as Record<string, unknown>;
+  const value = record[name] ?? record[name.toLowerCase()];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * `Retry-After` in milliseconds. The header is either a number of seconds
+ * or an HTTP date.
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Feeds one Horizon response's rate-limit headers into its host's bucket.
+ * Horizon sends `X-RateLimit-Remaining` and `X-RateLimit-Reset` (seconds
+ * until the window resets) on every response, and `Retry-After` on 429s.
+ */
+export function applyRateLimitHeaders(
+  bucket: TokenBucket,
+  headers: HeaderSource,
+  now = Date.now(),
+): void {
+  const remaining = Number(readHeader(headers, "X-RateLimit-Remaining"));
+  const reset = Number(readHeader(headers, "X-RateLimit-Reset"));
+  const retryAfter = parseRetryAfter(readHeader(headers, "Retry-After"), now);
+
+  if (Number.isFinite(remaining)) {
+    bucket.limitTo(remaining);
+    if (remaining <= 0 && Number.isFinite(reset)) {
+      bucket.pauseUntil(now + reset * 1000);
+    }
+  }
+  if (retryAfter !== undefined) {
+    bucket.pauseUntil(now + retryAfter);
+  }
+}
+
+interface InterceptedResponse {
+  config?: { url?: string };
+  headers?: HeaderSource;
+}
+
+function hostOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+const interceptedServers = new WeakSet<Horizon.Server>();
+
+/**
+ * The SDK turns failed responses into errors that no longer carry headers,
+ * so rate-limit headers are read off each server's HTTP client before that
+ * happens.
+ */
+function installRateLimitInterceptors(server: Horizon.Server): void {
+  if (interceptedServers.has(server)) return;
+  interceptedServers.add(server);
+
+  const observe = (response: InterceptedResponse | undefined) => {
+    const host = hostOf(response?.config?.url);
+    if (host) applyRateLimitHeaders(getTokenBucket(host), response?.headers);
+  };
+
+  server.httpClient.interceptors.response.use(
+    (response) => {
+      observe(response as InterceptedResponse);
+      return response;
+    },
+    (error: { response?: InterceptedResponse }) => {
+      observe(error?.response);
+      return Promise.reject(error);
+    },
+  );
+}
+
+/**
+ * HTTP status of a failed Horizon call. SDK errors keep the problem
+ * document (which repeats the status) as `response`; raw HTTP client errors
+ * have the status on `response` directly.
+ */
+export function getHorizonErrorStatus(error: unknown): number | undefined {
+  const err = error as {
+    response?: { status?: unknown };
+    status?: unknown;
+    statusCode?: unknown;
+  };
+  const status = err?.response?.status ?? err?.statusCode ?? err?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Whether a failed call is worth repeating: rate limits, server errors and
+ * network failures are; bad requests, missing accounts and cancellation
+ * are not.
+ */
+export function isRetryableHorizonError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  const status = getHorizonErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  // No response at all: the request never made it, or the connection broke
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: unknown;
+  };
+  return (
+    (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) ||
+    (typeof message === "string" && NETWORK_ERROR_MESSAGE.test(message))
+  );
+}
+
+/**
+ * Whether a failure says something about the endpoint itself (it is down,
+ * erroring or unreachable) rather than about the request or this client's
+ * rate limit, so another endpoint should take over.
+ */
+export function isHorizonEndpointFailure(error: unknown): boolean {
+  return (
+    isRetryableHorizonError(error) && getHorizonErrorStatus(error) !== 429
+  );
+}
+
+/** Full-jitter exponential backoff: a random wait up to base × 2^attempt */
+export function backoffDelay(attempt: number, random = Math.random): number {
+  return Math.floor(
+    random() * Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** attempt),
+  );
+}
+
+export interface HorizonRequestOptions {
+  signal?: AbortSignal;
+  /** Retries after the first attempt. Defaults to 5. */
+  maxRetries?: number;
+  /** Per-attempt limit; a timed-out attempt counts as an endpoint failure */
+  timeoutMs?: number;
+}
+
+/**
+ * Makes one Horizon call through the host's token bucket, retrying
+ * retryable failures. The wait before a retry is the longer of the backoff
+ * and any pause the server asked for.
+ *
+ * Given a pool, each attempt goes to the pool's current endpoint. One that
+ * times out or errors is marked unhealthy and the retry goes straight to
+ * the next endpoint. `call` receives the server to use, so callers that
+ * page with their own cursor pick up where they were on the new endpoint.
+ */
+export async function requestHorizon<T>(
+  target: Horizon.Server | HorizonPool,
+  call: (server: Horizon.Server) => Promise<T>,
+  options: HorizonRequestOptions = {},
+): Promise<T> {
+  const {
+    signal,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  } = options;
+  const pool = target instanceof HorizonPool ? target : null;
+
+  for (let attempt = 0; ; attempt++) {
+    const server = pool ? pool.current() : (target as Horizon.Server);
+    installRateLimitInterceptors(server);
+    const bucket = getTokenBucket(server.serverURL.host());
+    await bucket.take(signal);
+    // A request that waited out a cancellation never starts
+    throwIfAborted(signal);
+    try {
+      return await abortable(withTimeout(call(server), timeoutMs), signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      if (attempt >= maxRetries || !isRetryableHorizonError(error)) {
+        throw error;
+      }
+      if (pool && isHorizonEndpointFailure(error)) {
+        pool.markUnhealthy(
+          server,
+          error instanceof Error ? error.message : undefined,
+        );
+        // Another endpoint can take the retry right away
+        if (pool.current() !== server) continue;
+      }
+      await sleep(Math.max(backoffDelay(attempt), bucket.waitTime()), signal);
+    }
+  }
+}
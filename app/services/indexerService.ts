@@ -3,13 +3,63 @@
  * Fetches and processes transaction data from Stellar Horizon API
  */
 
-import { getHorizonServer } from "@/app/utils/stellarClient";
-import { IndexerResult, PERIODS, WrapPeriod } from "@/app/utils/indexer";
-import { calculateAchievements } from "./achievementCalculator";
+import { Horizon } from "@stellar/stellar-sdk";
+import { HorizonPool, getHorizonPool } from "@/app/utils/stellarClient";
+import type { Network } from "@/src/config";
+import {
+  IndexedEffect,
+  IndexedOperation,
+  IndexedTransaction,
+  IndexerResult,
+  IndexerSnapshot,
+  IndexingCursors,
+  WrapPeriod,
+} from "@/app/utils/indexer";
+import {
+  DateRange,
+  resolvePeriod,
+  serializePeriod,
+} from "@/app/utils/periods";
+import {
+  CheckpointCollection,
+  CollectionCheckpoint,
+  IndexingCheckpoint,
+  IndexingCheckpointStore,
+  checkpointRange,
+  createCheckpoint,
+  getCheckpointKey,
+  getDefaultCheckpointStore,
+  isCheckpointFresh,
+  toPlainRecord,
+} from "@/app/utils/indexingCheckpoint";
+import {
+  calculateAchievements,
+  collectVolumeEntries,
+} from "./achievementCalculator";
+import { valueVolume } from "./fiatVolume";
+import { SOROBAN_OPERATION_TYPES, resourceFeeCharged } from "./feeCalculator";
+import {
+  HostFunctionParameter,
+  decodeContractEvents,
+  decodeInvocation,
+} from "./sorobanDecoder";
+import { PriceProvider, createHorizonPriceProvider } from "./priceProvider";
+import { isRetryableHorizonError, requestHorizon } from "./horizonClient";
 import { IndexerEventEmitter } from "@/app/utils/indexerEventEmitter";
-import { INDEXING_STEPS, IndexingStep } from "@/app/types/indexing";
+import {
+  abortable,
+  isAbortError,
+  throwIfAborted,
+} from "@/app/utils/abort";
+import { IndexingStep } from "@/app/types/indexing";
 
 const MAX_CONCURRENT_REQUESTS = 5;
+const PAGE_LIMIT = 200;
+/**
+ * Most transactions a snapshot keeps. Busier wraps are cached without one
+ * and re-crawled on refresh, so cache entries stay bounded.
+ */
+export const MAX_SNAPSHOT_TRANSACTIONS = 5000;
 
 interface QueueItem {
   cursor?: string;
@@ -46,53 +96,630 @@ class ConcurrencyManager {
 
 const concurrencyManager = new ConcurrencyManager();
 
+type HorizonRecord = Record<string, unknown>;
+
+/**
+ * The subset of the SDK's CallBuilder used for paging. Transactions,
+ * operations and effects builders all satisfy it.
+ */
+interface PagedCallBuilder {
+  order(direction: "asc" | "desc"): PagedCallBuilder;
+  limit(recordsNumber: number): PagedCallBuilder;
+  cursor(cursor: string): PagedCallBuilder;
+  call(): Promise<{ records: unknown[] }>;
+}
+
+interface LedgerPoint {
+  sequence: number;
+  closedAt: number;
+}
+
 /**
- * Runs `workFn` immediately (so we capture the result), then animates step
- * progress smoothly over `estimatedDuration` ms before marking it complete.
- * This ensures every step is visually visible to the user even when the
- * actual computation is near-instant.
+ * Paging token for the first ledger that closed at or after `date`, so
+ * newest-first paging can start at the end of a past range instead of at
+ * the tip of the chain. Paging tokens are TOIDs: the ledger sequence in the
+ * high 32 bits. Returns undefined when `date` is after the latest ledger.
+ *
+ * Ledgers close at a near-constant rate, so interpolating between the
+ * bracketing ledgers converges in a handful of requests.
  */
-async function animateStep<T>(
+async function findLedgerCursor(
+  horizon: HorizonPool,
+  date: Date,
+  signal?: AbortSignal,
+): Promise<string | undefined> {
+  const target = date.getTime();
+  const toPoint = (record: { sequence: number; closed_at: string }) => ({
+    sequence: record.sequence,
+    closedAt: new Date(record.closed_at).getTime(),
+  });
+
+  const [oldest, newest] = await Promise.all(
+    (["asc", "desc"] as const).map((order) =>
+      concurrencyManager.run(() =>
+        requestHorizon(
+          horizon,
+          (server) => server.ledgers().order(order).limit(1).call(),
+          { signal },
+        ),
+      ),
+    ),
+  );
+  let low: LedgerPoint = toPoint(oldest.records[0]);
+  let high: LedgerPoint = toPoint(newest.records[0]);
+
+  if (target > high.closedAt) return undefined;
+
+  if (target > low.closedAt) {
+    for (let i = 0; i < 40 && high.sequence - low.sequence > 1; i++) {
+      const fraction = (target - low.closedAt) / (high.closedAt - low.closedAt);
+      const sequence = Math.min(
+        high.sequence - 1,
+        Math.max(
+          low.sequence + 1,
+          low.sequence + Math.round(fraction * (high.sequence - low.sequence)),
+        ),
+      );
+      const ledger = await concurrencyManager.run(() =>
+        requestHorizon(
+          horizon,
+          (server) => server.ledgers().ledger(sequence).call(),
+          { signal },
+        ),
+      );
+      // `ledger(sequence)` returns a single record, not a page
+      const point = toPoint(
+        ledger as unknown as Horizon.ServerApi.LedgerRecord,
+      );
+      if (point.closedAt >= target) {
+        high = point;
+      } else {
+        low = point;
+      }
+    }
+  }
+
+  return (BigInt(high.sequence) << BigInt(32)).toString();
+}
+
+/**
+ * Pages a Horizon collection newest-first, continuing from
+ * `progress.cursor` (the end of the range, or wherever an earlier run
+ * stopped) until the first record older than `range.start`. `progress` is
+ * updated before each `onPage` call, which gets the page's in-range records
+ * so it can checkpoint just those. Every page
+ * is requested by cursor, so if the pool fails over mid-crawl the next page
+ * comes from the new endpoint without losing our place. Aborting stops
+ * paging and rejects.
+ */
+async function fetchRecordsInRange(
+  horizon: HorizonPool,
+  createBuilder: (server: Horizon.Server) => PagedCallBuilder,
+  range: DateRange,
+  progress: CollectionCheckpoint,
+  onPage: (records: HorizonRecord[]) => void | Promise<void>,
+  signal?: AbortSignal,
+): Promise<HorizonRecord[]> {
+  while (!progress.done) {
+    const cursor = progress.cursor;
+    const response = await concurrencyManager.run(() =>
+      requestHorizon(
+        horizon,
+        (server) => {
+          const builder = createBuilder(server)
+            .order("desc")
+            .limit(PAGE_LIMIT);
+          if (cursor) {
+            builder.cursor(cursor);
+          }
+          return builder.call();
+        },
+        { signal },
+      ),
+    );
+
+    const page = (response.records || []) as HorizonRecord[];
+    if (page.length === 0) {
+      progress.done = true;
+      break;
+    }
+    if (progress.newest === undefined) {
+      progress.newest = String(page[0].paging_token);
+    }
+
+    const reachedStart =
+      new Date(String(page[page.length - 1].created_at)) < range.start;
+    const inRange = page
+      .filter((record) => isInRange(new Date(String(record.created_at)), range))
+      .map(toPlainRecord);
+    progress.records.push(...inRange);
+    progress.cursor = String(page[page.length - 1].paging_token);
+    progress.done = reachedStart || page.length < PAGE_LIMIT;
+
+    await onPage(inRange);
+  }
+
+  return progress.records;
+}
+
+/**
+ * Pages a Horizon collection oldest-first from `cursor`, for a refresh of
+ * an earlier crawl. Stops at the end of the range or of the collection.
+ * Returns the in-range records newest first, like `fetchRecordsInRange`,
+ * and the paging token of the newest record seen.
+ */
+async function fetchRecordsSince(
+  horizon: HorizonPool,
+  createBuilder: (server: Horizon.Server) => PagedCallBuilder,
+  cursor: string,
+  range: DateRange,
+  signal?: AbortSignal,
+): Promise<{ records: HorizonRecord[]; newest: string }> {
+  const records: HorizonRecord[] = [];
+  let newest = cursor;
+
+  for (;;) {
+    const from = newest;
+    const response = await concurrencyManager.run(() =>
+      requestHorizon(
+        horizon,
+        (server) =>
+          createBuilder(server)
+            .order("asc")
+            .limit(PAGE_LIMIT)
+            .cursor(from)
+            .call(),
+        { signal },
+      ),
+    );
+    const page = (response.records || []) as HorizonRecord[];
+    if (page.length === 0) break;
+
+    newest = String(page[page.length - 1].paging_token);
+    records.push(
+      ...page
+        .filter((record) =>
+          isInRange(new Date(String(record.created_at)), range),
+        )
+        .map(toPlainRecord),
+    );
+
+    const pastEnd =
+      new Date(String(page[page.length - 1].created_at)) >= range.end;
+    if (pastEnd || page.length < PAGE_LIMIT) break;
+  }
+
+  return { records: records.reverse(), newest };
+}
+
+function isInRange(date: Date, range: DateRange): boolean {
+  return date >= range.start && date < range.end;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function toIndexedEffect(record: HorizonRecord): IndexedEffect {
+  return {
+    id: String(record.id),
+    type: String(record.type),
+    created_at: String(record.created_at),
+    sold_amount: optionalString(record.sold_amount),
+    sold_asset_type: optionalString(record.sold_asset_type),
+    sold_asset_code: optionalString(record.sold_asset_code),
+    sold_asset_issuer: optionalString(record.sold_asset_issuer),
+    bought_amount: optionalString(record.bought_amount),
+    bought_asset_type: optionalString(record.bought_asset_type),
+    bought_asset_code: optionalString(record.bought_asset_code),
+    bought_asset_issuer: optionalString(record.bought_asset_issuer),
+  };
+}
+
+function toIndexedOperation(record: HorizonRecord): IndexedOperation {
+  const invocation =
+    record.type === "invoke_host_function"
+      ? decodeInvocation(record.parameters as HostFunctionParameter[])
+      : null;
+
+  return {
+    id: String(record.id),
+    type: String(record.type),
+    created_at: String(record.created_at),
+    transaction_hash: String(record.transaction_hash),
+    source_account: optionalString(record.source_account),
+    amount: optionalString(record.amount),
+    asset_type: optionalString(record.asset_type),
+    asset_code: optionalString(record.asset_code),
+    asset_issuer: optionalString(record.asset_issuer),
+    source_amount: optionalString(record.source_amount),
+    source_asset_type: optionalString(record.source_asset_type),
+    source_asset_code: optionalString(record.source_asset_code),
+    source_asset_issuer: optionalString(record.source_asset_issuer),
+    from: optionalString(record.from),
+    to: optionalString(record.to),
+    selling_asset_type: optionalString(record.selling_asset_type),
+    selling_asset_code: optionalString(record.selling_asset_code),
+    selling_asset_issuer: optionalString(record.selling_asset_issuer),
+    buying_asset_type: optionalString(record.buying_asset_type),
+    buying_asset_code: optionalString(record.buying_asset_code),
+    buying_asset_issuer: optionalString(record.buying_asset_issuer),
+    function: optionalString(record.function),
+    contract_id: invocation?.contractId,
+    function_name: invocation?.functionName,
+    args: invocation?.args,
+    liquidity_pool_id: optionalString(record.liquidity_pool_id),
+  };
+}
+
+/**
+ * Groups operations under their transaction and effects under their
+ * operation. Effect paging tokens are `<operationId>-<index>`.
+ */
+function attachOperations(
+  transactionRecords: HorizonRecord[],
+  operationRecords: HorizonRecord[],
+  effectRecords: HorizonRecord[],
+): IndexedTransaction[] {
+  const effectsByOperation = new Map<string, IndexedEffect[]>();
+  effectRecords.forEach((record) => {
+    const operationId = String(record.paging_token).split("-")[0];
+    const effects = effectsByOperation.get(operationId) || [];
+    effects.push(toIndexedEffect(record));
+    effectsByOperation.set(operationId, effects);
+  });
+
+  const operationsByTransaction = new Map<string, IndexedOperation[]>();
+  // Horizon returned these newest-first; restore application order.
+  [...operationRecords].reverse().forEach((record) => {
+    const operation = toIndexedOperation(record);
+    const effects = effectsByOperation.get(operation.id);
+    if (effects) {
+      operation.effects = effects;
+    }
+    const operations =
+      operationsByTransaction.get(operation.transaction_hash) || [];
+    operations.push(operation);
+    operationsByTransaction.set(operation.transaction_hash, operations);
+  });
+
+  return transactionRecords.map((record) => {
+    const hash = String(record.hash);
+    const operations = operationsByTransaction.get(hash) || [];
+    const sourceAccount = optionalString(record.source_account);
+    const feeCharged = optionalString(record.fee_charged);
+
+    let resourceFee: bigint | null = null;
+    if (
+      feeCharged &&
+      operations.some((op) => SOROBAN_OPERATION_TYPES.includes(op.type))
+    ) {
+      resourceFee = resourceFeeCharged(
+        feeCharged,
+        optionalString(record.result_meta_xdr),
+        optionalString(record.envelope_xdr),
+      );
+    }
+
+    // A Soroban transaction holds exactly one operation, so every event in
+    // its meta belongs to that invocation.
+    const invocation = operations.find(
+      (op) => op.type === "invoke_host_function",
+    );
+    if (invocation) {
+      invocation.events = decodeContractEvents(
+        optionalString(record.result_meta_xdr),
+      );
+    }
+
+    return {
+      hash,
+      created_at: String(record.created_at || new Date().toISOString()),
+      memo: record.memo ? String(record.memo) : undefined,
+      source_account: sourceAccount,
+      fee_account: optionalString(record.fee_account) ?? sourceAccount,
+      fee_charged: feeCharged,
+      fee_bump: record.fee_bump_transaction !== undefined,
+      resource_fee_charged: resourceFee?.toString(),
+      operations,
+    };
+  });
+}
+
+/** Reports how much of a step's work is done */
+type ReportProgress = (done: number, total: number) => void;
+
+/**
+ * Runs one step's work, emitting progress as the work reports it and
+ * completion when it returns. Progress is only emitted when the whole
+ * percentage changes, so tight loops can report every item.
+ */
+async function runStep<T>(
   step: IndexingStep,
   emitter: IndexerEventEmitter,
-  workFn: () => T | Promise<T>,
+  workFn: (report: ReportProgress) => T | Promise<T>,
+  signal?: AbortSignal,
 ): Promise<T> {
-  const duration = INDEXING_STEPS[step].estimatedDuration;
-  const startTime = Date.now();
-
-  // Do real work first — keep the dataflow correct
-  const result = await workFn();
-
-  // Animate from ~0 → 95% over remaining duration, then snap to 100%
-  await new Promise<void>((resolve) => {
-    const tickMs = 80; // ~12 fps
-    const interval = setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(95, Math.round((elapsed / duration) * 95));
+  throwIfAborted(signal);
+
+  let lastProgress = -1;
+  const report: ReportProgress = (done, total) => {
+    const progress =
+      total > 0 ? Math.min(100, Math.floor((done / total) * 100)) : 100;
+    if (progress !== lastProgress) {
+      lastProgress = progress;
       emitter.emitStepProgress(step, progress);
+    }
+  };
 
-      if (elapsed >= duration) {
-        clearInterval(interval);
-        resolve();
-      }
-    }, tickMs);
-  });
-
+  const result = await abortable(Promise.resolve(workFn(report)), signal);
   emitter.emitStepComplete(step);
 
   return result;
 }
 
+/**
+ * Share of the range a collection has been paged back through. Paging runs
+ * newest-first, so the oldest record fetched marks how far it got.
+ */
+function rangeCovered(
+  progress: CollectionCheckpoint,
+  range: DateRange,
+): number {
+  if (progress.done) return 1;
+  const oldest = progress.records[progress.records.length - 1];
+  if (!oldest) return 0;
+
+  const span = range.end.getTime() - range.start.getTime();
+  const covered =
+    range.end.getTime() - new Date(String(oldest.created_at)).getTime();
+  return span > 0 ? Math.max(0, Math.min(1, covered / span)) : 0;
+}
+
+/**
+ * Records added since an earlier result was built, attached and merged
+ * into that result's transactions. Collections the earlier crawl found
+ * empty have no cursor and are paged from the start of the range.
+ */
+async function fetchNewerTransactions(
+  horizon: HorizonPool,
+  accountId: string,
+  range: DateRange,
+  previous: IndexerSnapshot,
+  report: ReportProgress,
+  signal?: AbortSignal,
+): Promise<{
+  range: DateRange;
+  allTransactions: IndexedTransaction[];
+  cursors: IndexingCursors;
+}> {
+  let finished = 0;
+  const fetchSince = async (
+    createBuilder: (server: Horizon.Server) => PagedCallBuilder,
+    cursor: string | undefined,
+  ) => {
+    const fetched = cursor
+      ? await fetchRecordsSince(horizon, createBuilder, cursor, range, signal)
+      : await fetchFromRangeStart(horizon, createBuilder, range, signal);
+    report(++finished, 3);
+    return fetched;
+  };
+
+  const [transactions, operations, effects] = await Promise.all([
+    fetchSince(
+      (server) => server.transactions().forAccount(accountId),
+      previous.cursors.transactions,
+    ),
+    fetchSince(
+      (server) => server.operations().forAccount(accountId),
+      previous.cursors.operations,
+    ),
+    fetchSince(
+      (server) => server.effects().forAccount(accountId),
+      previous.cursors.effects,
+    ),
+  ]);
+
+  const known = new Set(previous.transactions.map((tx) => tx.hash));
+  const added = attachOperations(
+    transactions.records,
+    operations.records,
+    effects.records.filter((effect) => effect.type === "trade"),
+  ).filter((tx) => !known.has(tx.hash));
+
+  return {
+    range,
+    allTransactions: [...added, ...previous.transactions],
+    cursors: {
+      transactions: transactions.newest,
+      operations: operations.newest,
+      effects: effects.newest,
+    },
+  };
+}
+
+/** A full crawl of one collection, without checkpointing */
+async function fetchFromRangeStart(
+  horizon: HorizonPool,
+  createBuilder: (server: Horizon.Server) => PagedCallBuilder,
+  range: DateRange,
+  signal?: AbortSignal,
+): Promise<{ records: HorizonRecord[]; newest?: string }> {
+  const progress: CollectionCheckpoint = { records: [], done: false };
+  const records = await fetchRecordsInRange(
+    horizon,
+    createBuilder,
+    range,
+    progress,
+    () => {},
+    signal,
+  );
+  return { records, newest: progress.newest };
+}
+
+/**
+ * Trims a transaction for storage with a cached result. Decoded call
+ * arguments and event payloads can hold bigints, which don't survive JSON,
+ * and no aggregate reads them; events are only counted.
+ */
+function toSnapshotTransaction(tx: IndexedTransaction): IndexedTransaction {
+  return {
+    ...tx,
+    operations: tx.operations.map(({ args: _args, ...op }) => ({
+      ...op,
+      events: op.events?.map(({ contractId }) => ({
+        contractId,
+        topics: [],
+        data: null,
+      })),
+    })),
+  };
+}
+
+export interface IndexAccountOptions {
+  /**
+   * Values volume in a quote asset. Defaults to Horizon trade aggregations
+   * for the network; pass `null` to skip fiat valuation.
+   */
+  priceProvider?: PriceProvider | null;
+  /**
+   * Receives this run's progress events. Defaults to a fresh emitter
+   * nobody listens to.
+   */
+  emitter?: IndexerEventEmitter;
+  /**
+   * Cancels the run: paging stops, timers are cleared, `indexing-cancelled`
+   * is emitted and the returned promise rejects with an `AbortError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Where fetch progress is checkpointed so an interrupted run can resume.
+   * Defaults to files on this server; pass `null` to always crawl from
+   * scratch.
+   */
+  checkpoints?: IndexingCheckpointStore | null;
+  /**
+   * Snapshot of an earlier result for the same account, network and period.
+   * Only records newer than its cursors are fetched, then merged in.
+   */
+  previous?: IndexerSnapshot;
+  /** Horizon endpoints to crawl. Defaults to the network's pool. */
+  horizon?: HorizonPool;
+}
+
+/**
+ * A result, the range it was indexed over and the snapshot a later refresh
+ * can build on; there is no snapshot past `MAX_SNAPSHOT_TRANSACTIONS`
+ */
+export interface IndexedWrap {
+  result: IndexerResult;
+  range: DateRange;
+  snapshot?: IndexerSnapshot;
+}
+
+/**
+ * Loads a fresh checkpoint for this crawl, clearing a stale one. A broken
+ * store never fails the run; it just starts over.
+ */
+async function loadCheckpoint(
+  store: IndexingCheckpointStore | null,
+  key: string,
+): Promise<IndexingCheckpoint | null> {
+  if (!store) return null;
+  try {
+    const checkpoint = await store.get(key);
+    if (checkpoint && !isCheckpointFresh(checkpoint)) {
+      await store.delete(key);
+      return null;
+    }
+    return checkpoint;
+  } catch (error) {
+    console.warn("Failed to load indexing checkpoint:", error);
+    return null;
+  }
+}
+
+/** Runs a checkpoint write, warning instead of failing the run */
+async function saveCheckpoint(save: () => Promise<void>): Promise<void> {
+  try {
+    await save();
+  } catch (error) {
+    console.warn("Failed to save indexing checkpoint:", error);
+  }
+}
+
+/**
+ * A checkpoint for a new crawl, saved to `store`. Ranges ending in the past
+ * start paging from the range end.
+ */
+async function startCheckpoint(
+  horizon: HorizonPool,
+  store: IndexingCheckpointStore | null,
+  key: string,
+  period: WrapPeriod,
+  signal?: AbortSignal,
+): Promise<IndexingCheckpoint> {
+  const checkpoint = createCheckpoint(key, resolvePeriod(period));
+  const { end } = checkpointRange(checkpoint);
+
+  const startCursor =
+    end.getTime() < Date.now()
+      ? await findLedgerCursor(horizon, end, signal)
+      : undefined;
+  if (startCursor) {
+    checkpoint.transactions.cursor = startCursor;
+    checkpoint.operations.cursor = startCursor;
+    // Effect paging tokens are `<operationId>-<index>`
+    checkpoint.effects.cursor = `${startCursor}-0`;
+  }
+
+  if (store) {
+    await saveCheckpoint(() => store.put(checkpoint));
+  }
+  return checkpoint;
+}
+
 export async function indexAccount(
   accountId: string,
-  network: "mainnet" | "testnet" = "mainnet",
+  network: Network = "mainnet",
   period: WrapPeriod = "monthly",
+  options: IndexAccountOptions = {},
 ): Promise<IndexerResult> {
-  const emitter = IndexerEventEmitter.getInstance();
-  const server = getHorizonServer(network);
-  const days = PERIODS[period];
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - days);
+  const { result } = await indexAccountWithSnapshot(
+    accountId,
+    network,
+    period,
+    options,
+  );
+  return result;
+}
+
+/**
+ * `indexAccount`, also returning the snapshot to cache alongside the
+ * result for incremental refreshes.
+ */
+export async function indexAccountWithSnapshot(
+  accountId: string,
+  network: Network = "mainnet",
+  period: WrapPeriod = "monthly",
+  options: IndexAccountOptions = {},
+): Promise<IndexedWrap> {
+  const emitter = options.emitter ?? new IndexerEventEmitter();
+  const { signal } = options;
+  const priceProvider =
+    options.priceProvider === undefined
+      ? createHorizonPriceProvider(network)
+      : options.priceProvider;
+  const horizon = options.horizon ?? getHorizonPool(network);
+  const checkpointStore =
+    options.checkpoints === undefined
+      ? getDefaultCheckpointStore()
+      : options.checkpoints;
+  const checkpointKey = getCheckpointKey(
+    accountId,
+    network,
+    serializePeriod(period),
+  );
 
   let currentEmittedStep: IndexingStep = "initializing";
 
@@ -100,188 +727,253 @@ export async function indexAccount(
     // ── Step 1: Initializing ─────────────────────────────────────────────────
     currentEmittedStep = "initializing";
     emitter.emitStepChange("initializing");
-    await animateStep("initializing", emitter, () => {
-      // Lightweight validation that the server config is ready
-      getHorizonServer(network);
-    });
+    await runStep(
+      "initializing",
+      emitter,
+      async (report) => {
+        // Probe the network's endpoints so the crawl starts on a healthy one
+        await horizon.checkHealth(signal);
+        report(1, 1);
+      },
+      signal,
+    );
 
     // ── Step 2: Fetch transactions ───────────────────────────────────────────
-    // This step has real async work so we drive progress from actual fetch
-    // activity rather than using animateStep (which would double-animate).
+    // Transaction records never include their operations, so operations and
+    // trade effects are paged separately and attached afterwards. Progress is
+    // how far back through the range the three collections have paged.
     currentEmittedStep = "fetching-transactions";
     emitter.emitStepChange("fetching-transactions");
-
-    const allTransactions: unknown[] = [];
-    const fetchDuration =
-      INDEXING_STEPS["fetching-transactions"].estimatedDuration;
-    const fetchStart = Date.now();
-
-    let cursor: string | undefined;
-    let hasMore = true;
-    let pageCount = 0;
-
-    while (hasMore) {
-      const response = await concurrencyManager.run(async () => {
-        const builder = server.transactions().forAccount(accountId).limit(200);
-        if (cursor) {
-          builder.cursor(cursor);
+    const { allTransactions, range, cursors } = await runStep(
+      "fetching-transactions",
+      emitter,
+      async (report) => {
+        // A refresh only needs what happened since the previous result
+        if (options.previous) {
+          return fetchNewerTransactions(
+            horizon,
+            accountId,
+            resolvePeriod(period),
+            options.previous,
+            report,
+            signal,
+          );
         }
-        return builder.call();
-      });
-
-      if (!response.records || response.records.length === 0) {
-        hasMore = false;
-        break;
-      }
-
-      pageCount++;
-      const timeProgress = Math.round(
-        ((Date.now() - fetchStart) / fetchDuration) * 95,
-      );
-      emitter.emitStepProgress(
-        "fetching-transactions",
-        Math.min(95, Math.max(pageCount * 15, timeProgress)),
-      );
-
-      const recordsInRange = response.records.filter((tx) => {
-        const txData = tx as unknown as Record<string, unknown>;
-        return new Date(txData.created_at as string) >= cutoffDate;
-      });
-      allTransactions.push(...recordsInRange);
-
-      if (
-        response.records.some((tx) => {
-          const txData = tx as unknown as Record<string, unknown>;
-          return new Date(txData.created_at as string) < cutoffDate;
-        })
-      ) {
-        hasMore = false;
-        break;
-      }
 
-      const pageResponse = response as unknown as Record<string, unknown>;
-      cursor =
-        pageResponse.paging_token && response.records.length === 200
-          ? String(pageResponse.paging_token)
-          : undefined;
-      if (!cursor) hasMore = false;
-    }
-
-    // Ensure the fetch step is visible for at least `fetchDuration` ms
-    const fetchElapsed = Date.now() - fetchStart;
-    if (fetchElapsed < fetchDuration) {
-      const remaining = fetchDuration - fetchElapsed;
-      const tickMs = 80;
-      await new Promise<void>((resolve) => {
-        let spent = 0;
-        const interval = setInterval(() => {
-          spent += tickMs;
-          const progress = Math.min(
-            95,
-            Math.round(((fetchElapsed + spent) / fetchDuration) * 95),
+        // Resume an interrupted crawl of the same range, or start a new one
+        const checkpoint =
+          (await loadCheckpoint(checkpointStore, checkpointKey)) ??
+          (await startCheckpoint(
+            horizon,
+            checkpointStore,
+            checkpointKey,
+            period,
+            signal,
+          ));
+        const range = checkpointRange(checkpoint);
+        const collections = [
+          checkpoint.transactions,
+          checkpoint.operations,
+          checkpoint.effects,
+        ];
+
+        const reportCovered = () =>
+          report(
+            collections.reduce(
+              (sum, progress) => sum + rangeCovered(progress, range),
+              0,
+            ),
+            collections.length,
           );
-          emitter.emitStepProgress("fetching-transactions", progress);
-          if (spent >= remaining) {
-            clearInterval(interval);
-            resolve();
-          }
-        }, tickMs);
-      });
-    }
-    emitter.emitStepProgress("fetching-transactions", 100);
-    emitter.emitStepComplete("fetching-transactions");
+        // A resumed crawl starts from the progress it had already made
+        reportCovered();
+
+        const onPage =
+          (collection: CheckpointCollection) =>
+          async (records: HorizonRecord[]) => {
+            if (checkpointStore) {
+              checkpoint.updatedAt = Date.now();
+              await saveCheckpoint(() =>
+                checkpointStore.append(checkpoint, collection, records),
+              );
+            }
+            reportCovered();
+          };
+
+        const [transactionRecords, operationRecords, effectRecords] =
+          await Promise.all([
+            fetchRecordsInRange(
+              horizon,
+              (server) => server.transactions().forAccount(accountId),
+              range,
+              checkpoint.transactions,
+              onPage("transactions"),
+              signal,
+            ),
+            fetchRecordsInRange(
+              horizon,
+              (server) => server.operations().forAccount(accountId),
+              range,
+              checkpoint.operations,
+              onPage("operations"),
+              signal,
+            ),
+            fetchRecordsInRange(
+              horizon,
+              (server) => server.effects().forAccount(accountId),
+              range,
+              checkpoint.effects,
+              onPage("effects"),
+              signal,
+            ),
+          ]);
+
+        return {
+          range,
+          allTransactions: attachOperations(
+            transactionRecords,
+            operationRecords,
+            effectRecords.filter((effect) => effect.type === "trade"),
+          ),
+          cursors: {
+            transactions: checkpoint.transactions.newest,
+            operations: checkpoint.operations.newest,
+            effects: checkpoint.effects.newest,
+          },
+        };
+      },
+      signal,
+    );
 
     // ── Step 3: Filter timeframes ────────────────────────────────────────────
     currentEmittedStep = "filtering-timeframes";
     emitter.emitStepChange("filtering-timeframes");
-    const filteredTransactions = await animateStep(
+    const filteredTransactions = await runStep(
       "filtering-timeframes",
       emitter,
-      () =>
-        allTransactions.filter((tx) => {
-          const txData = tx as unknown as Record<string, unknown>;
-          return new Date(txData.created_at as string) >= cutoffDate;
+      (report) =>
+        allTransactions.filter((tx, index) => {
+          report(index + 1, allTransactions.length);
+          return isInRange(new Date(tx.created_at), range);
         }),
+      signal,
     );
 
     // ── Step 4: Calculate volume ─────────────────────────────────────────────
     currentEmittedStep = "calculating-volume";
     emitter.emitStepChange("calculating-volume");
-    await animateStep("calculating-volume", emitter, () => {
-      filteredTransactions.forEach((tx) => {
-        const txData = tx as Record<string, unknown>;
-        (Array.isArray(txData.operations) ? txData.operations : []).forEach(
-          (op) => {
-            const opData = op as Record<string, unknown>;
-            if (opData.type === "payment" && opData.amount) {
-              parseFloat(String(opData.amount));
-            }
-          },
-        );
-      });
-    });
+    const fiatVolume = await runStep(
+      "calculating-volume",
+      emitter,
+      async (report) => {
+        if (!priceProvider) return null;
+        try {
+          return await valueVolume(
+            collectVolumeEntries(filteredTransactions),
+            priceProvider,
+            report,
+          );
+        } catch (error) {
+          // Prices are a nice-to-have; never fail the wrap over them
+          console.warn("Fiat valuation failed:", error);
+          return null;
+        }
+      },
+      signal,
+    );
 
     // ── Step 5: Identify assets ──────────────────────────────────────────────
     currentEmittedStep = "identifying-assets";
     emitter.emitStepChange("identifying-assets");
-    const assetMap = await animateStep("identifying-assets", emitter, () => {
-      const map = new Map<string, number>();
-      filteredTransactions.forEach((tx) => {
-        const txData = tx as Record<string, unknown>;
-        (Array.isArray(txData.operations) ? txData.operations : []).forEach(
-          (op) => {
-            const opData = op as Record<string, unknown>;
-            if (opData.type === "payment") {
-              const key = String(opData.asset_code || "native");
+    const assetMap = await runStep(
+      "identifying-assets",
+      emitter,
+      (report) => {
+        const map = new Map<string, number>();
+        filteredTransactions.forEach((tx, index) => {
+          tx.operations.forEach((op) => {
+            if (op.type === "payment") {
+              const key = op.asset_code || "native";
               map.set(key, (map.get(key) || 0) + 1);
             }
-          },
-        );
-      });
-      return map;
-    });
+          });
+          report(index + 1, filteredTransactions.length);
+        });
+        return map;
+      },
+      signal,
+    );
 
     // ── Step 6: Count contracts ──────────────────────────────────────────────
     currentEmittedStep = "counting-contracts";
     emitter.emitStepChange("counting-contracts");
-    await animateStep("counting-contracts", emitter, () =>
-      filteredTransactions.reduce((count: number, tx) => {
-        const txData = tx as Record<string, unknown>;
-        return (
-          count +
-          (Array.isArray(txData.operations) ? txData.operations : []).filter(
-            (op) =>
-              (op as Record<string, unknown>).type === "invoke_host_function",
-          ).length
-        );
-      }, 0),
+    await runStep(
+      "counting-contracts",
+      emitter,
+      (report) =>
+        filteredTransactions.reduce((count, tx, index) => {
+          report(index + 1, filteredTransactions.length);
+          return (
+            count +
+            tx.operations.filter((op) => op.type === "invoke_host_function")
+              .length
+          );
+        }, 0),
+      signal,
     );
 
     // ── Step 7: Finalize ─────────────────────────────────────────────────────
     currentEmittedStep = "finalizing";
     emitter.emitStepChange("finalizing");
-    const result = await animateStep("finalizing", emitter, () => {
-      const typedTransactions = allTransactions.map((tx) => {
-        const txData = tx as Record<string, unknown>;
-        return {
-          created_at: String(txData.created_at || new Date().toISOString()),
-          memo: txData.memo ? String(txData.memo) : undefined,
-          operations: Array.isArray(txData.operations) ? txData.operations : [],
-        };
+    const result = await runStep(
+      "finalizing",
+      emitter,
+      (report) => {
+        const r = calculateAchievements(
+          filteredTransactions,
+          accountId,
+          network,
+        );
+        r.fiatVolume = fiatVolume;
+        void assetMap; // consumed by achievementCalculator indirectly
+        report(1, 1);
+        return r;
+      },
+      signal,
+    );
+
+    // The crawl is complete; the next run should fetch fresh data
+    if (checkpointStore) {
+      await checkpointStore.delete(checkpointKey).catch((error) => {
+        console.warn("Failed to clear indexing checkpoint:", error);
       });
-      const r = calculateAchievements(typedTransactions);
-      r.accountId = accountId;
-      void assetMap; // consumed by achievementCalculator indirectly
-      return r;
-    });
+    }
 
     emitter.emitIndexingComplete(result);
-    return result;
+    return {
+      result,
+      range,
+      snapshot:
+        filteredTransactions.length <= MAX_SNAPSHOT_TRANSACTIONS
+          ? {
+              cursors,
+              transactions: filteredTransactions.map(toSnapshotTransaction),
+            }
+          : undefined,
+    };
   } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      emitter.emitIndexingCancelled();
+      throw error;
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error during indexing";
     console.error(`Error indexing account ${accountId}:`, error);
-    emitter.emitStepError(currentEmittedStep, errorMessage, true);
+    emitter.emitStepError(
+      currentEmittedStep,
+      errorMessage,
+      isRetryableHorizonError(error),
+    );
     throw error;
   }
 }
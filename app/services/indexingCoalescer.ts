@@ -0,0 +1,139 @@
+/**
+ * In-flight request coalescing
+ * Concurrent requests for the same wrap (same `getCacheKey`) share one
+ * indexing run and its progress events instead of each crawling Horizon
+ */
+
+import {
+  INDEXER_EVENT_TYPES,
+  IndexerEvent,
+  IndexerEventEmitter,
+} from "@/app/utils/indexerEventEmitter";
+import { abortable } from "@/app/utils/abort";
+
+type EventListener = (event: IndexerEvent) => void;
+
+interface InFlightRun<T = unknown> {
+  emitter: IndexerEventEmitter;
+  controller: AbortController;
+  promise: Promise<T>;
+  /** Events so far, replayed to callers that join late */
+  history: IndexerEvent[];
+  listeners: Set<EventListener>;
+  /** Callers still waiting on the result */
+  waiting: number;
+}
+
+const inFlight = new Map<string, InFlightRun>();
+
+export interface CoalesceOptions {
+  /** Stops waiting for this caller; the run is cancelled once none wait */
+  signal?: AbortSignal;
+  /** Receives every event of the shared run, past ones first */
+  onEvent?: EventListener;
+}
+
+/**
+ * Replaying every progress tick to a late joiner is pointless; only the
+ * latest progress of each step is kept.
+ */
+function record(history: IndexerEvent[], event: IndexerEvent): void {
+  if (event.type === "step-progress") {
+    const previous = history.findIndex(
+      (past) => past.type === "step-progress" && past.step === event.step,
+    );
+    if (previous !== -1) history.splice(previous, 1);
+  }
+  history.push(event);
+}
+
+/**
+ * Runs `start` for `key`, or joins the run already in flight for it. The
+ * run gets its own emitter and an abort signal that fires only when every
+ * caller has given up, so one client disconnecting doesn't cancel the
+ * crawl for the others.
+ */
+export function coalesceIndexing<T>(
+  key: string,
+  start: (emitter: IndexerEventEmitter, signal: AbortSignal) => Promise<T>,
+  options: CoalesceOptions = {},
+): Promise<T> {
+  const { signal, onEvent } = options;
+  // Every caller of a key runs the same kind of start, so the run's
+  // result has this caller's type
+  let run = inFlight.get(key) as InFlightRun<T> | undefined;
+
+  if (!run) {
+    const emitter = new IndexerEventEmitter();
+    const controller = new AbortController();
+    const history: IndexerEvent[] = [];
+    const listeners = new Set<EventListener>();
+    INDEXER_EVENT_TYPES.forEach((type) =>
+      emitter.on(type, (event: IndexerEvent) => {
+        record(history, event);
+        // Listeners run inside the indexer's emit calls; one that throws
+        // (e.g. a stream whose client is gone) mustn't fail the shared run
+        listeners.forEach((listener) => {
+          try {
+            listener(event);
+          } catch (error) {
+            console.warn("Dropping an indexing event listener:", error);
+            listeners.delete(listener);
+          }
+        });
+      }),
+    );
+
+    const created: InFlightRun<T> = {
+      emitter,
+      controller,
+      history,
+      listeners,
+      waiting: 0,
+      promise: Promise.resolve().then(() =>
+        start(emitter, controller.signal),
+      ),
+    };
+    created.promise
+      .finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+        emitter.removeAllListeners();
+      })
+      .catch(() => {
+        // Callers handle the failure; this chain only cleans up
+      });
+    inFlight.set(key, created);
+    run = created;
+  }
+
+  const joined = run;
+  joined.waiting++;
+  if (onEvent) {
+    joined.history.forEach(onEvent);
+    joined.listeners.add(onEvent);
+  }
+
+  let left = false;
+  const leave = () => {
+    if (left) return;
+    left = true;
+    if (onEvent) joined.listeners.delete(onEvent);
+    joined.waiting--;
+    if (joined.waiting === 0 && inFlight.get(key) === joined) {
+      // Nobody is waiting any more; a new request starts afresh
+      inFlight.delete(key);
+      joined.controller.abort();
+    }
+  };
+  signal?.addEventListener("abort", leave, { once: true });
+
+  return abortable(joined.promise, signal).finally(() => {
+    signal?.removeEventListener("abort", leave);
+    leave();
+  });
+}
+
+/** Number of runs currently in flight */
+export function getInFlightCount(): number {
+  return inFlight.size;
+}
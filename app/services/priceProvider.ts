@@ -0,0 +1,215 @@
+/**
+ * Historical price providers
+ * Daily prices used to value volume in a quote asset (USD by default)
+ */
+
+import { Asset, Horizon } from "@stellar/stellar-sdk";
+import { HorizonPool, getHorizonPool } from "@/app/utils/stellarClient";
+import { NATIVE_ASSET_KEY, parseAssetKey } from "@/app/utils/amounts";
+import type { Network } from "@/src/config";
+import { requestHorizon } from "./horizonClient";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGGREGATION_PAGE_LIMIT = 200;
+
+/** UTC day (`YYYY-MM-DD`) → price of one unit in the quote asset */
+export type DailyPrices = Map<string, number>;
+
+export interface PriceProvider {
+  /** Asset key prices are denominated in, e.g. `USDC:GA5Z…` */
+  readonly quoteAsset: string;
+  /** Display label for the quote, e.g. "USD" */
+  readonly quoteLabel: string;
+  /**
+   * Daily closing prices for `asset` between `from` and `to` (inclusive).
+   * Days without trades are simply absent.
+   */
+  getDailyPrices(asset: string, from: Date, to: Date): Promise<DailyPrices>;
+}
+
+/**
+ * Default quote asset per network: Circle's USDC. Networks without one
+ * skip fiat valuation unless a quote asset is configured.
+ */
+export const DEFAULT_QUOTE_ASSETS: Partial<Record<Network, string>> = {
+  mainnet: "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+  testnet: "USDC:GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5",
+};
+
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+}
+
+// ─── Static fixture adapter ─────────────────────────────────────────────────
+
+/**
+ * Shape of a static price file: `prices[assetKey][YYYY-MM-DD] = price`.
+ */
+export interface PriceFixture {
+  quoteAsset: string;
+  quoteLabel: string;
+  prices: Record<string, Record<string, number>>;
+}
+
+/**
+ * Serves prices from a JSON fixture. Used by tests and for offline work.
+ */
+export class StaticPriceProvider implements PriceProvider {
+  readonly quoteAsset: string;
+  readonly quoteLabel: string;
+  private prices: PriceFixture["prices"];
+
+  constructor(fixture: PriceFixture) {
+    this.quoteAsset = fixture.quoteAsset;
+    this.quoteLabel = fixture.quoteLabel;
+    this.prices = fixture.prices;
+  }
+
+  async getDailyPrices(
+    asset: string,
+    from: Date,
+    to: Date,
+  ): Promise<DailyPrices> {
+    const fromDay = dayKey(from);
+    const toDay = dayKey(to);
+    const result: DailyPrices = new Map();
+    Object.entries(this.prices[asset] ?? {}).forEach(([day, price]) => {
+      if (day >= fromDay && day <= toDay) {
+        result.set(day, price);
+      }
+    });
+    return result;
+  }
+}
+
+// ─── Horizon trade aggregation adapter ──────────────────────────────────────
+
+function toSdkAsset(key: string): Asset {
+  if (key === NATIVE_ASSET_KEY) {
+    return Asset.native();
+  }
+  const { code, issuer } = parseAssetKey(key);
+  return new Asset(code, issuer);
+}
+
+/**
+ * Prices from Horizon's `trade_aggregations` endpoint at daily resolution,
+ * using each day's close. Assets without a direct market against the quote
+ * are priced through XLM.
+ */
+export class HorizonPriceProvider implements PriceProvider {
+  private cache = new Map<string, Promise<DailyPrices>>();
+
+  constructor(
+    private horizon: Horizon.Server | HorizonPool,
+    readonly quoteAsset: string,
+    readonly quoteLabel = "USD",
+  ) {}
+
+  async getDailyPrices(
+    asset: string,
+    from: Date,
+    to: Date,
+  ): Promise<DailyPrices> {
+    const direct = await this.getPair(asset, this.quoteAsset, from, to);
+    if (direct.size > 0 || asset === NATIVE_ASSET_KEY) {
+      return direct;
+    }
+
+    const [inXlm, xlmInQuote] = await Promise.all([
+      this.getPair(asset, NATIVE_ASSET_KEY, from, to),
+      this.getPair(NATIVE_ASSET_KEY, this.quoteAsset, from, to),
+    ]);
+    const crossed: DailyPrices = new Map();
+    inXlm.forEach((price, day) => {
+      const xlmPrice = xlmInQuote.get(day);
+      if (xlmPrice !== undefined) {
+        crossed.set(day, price * xlmPrice);
+      }
+    });
+    return crossed;
+  }
+
+  private getPair(
+    base: string,
+    counter: string,
+    from: Date,
+    to: Date,
+  ): Promise<DailyPrices> {
+    const startTime = startOfUtcDay(from);
+    const endTime = startOfUtcDay(to) + DAY_MS;
+    const cacheKey = `${base}/${counter}/${startTime}/${endTime}`;
+
+    let pending = this.cache.get(cacheKey);
+    if (!pending) {
+      pending = this.fetchPair(base, counter, startTime, endTime);
+      this.cache.set(cacheKey, pending);
+    }
+    return pending;
+  }
+
+  private async fetchPair(
+    base: string,
+    counter: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<DailyPrices> {
+    const prices: DailyPrices = new Map();
+    // Pages are requested by start time rather than through `next()`, whose
+    // links are pinned to whichever endpoint served the previous page
+    let pageStart = startTime;
+
+    while (pageStart < endTime) {
+      const from = pageStart;
+      const page = await requestHorizon(this.horizon, (server) =>
+        server
+          .tradeAggregation(
+            toSdkAsset(base),
+            toSdkAsset(counter),
+            from,
+            endTime,
+            DAY_MS,
+            0,
+          )
+          .limit(AGGREGATION_PAGE_LIMIT)
+          .call(),
+      );
+
+      page.records.forEach((record) => {
+        const close = parseFloat(record.close);
+        if (Number.isFinite(close) && close > 0) {
+          prices.set(dayKey(new Date(Number(record.timestamp))), close);
+        }
+      });
+      if (page.records.length < AGGREGATION_PAGE_LIMIT) break;
+      pageStart =
+        Number(page.records[page.records.length - 1].timestamp) + DAY_MS;
+    }
+
+    return prices;
+  }
+}
+
+/**
+ * Builds the default provider for a network. The quote asset can be
+ * overridden with `NEXT_PUBLIC_PRICE_QUOTE_ASSET` (`CODE:ISSUER`) and its
+ * label with `NEXT_PUBLIC_PRICE_QUOTE_LABEL`. Returns null when the network
+ * has no quote asset.
+ */
+export function createHorizonPriceProvider(
+  network: Network,
+): PriceProvider | null {
+  const quoteAsset =
+    process.env.NEXT_PUBLIC_PRICE_QUOTE_ASSET || DEFAULT_QUOTE_ASSETS[network];
+  if (!quoteAsset) return null;
+
+  return new HorizonPriceProvider(
+    getHorizonPool(network),
+    quoteAsset,
+    process.env.NEXT_PUBLIC_PRICE_QUOTE_LABEL || "USD",
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Soroban invocation decoder
+ * Turns Horizon's host function parameters and transaction meta into
+ * contract IDs, function names, native arguments and contract events
+ */
+
+import { Address, xdr } from "@stellar/stellar-sdk";
+import { fromScVal } from "@/src/utils/sorobanConverter";
+import type { IndexedContractEvent } from "@/app/utils/indexer";
+
+/** Horizon's encoding of one host function parameter */
+export interface HostFunctionParameter {
+  /** ScVal type name, e.g. `Address`, `Sym`, `U64` */
+  type: string;
+  /** Base64 XDR of the ScVal */
+  value: string;
+}
+
+export interface DecodedInvocation {
+  contractId: string;
+  functionName: string;
+  args: unknown[];
+}
+
+function decodeScVal(value: string): xdr.ScVal {
+  return xdr.ScVal.fromXDR(value, "base64");
+}
+
+/**
+ * Decodes an `invoke_host_function` operation's parameters. A contract
+ * call lists the contract address, then the function symbol, then its
+ * arguments. Other host functions (uploads, deployments) return null.
+ */
+export function decodeInvocation(
+  parameters: HostFunctionParameter[] | undefined,
+): DecodedInvocation | null {
+  if (!parameters || parameters.length < 2) return null;
+  const [address, symbol, ...args] = parameters;
+  if (address.type !== "Address" || symbol.type !== "Sym") return null;
+
+  try {
+    return {
+      contractId: Address.fromScVal(decodeScVal(address.value)).toString(),
+      functionName: decodeScVal(symbol.value).sym().toString(),
+      args: args.map((arg) => fromScVal(decodeScVal(arg.value))),
+    };
+  } catch (error) {
+    console.warn("Failed to decode host function parameters:", error);
+    return null;
+  }
+}
+
+/**
+ * Contract events emitted by a Soroban transaction's operations, from its
+ * result meta: `sorobanMeta` in v3, each operation's meta in v4 (Protocol
+ * 23 onwards). v4's transaction-level events are the fees the network
+ * charged and refunded, not the contract's, so they're left out.
+ * Diagnostic and system events are skipped. Meta versions newer than the
+ * SDK understands yield no events rather than failing the index.
+ */
+export function decodeContractEvents(
+  resultMetaXdr: string | undefined,
+): IndexedContractEvent[] {
+  if (!resultMetaXdr) return [];
+
+  let events: xdr.ContractEvent[];
+  try {
+    const meta = xdr.TransactionMeta.fromXDR(resultMetaXdr, "base64");
+    switch (meta.switch()) {
+      case 3:
+        events = meta.v3().sorobanMeta()?.events() ?? [];
+        break;
+      case 4:
+        events = meta
+          .v4()
+          .operations()
+          .flatMap((operation) => operation.events());
+        break;
+      default:
+        return [];
+    }
+  } catch {
+    return [];
+  }
+
+  return events
+    .filter((event) => event.type() === xdr.ContractEventType.contract())
+    .map((event) => {
+      const contractId = event.contractId();
+      const body = event.body().v0();
+      return {
+        contractId: contractId
+          ? Address.fromScAddress(
+              xdr.ScAddress.scAddressTypeContract(contractId),
+            ).toString()
+          : undefined,
+        topics: body.topics().map(fromScVal),
+        data: fromScVal(body.data()),
+      };
+    });
+}
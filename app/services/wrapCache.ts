@@ -0,0 +1,412 @@
+/**
+ * Server-side wrap cache
+ * Indexer results keyed by `getCacheKey`, behind a pluggable backend
+ * (in-memory LRU, filesystem, or Redis-compatible), with TTLs that depend
+ * on whether the wrapped range is still open. Expired results are kept a
+ * while longer with their snapshot, so they can be refreshed incrementally.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  IndexerResult,
+  IndexerSnapshot,
+  WrapPeriod,
+} from "@/app/utils/indexer";
+import { resolvePeriod, type DateRange } from "@/app/utils/periods";
+import { DAPP_REGISTRY } from "./dappRegistry";
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_OPEN_TTL_MS = 5 * MINUTE_MS;
+const DEFAULT_CLOSED_TTL_MS = 7 * 24 * 60 * MINUTE_MS;
+const DEFAULT_RETAIN_MS = 30 * 24 * 60 * MINUTE_MS;
+/** A range that only just ended may still be missing its last ledgers */
+const SETTLE_MS = 10 * MINUTE_MS;
+const DEFAULT_MEMORY_ENTRIES = 500;
+const KEY_PREFIX = "stellar-wrap:";
+
+export interface CacheEntry {
+  result: IndexerResult;
+  /** When the result was indexed */
+  timestamp: number;
+  /** After this the result is only a base for an incremental refresh */
+  freshUntil: number;
+  snapshot?: IndexerSnapshot;
+  /** Epoch ms range the result covers; missing on older entries */
+  range?: { start: number; end: number };
+}
+
+/**
+ * Storage for cache entries. Backends own expiry: `get` never returns an
+ * entry older than the TTL it was stored with. That TTL includes the
+ * retention period, so backends return stale entries too.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface StoredEntry {
+  entry: CacheEntry;
+  expiresAt: number;
+}
+
+// ─── Backends ─────────────────────────────────────────────────────────────────
+
+/**
+ * Per-process LRU. Lost on every cold start, so best for development or as
+ * a fallback; entries beyond `maxEntries` evict the least recently read.
+ */
+export function createMemoryCacheBackend(
+  maxEntries = DEFAULT_MEMORY_ENTRIES,
+  now: () => number = Date.now,
+): CacheBackend {
+  const entries = new Map<string, StoredEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      entries.delete(key);
+      if (stored.expiresAt <= now()) return undefined;
+      // Re-inserting moves the key to the most recently used end
+      entries.set(key, stored);
+      return stored.entry;
+    },
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * One JSON file per entry under `directory`. Survives restarts of a
+ * long-lived server, or shares a cache between processes on one volume.
+ */
+export function createFileCacheBackend(
+  directory: string,
+  now: () => number = Date.now,
+): CacheBackend {
+  // Keys contain colons and period strings; hash them into safe file names
+  const fileFor = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`,
+    );
+
+  return {
+    name: "file",
+    async get(key) {
+      let stored: StoredEntry;
+      try {
+        stored = JSON.parse(await fs.readFile(fileFor(key), "utf8"));
+      } catch {
+        return undefined;
+      }
+      if (stored.expiresAt <= now()) {
+        await fs.rm(fileFor(key), { force: true });
+        return undefined;
+      }
+      return stored.entry;
+    },
+    async set(key, entry, ttlMs) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(key);
+      const stored: StoredEntry = { entry, expiresAt: now() + ttlMs };
+      // Write then rename, so readers never see a half-written file
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(stored));
+      await fs.rename(temp, file);
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/** Runs one Redis command, e.g. `["SET", key, value, "PX", "300000"]` */
+export type RedisCommand = (args: string[]) => Promise<unknown>;
+
+/**
+ * Any Redis-compatible store, through a function that runs raw commands.
+ * node-redis (`client.sendCommand(args)`), ioredis
+ * (`client.call(...args)`) and REST services (`redisRestCommand`) all fit.
+ */
+export function createRedisCacheBackend(command: RedisCommand): CacheBackend {
+  return {
+    name: "redis",
+    async get(key) {
+      const value = await command(["GET", KEY_PREFIX + key]);
+      return typeof value === "string"
+        ? (JSON.parse(value) as CacheEntry)
+        : undefined;
+    },
+    async set(key, entry, ttlMs) {
+      await command([
+        "SET",
+        KEY_PREFIX + key,
+        JSON.stringify(entry),
+        "PX",
+        String(Math.max(1, Math.round(ttlMs))),
+      ]);
+    },
+    async delete(key) {
+      await command(["DEL", KEY_PREFIX + key]);
+    },
+  };
+}
+
+/**
+ * Commands over a Redis REST API (Upstash and compatible services): the
+ * command is POSTed as a JSON array and the reply comes back as `result`.
+ */
+export function redisRestCommand(url: string, token: string): RedisCommand {
+  return async (args) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+    const body = (await response.json()) as {
+      result?: unknown;
+      error?: string;
+    };
+    if (!response.ok || body.error) {
+      const reason = body.error ?? response.status;
+      throw new Error(`Redis ${args[0]} failed: ${reason}`);
+    }
+    return body.result;
+  };
+}
+
+// ─── TTLs ─────────────────────────────────────────────────────────────────────
+
+/** `monthly`, `yearly`, … for rolling periods; `year`, `custom`, … otherwise */
+type PeriodKind =
+  | Extract<WrapPeriod, string>
+  | Exclude<WrapPeriod, string>["type"];
+
+export interface CacheTtlPolicy {
+  /** Ranges that run up to now (or ended moments ago): the result changes */
+  open: number;
+  /** Ranges entirely in the past: the ledger history behind them is final */
+  closed: number;
+  /** Fixed TTLs for particular kinds of period, open or not */
+  byPeriod?: Partial<Record<PeriodKind, number>>;
+  /** How long an expired result is kept as a base for refreshing it */
+  retain?: number;
+}
+
+export const DEFAULT_TTL_POLICY: CacheTtlPolicy = {
+  open: DEFAULT_OPEN_TTL_MS,
+  closed: DEFAULT_CLOSED_TTL_MS,
+  retain: DEFAULT_RETAIN_MS,
+};
+
+export function getCacheTtl(
+  period: WrapPeriod,
+  policy: CacheTtlPolicy = DEFAULT_TTL_POLICY,
+  now = Date.now(),
+): number {
+  const kind: PeriodKind = typeof period === "string" ? period : period.type;
+  const fixed = policy.byPeriod?.[kind];
+  if (fixed !== undefined) return fixed;
+
+  const { end } = resolvePeriod(period, new Date(now));
+  return end.getTime() + SETTLE_MS <= now ? policy.closed : policy.open;
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+export interface CacheMetrics {
+  backend: string;
+  hits: number;
+  misses: number;
+  writes: number;
+  /** Backend failures; each one was served as a miss or skipped write */
+  errors: number;
+  /** hits / (hits + misses), or 0 before any lookup */
+  hitRate: number;
+}
+
+/**
+ * The cache the wrapped API routes read through. A failing backend never
+ * fails a request: reads fall back to a miss and writes are dropped.
+ * Results attribute operations to dapps, so entries are stored under the
+ * dapp registry version and a registry update misses every older entry.
+ */
+export class WrapCache {
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private errors = 0;
+
+  constructor(
+    private readonly backend: CacheBackend,
+    private readonly policy: CacheTtlPolicy = DEFAULT_TTL_POLICY,
+    private readonly registryVersion = DAPP_REGISTRY.version,
+  ) {}
+
+  /** A result that is still fresh */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.read(key);
+    if (entry && entry.freshUntil > Date.now()) {
+      this.hits++;
+      return entry;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /** Any result still retained, fresh or not, to refresh from */
+  async getStale(key: string): Promise<CacheEntry | undefined> {
+    return this.read(key);
+  }
+
+  /** Stores a result; the entry is returned even if the write failed */
+  async set(
+    key: string,
+    result: IndexerResult,
+    period: WrapPeriod,
+    snapshot?: IndexerSnapshot,
+    range?: DateRange,
+  ): Promise<CacheEntry> {
+    const now = Date.now();
+    const ttl = getCacheTtl(period, this.policy, now);
+    const entry: CacheEntry = {
+      result,
+      timestamp: now,
+      freshUntil: now + ttl,
+      snapshot,
+      range: range && {
+        start: range.start.getTime(),
+        end: range.end.getTime(),
+      },
+    };
+    try {
+      await this.backend.set(
+        this.storageKey(key),
+        entry,
+        ttl + (this.policy.retain ?? DEFAULT_RETAIN_MS),
+      );
+      this.writes++;
+    } catch (error) {
+      this.errors++;
+      console.warn(`Wrap cache write failed (${this.backend.name}):`, error);
+    }
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(this.storageKey(key));
+    } catch (error) {
+      this.errors++;
+      console.warn(`Wrap cache delete failed (${this.backend.name}):`, error);
+    }
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.backend.get(this.storageKey(key));
+    } catch (error) {
+      this.errors++;
+      console.warn(`Wrap cache read failed (${this.backend.name}):`, error);
+      return undefined;
+    }
+  }
+
+  private storageKey(key: string): string {
+    return `${key}:dapps-v${this.registryVersion}`;
+  }
+
+  getMetrics(): CacheMetrics {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.backend.name,
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      errors: this.errors,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
+
+function secondsFromEnv(value: string | undefined): number | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : undefined;
+}
+
+/**
+ * Picks the backend from the environment:
+ * - `WRAP_CACHE_BACKEND`: `memory`, `file` or `redis`. Defaults to `redis`
+ *   when a Redis URL is set, otherwise `memory`.
+ * - `WRAP_CACHE_DIR`: directory for the `file` backend
+ * - `WRAP_CACHE_REDIS_URL` / `WRAP_CACHE_REDIS_TOKEN`: Redis REST endpoint
+ * - `WRAP_CACHE_MAX_ENTRIES`: size of the `memory` backend
+ * - `WRAP_CACHE_OPEN_TTL_SECONDS` / `WRAP_CACHE_CLOSED_TTL_SECONDS`
+ * - `WRAP_CACHE_RETAIN_SECONDS`: how long expired results are kept
+ */
+function createWrapCacheFromEnv(): WrapCache {
+  const env = process.env;
+  const redisUrl = env.WRAP_CACHE_REDIS_URL;
+  const kind = env.WRAP_CACHE_BACKEND || (redisUrl ? "redis" : "memory");
+
+  let backend: CacheBackend;
+  if (kind === "redis" && redisUrl) {
+    backend = createRedisCacheBackend(
+      redisRestCommand(redisUrl, env.WRAP_CACHE_REDIS_TOKEN || ""),
+    );
+  } else if (kind === "file") {
+    backend = createFileCacheBackend(
+      env.WRAP_CACHE_DIR || path.join(process.cwd(), ".cache", "wraps"),
+    );
+  } else {
+    if (kind !== "memory") {
+      console.warn(`Unusable WRAP_CACHE_BACKEND "${kind}", using memory`);
+    }
+    backend = createMemoryCacheBackend(
+      Number(env.WRAP_CACHE_MAX_ENTRIES) || DEFAULT_MEMORY_ENTRIES,
+    );
+  }
+
+  return new WrapCache(backend, {
+    open:
+      secondsFromEnv(env.WRAP_CACHE_OPEN_TTL_SECONDS) ??
+      DEFAULT_TTL_POLICY.open,
+    closed:
+      secondsFromEnv(env.WRAP_CACHE_CLOSED_TTL_SECONDS) ??
+      DEFAULT_TTL_POLICY.closed,
+    retain:
+      secondsFromEnv(env.WRAP_CACHE_RETAIN_SECONDS) ??
+      DEFAULT_TTL_POLICY.retain,
+  });
+}
+
+let wrapCache: WrapCache | null = null;
+
+export function getWrapCache(): WrapCache {
+  if (!wrapCache) {
+    wrapCache = createWrapCacheFromEnv();
+  }
+  return wrapCache;
+}
@@ -0,0 +1,240 @@
+/**
+ * Read-only Stellar Wrapped contract client
+ * Simulates the contract's view functions on Soroban RPC, which costs
+ * nothing and needs no signature, and finds the transactions that minted
+ * each wrap on Horizon
+ */
+
+import {
+  Account,
+  BASE_FEE,
+  Contract,
+  TransactionBuilder,
+  rpc,
+  xdr,
+} from "@stellar/stellar-sdk";
+import {
+  addressToScVal,
+  fromScVal,
+  isConversionError,
+  toScVal,
+  type ConversionResult,
+} from "@/src/utils/sorobanConverter";
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_NETWORK,
+  Network,
+  getNetworkConfig,
+  isValidNetwork,
+} from "@/src/config";
+import { decodeAttestedStats } from "@/app/utils/statsAttestation";
+import { HorizonPool, getHorizonPool } from "@/app/utils/stellarClient";
+import { requestHorizon } from "./horizonClient";
+import { HostFunctionParameter, decodeInvocation } from "./sorobanDecoder";
+
+/** A soulbound wrap as the contract stores it */
+export interface MintedWrap {
+  owner: string;
+  /** Serialized period the wrap covers, the mint's `timeframe` argument */
+  period: string;
+  totalVolume: number;
+  mostActiveAsset: string;
+  contractCalls: number;
+  /** Ledger close time of the mint (ISO 8601), if the contract stores it */
+  mintedAt?: string;
+  /** Network the stats were indexed on, if the contract stores it */
+  network?: Network;
+}
+
+/** A successful `mint_wrap` call found on Horizon */
+export interface MintTransaction {
+  hash: string;
+  /** Network its attestation vouches the stats were indexed on */
+  network?: Network;
+}
+
+/** `mint_wrap` argument order, as built by `buildContractArgs` */
+const MINT_TIMEFRAME_ARG = 4;
+const MINT_ATTESTATION_ARG = 5;
+
+/** Operations scanned for mint transactions, newest first */
+const MINT_SCAN_PAGES = 5;
+const MINT_SCAN_PAGE_LIMIT = 200;
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  return undefined;
+}
+
+/**
+ * Reads a decoded `Wrap` struct. Soroban structs decode to objects keyed
+ * by their snake_case field names; anything else is rejected.
+ */
+export function decodeMintedWrap(value: unknown): MintedWrap | null {
+  if (typeof value !== "object" || value === null) return null;
+  const fields = value as Record<string, unknown>;
+
+  const totalVolume = asNumber(fields.total_volume);
+  const contractCalls = asNumber(fields.contract_calls);
+  const mintedAt = asNumber(fields.minted_at);
+  if (
+    typeof fields.owner !== "string" ||
+    typeof fields.timeframe !== "string" ||
+    typeof fields.most_active_asset !== "string" ||
+    totalVolume === undefined ||
+    contractCalls === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    owner: fields.owner,
+    period: fields.timeframe,
+    totalVolume,
+    mostActiveAsset: fields.most_active_asset,
+    contractCalls,
+    mintedAt:
+      mintedAt === undefined
+        ? undefined
+        : new Date(mintedAt * 1000).toISOString(),
+    network:
+      typeof fields.network === "string" && isValidNetwork(fields.network)
+        ? fields.network
+        : undefined,
+  };
+}
+
+function toArg(result: ConversionResult, label: string): xdr.ScVal {
+  if (isConversionError(result)) {
+    throw new Error(`Invalid ${label}: ${result.error}`);
+  }
+  return result.value;
+}
+
+export class WrapContractClient {
+  constructor(
+    private readonly server: rpc.Server,
+    private readonly contractId: string,
+    private readonly passphrase: string,
+  ) {}
+
+  /**
+   * Simulates a view call and returns its decoded return value. `source`
+   * only has to be a well-formed account; simulation doesn't check it.
+   */
+  private async view(
+    method: string,
+    source: string,
+    args: xdr.ScVal[],
+  ): Promise<unknown> {
+    const transaction = new TransactionBuilder(new Account(source, "0"), {
+      fee: BASE_FEE,
+      networkPassphrase: this.passphrase,
+    })
+      .addOperation(new Contract(this.contractId).call(method, ...args))
+      .setTimeout(30)
+      .build();
+
+    const simulation = await this.server.simulateTransaction(transaction);
+    if (rpc.Api.isSimulationError(simulation)) {
+      throw new Error(`${method} failed: ${simulation.error.split("\n")[0]}`);
+    }
+    const retval = simulation.result?.retval;
+    return retval ? fromScVal(retval) : null;
+  }
+
+  /** The owner's wrap for one serialized period, or null if not minted */
+  async getWrap(owner: string, period: string): Promise<MintedWrap | null> {
+    const value = await this.view("get_wrap", owner, [
+      toArg(addressToScVal(owner), "owner"),
+      toArg(toScVal(period, "string"), "period"),
+    ]);
+    // Option::None decodes to null
+    return value === null ? null : decodeMintedWrap(value);
+  }
+
+  /** Every wrap the owner has minted, in the contract's order */
+  async listWraps(owner: string): Promise<MintedWrap[]> {
+    const value = await this.view("list_wraps", owner, [
+      toArg(addressToScVal(owner), "owner"),
+    ]);
+    if (!Array.isArray(value)) return [];
+    return value
+      .map(decodeMintedWrap)
+      .filter((wrap): wrap is MintedWrap => wrap !== null);
+  }
+}
+
+let client: WrapContractClient | null = null;
+
+/** Client for the deployed contract on `CONTRACT_NETWORK` */
+export function getWrapContractClient(): WrapContractClient {
+  if (!client) {
+    const { sorobanRpcUrl, passphrase } = getNetworkConfig(CONTRACT_NETWORK);
+    client = new WrapContractClient(
+      new rpc.Server(sorobanRpcUrl, {
+        allowHttp: sorobanRpcUrl.startsWith("http://"),
+      }),
+      CONTRACT_ADDRESS,
+      passphrase,
+    );
+  }
+  return client;
+}
+
+/**
+ * The owner's successful `mint_wrap` calls, by period, with the network
+ * their attestation names. The contract doesn't store them, so the owner's
+ * recent operations are scanned; a mint older than the scan window has no
+ * entry.
+ */
+export async function findMintTransactions(
+  owner: string,
+  horizon: HorizonPool = getHorizonPool(CONTRACT_NETWORK),
+  contractId: string = CONTRACT_ADDRESS,
+): Promise<Map<string, MintTransaction>> {
+  const mints = new Map<string, MintTransaction>();
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MINT_SCAN_PAGES; page++) {
+    const from = cursor;
+    const { records } = await requestHorizon(horizon, (server) => {
+      const builder = server
+        .operations()
+        .forAccount(owner)
+        .order("desc")
+        .limit(MINT_SCAN_PAGE_LIMIT);
+      return (from ? builder.cursor(from) : builder).call();
+    });
+
+    records.forEach((record) => {
+      if (record.type !== "invoke_host_function") return;
+      const invocation = decodeInvocation(
+        record.parameters as HostFunctionParameter[],
+      );
+      const period = invocation?.args[MINT_TIMEFRAME_ARG];
+      if (
+        invocation?.contractId === contractId &&
+        invocation.functionName === "mint_wrap" &&
+        typeof period === "string" &&
+        // Newest first, so the first hash seen is the latest mint
+        !mints.has(period)
+      ) {
+        const attestation = invocation.args[MINT_ATTESTATION_ARG];
+        mints.set(period, {
+          hash: record.transaction_hash,
+          network:
+            attestation instanceof Uint8Array
+              ? decodeAttestedStats(attestation)?.network
+              : undefined,
+        });
+      }
+    });
+
+    if (records.length < MINT_SCAN_PAGE_LIMIT) break;
+    cursor = records[records.length - 1].paging_token;
+  }
+
+  return mints;
+}
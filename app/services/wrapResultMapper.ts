@@ -0,0 +1,281 @@
+/**
+ * Wrap result mapper
+ * Derives the story-facing WrapResult from a real IndexerResult
+ */
+
+import type { IndexerResult } from "@/app/utils/indexer";
+import type {
+  DappData,
+  TopContractCall,
+  VibeSlice,
+  WrapResult,
+} from "@/app/store/wrapStore";
+import { mockData } from "@/app/data/mockData";
+
+const TOP_DAPP_LIMIT = 3;
+
+const DAPP_PALETTE = [
+  {
+    color: "#FF6B9D",
+    gradient: "linear-gradient(135deg, #FF6B9D 0%, #C44569 100%)",
+  },
+  {
+    color: "#4FACFE",
+    gradient: "linear-gradient(135deg, #4FACFE 0%, #00F2FE 100%)",
+  },
+  {
+    color: "#43E97B",
+    gradient: "linear-gradient(135deg, #43E97B 0%, #38F9D7 100%)",
+  },
+];
+
+type VibeType = "defi" | "payments" | "dev" | "other";
+
+const VIBE_STYLES: Record<VibeType, { label: string; color: string }> = {
+  defi: {
+    label: "DeFi Sorcerer",
+    color: "linear-gradient(135deg, #A445B2 0%, #D41872 100%)",
+  },
+  payments: {
+    label: "Money Mover",
+    color: "linear-gradient(135deg, #FA709A 0%, #FEE140 100%)",
+  },
+  dev: {
+    label: "Code Alchemist",
+    color: "linear-gradient(135deg, #30CFD0 0%, #330867 100%)",
+  },
+  other: {
+    label: "Account Tinkerer",
+    color: "linear-gradient(135deg, #667EEA 0%, #764BA2 100%)",
+  },
+};
+
+export interface Persona {
+  name: string;
+  description: string;
+}
+
+export const PERSONAS = {
+  explorer: {
+    name: "The Explorer",
+    description:
+      "Your journey on Stellar has just begun. The vast network awaits your first move.",
+  },
+  architect: {
+    name: "The Soroban Architect",
+    description:
+      "You don't just use the network, you build on it. Smart contracts answer when you call.",
+  },
+  whale: {
+    name: "The Whale",
+    description:
+      "When you move, the order books notice. Your volume makes waves across the network.",
+  },
+  wizard: {
+    name: "The Wizard",
+    description:
+      "Like Gandalf in Middle-earth, you wield DeFi magic with wisdom. The blockchain bends to your will.",
+  },
+  merchant: {
+    name: "The Merchant",
+    description:
+      "Payments are your love language. Value flows through your account like a well-run trade route.",
+  },
+  diamondHand: {
+    name: "The Diamond Hand",
+    description:
+      "Few moves, all of them deliberate. You hold steady while everyone else churns.",
+  },
+  navigator: {
+    name: "The Navigator",
+    description:
+      "A little of everything. You chart your own course across the Stellar ecosystem.",
+  },
+} satisfies Record<string, Persona>;
+
+/**
+ * Transaction-count tiers used to estimate a percentile until network-wide
+ * distribution data is available. Ordered from the highest tier down.
+ */
+const PERCENTILE_TIERS: Array<[minTransactions: number, percentile: number]> =
+  [
+    [1000, 99],
+    [500, 95],
+    [200, 90],
+    [100, 80],
+    [50, 70],
+    [20, 50],
+    [5, 30],
+    [1, 10],
+  ];
+
+const WHALE_VOLUME = 1_000_000;
+const SELECTIVE_TRANSACTIONS = 20;
+
+/**
+ * Shortens an account ID to `GABC…WXYZ` for display.
+ */
+export function formatUsername(accountId: string): string {
+  if (accountId.length <= 12) return accountId;
+  return `${accountId.slice(0, 4)}…${accountId.slice(-4)}`;
+}
+
+export function estimatePercentile(totalTransactions: number): number {
+  const tier = PERCENTILE_TIERS.find(([min]) => totalTransactions >= min);
+  return tier ? tier[1] : 0;
+}
+
+export function mapTopDapps(result: IndexerResult): DappData[] {
+  return [...result.dapps]
+    .sort((a, b) => b.transactionCount - a.transactionCount)
+    .slice(0, TOP_DAPP_LIMIT)
+    .map((dapp, index) => ({
+      name: dapp.name,
+      logo: dapp.icon,
+      interactions: dapp.transactionCount,
+      isFanFavorite: index === 0,
+      // Registry brand color when known, palette otherwise
+      ...(dapp.color
+        ? {
+            color: dapp.color,
+            gradient: `linear-gradient(135deg, ${dapp.color} 0%, #0A140A 100%)`,
+          }
+        : DAPP_PALETTE[index % DAPP_PALETTE.length]),
+    }));
+}
+
+/**
+ * The single most called contract function across all contracts, for
+ * lines like "you called `swap` 48 times on Soroswap".
+ */
+export function mapTopContractCall(
+  result: IndexerResult,
+): TopContractCall | undefined {
+  let top: TopContractCall | undefined;
+  result.contracts.forEach((contract) => {
+    contract.functions.forEach(({ name, calls }) => {
+      if (!top || calls > top.calls) {
+        top = {
+          functionName: name,
+          calls,
+          target: contract.dappName ?? formatUsername(contract.contractId),
+        };
+      }
+    });
+  });
+  return top;
+}
+
+/**
+ * Splits operation counts into vibe slices whose percentages sum to exactly
+ * 100, using largest-remainder rounding. Empty categories are dropped.
+ */
+export function mapVibes(result: IndexerResult): VibeSlice[] {
+  const { activity } = result;
+  const counts: Record<VibeType, number> = {
+    defi: activity.trades + activity.pathPayments + activity.liquidity,
+    payments: activity.payments,
+    dev: activity.contractCalls,
+    other: activity.other,
+  };
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return [];
+
+  const shares = (Object.keys(counts) as VibeType[])
+    .filter((type) => counts[type] > 0)
+    .map((type) => {
+      const exact = (counts[type] / total) * 100;
+      return { type, percentage: Math.floor(exact), remainder: exact % 1 };
+    });
+
+  let leftover =
+    100 - shares.reduce((sum, share) => sum + share.percentage, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (leftover > 0) {
+        share.percentage++;
+        leftover--;
+      }
+    });
+
+  return shares
+    .sort((a, b) => b.percentage - a.percentage)
+    .map(({ type, percentage }) => ({
+      type,
+      percentage,
+      ...VIBE_STYLES[type],
+    }));
+}
+
+/**
+ * Picks a persona from the first matching rule, in priority order.
+ */
+export function pickPersona(result: IndexerResult): Persona {
+  const { activity } = result;
+  const operations = Object.values(activity).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+
+  if (result.totalTransactions === 0 || operations === 0) {
+    return PERSONAS.explorer;
+  }
+
+  const share = (count: number) => count / operations;
+  const defi = activity.trades + activity.pathPayments + activity.liquidity;
+
+  if (share(activity.contractCalls) >= 0.4) return PERSONAS.architect;
+  if (result.totalVolume > WHALE_VOLUME) return PERSONAS.whale;
+  if (share(defi) >= 0.5) return PERSONAS.wizard;
+  if (share(activity.payments) >= 0.5) return PERSONAS.merchant;
+  if (result.totalTransactions < SELECTIVE_TRANSACTIONS) {
+    return PERSONAS.diamondHand;
+  }
+  return PERSONAS.navigator;
+}
+
+export function mapIndexerResultToWrapResult(
+  result: IndexerResult,
+): WrapResult {
+  const persona = pickPersona(result);
+
+  return {
+    username: formatUsername(result.accountId),
+    totalTransactions: result.totalTransactions,
+    percentile: estimatePercentile(result.totalTransactions),
+    dapps: mapTopDapps(result),
+    topContractCall: mapTopContractCall(result),
+    vibes: mapVibes(result),
+    persona: persona.name,
+    personaDescription: persona.description,
+    mintStats: {
+      totalVolume: result.totalVolume,
+      mostActiveAsset: result.mostActiveAsset,
+      contractCalls: result.contractCalls,
+    },
+    isDemo: false,
+  };
+}
+
+/**
+ * Sample wrap shown in demo mode. Always flagged so the UI can label it.
+ */
+export function createDemoWrapResult(): WrapResult {
+  return {
+    username: mockData.username,
+    totalTransactions: mockData.transactions,
+    percentile: mockData.percentile,
+    dapps: mockData.dapps.map((dapp) => ({
+      name: dapp.name,
+      interactions: dapp.transactions,
+      color: dapp.color,
+      gradient: dapp.gradient,
+    })),
+    vibes: mockData.vibes,
+    persona: mockData.persona,
+    personaDescription: mockData.personaDescription,
+    isDemo: true,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Minted wrap verification
+ * Mints carry self-reported stats, so a minted wrap is checked against a
+ * fresh index of the same account and period
+ */
+
+import type { IndexerResult, WrapPeriod } from "@/app/utils/indexer";
+import { parsePeriod, resolvePeriod } from "@/app/utils/periods";
+import type { Network } from "@/src/config";
+import type { MintedWrap } from "./wrapContract";
+
+export type VerificationStatus = "verified" | "mismatch" | "unverifiable";
+
+export interface FieldCheck {
+  field: "totalVolume" | "mostActiveAsset" | "contractCalls";
+  minted: number | string;
+  indexed: number | string;
+  matches: boolean;
+}
+
+export interface WrapVerification {
+  status: VerificationStatus;
+  owner: string;
+  period: string;
+  checks: FieldCheck[];
+  /** Why the wrap couldn't be verified */
+  reason?: string;
+  checkedAt: string;
+}
+
+/**
+ * Compares a minted wrap's stats with an index of its period. Volume is
+ * minted as a whole-unit u64, so the indexed volume is floored the same
+ * way before comparing.
+ */
+export function compareMintedStats(
+  wrap: MintedWrap,
+  indexed: IndexerResult,
+): FieldCheck[] {
+  const check = (
+    field: FieldCheck["field"],
+    minted: number | string,
+    expected: number | string,
+  ): FieldCheck => ({
+    field,
+    minted,
+    indexed: expected,
+    matches: minted === expected,
+  });
+
+  return [
+    check("totalVolume", wrap.totalVolume, Math.floor(indexed.totalVolume)),
+    check("mostActiveAsset", wrap.mostActiveAsset, indexed.mostActiveAsset),
+    check("contractCalls", wrap.contractCalls, indexed.contractCalls),
+  ];
+}
+
+/**
+ * Re-indexes a minted wrap's account and period with `index`, on the
+ * network it was indexed on, and compares the stats. A wrap whose network
+ * isn't known is unverifiable; re-indexing another network's account
+ * would only report a false mismatch.
+ *
+ * Rolling periods are minted as the fixed range they covered; a wrap
+ * minted with a rolling period itself ("last 30 days") can't be
+ * re-indexed as it was at mint time, so it is unverifiable. A calendar
+ * period that hasn't
+ * ended may have new activity since the mint, so a difference there is
+ * reported as unverifiable rather than a mismatch.
+ */
+export async function verifyMintedWrap(
+  wrap: MintedWrap,
+  index: (period: WrapPeriod, network: Network) => Promise<IndexerResult>,
+  now = new Date(),
+): Promise<WrapVerification> {
+  const base = {
+    owner: wrap.owner,
+    period: wrap.period,
+    checkedAt: now.toISOString(),
+  };
+  const period = parsePeriod(wrap.period);
+
+  if (!period) {
+    return {
+      ...base,
+      status: "unverifiable",
+      checks: [],
+      reason: `Unknown period "${wrap.period}"`,
+    };
+  }
+  // Rolling periods are the string kinds; calendar ones are objects
+  if (typeof period === "string") {
+    return {
+      ...base,
+      status: "unverifiable",
+      checks: [],
+      reason: "Rolling periods can't be re-indexed as they were at mint time",
+    };
+  }
+
+  if (!wrap.network) {
+    return {
+      ...base,
+      status: "unverifiable",
+      checks: [],
+      reason: "The network the wrap was indexed on is unknown",
+    };
+  }
+
+  const checks = compareMintedStats(wrap, await index(period, wrap.network));
+  if (checks.every((check) => check.matches)) {
+    return { ...base, status: "verified", checks };
+  }
+
+  const ended = resolvePeriod(period, now).end <= now;
+  return ended
+    ? { ...base, status: "mismatch", checks }
+    : {
+        ...base,
+        status: "unverifiable",
+        checks,
+        reason: "The period hasn't ended; stats may have changed since the mint",
+      };
+}
@@ -6,6 +6,7 @@ import { Share2 } from "lucide-react";
 import { mockData } from "@/app/data/mockData";
 import { ProgressIndicator } from "@/app/components/ProgressIndicator";
 import { MuteToggle } from "../components/MuteToggle";
+import { DemoBadge } from "../components/DemoBadge";
 import { ShareCard } from "../components/ShareCard";
 import { ShareImageCard } from "../components/ShareImageCard";
 import { useTheme, themeColors } from "../context/ThemeContext";
@@ -113,6 +114,7 @@ export default function ShareCardPage() {
       />
 
       <ProgressIndicator currentStep={6} totalSteps={6} showNext={false} />
+      <DemoBadge />
 
       <motion.div
         className="absolute top-6 right-6 md:top-8 md:right-8 z-30"
@@ -8,14 +8,16 @@ import {
   IndexingProgress,
   INDEXING_STEPS,
   STEP_ORDER,
-  PersistedIndexingState,
 } from "@/app/types/indexing";
-
-const PERSISTENCE_KEY = "stellar-wrap-indexing-state";
-const PERSISTENCE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+import { estimateTimeRemaining } from "@/app/utils/indexingProgress";
 
 interface IndexingStoreState extends IndexingProgress {
   completedStepRecord: Record<IndexingStep, boolean>;
+  /** The indexing run whose events update this store */
+  runId: string | null;
+  /** Measured duration of each completed step, in ms */
+  stepTimings: Record<IndexingStep, number>;
+  stepStartedAt: number | null;
   // Actions
   setCurrentStep: (step: IndexingStep | null) => void;
   setStepProgress: (step: IndexingStep, progress: number) => void;
@@ -26,13 +28,11 @@ interface IndexingStoreState extends IndexingProgress {
     recoverable?: boolean,
   ) => void;
   clearError: () => void;
-  startIndexing: () => void;
+  startIndexing: (runId?: string) => void;
+  followRun: (runId: string) => void;
   completeStep: (step: IndexingStep) => void;
   cancelIndexing: () => void;
   reset: () => void;
-  saveState: () => void;
-  loadState: () => boolean; // returns true if state was loaded
-  clearPersistedState: () => void;
 }
 
 const initialCompletedStepRecord: Record<IndexingStep, boolean> = {
@@ -45,8 +45,21 @@ const initialCompletedStepRecord: Record<IndexingStep, boolean> = {
   finalizing: false,
 };
 
+const initialStepTimings: Record<IndexingStep, number> = {
+  initializing: 0,
+  "fetching-transactions": 0,
+  "filtering-timeframes": 0,
+  "calculating-volume": 0,
+  "identifying-assets": 0,
+  "counting-contracts": 0,
+  finalizing: 0,
+};
+
 const initialState: IndexingProgress & {
   completedStepRecord: Record<IndexingStep, boolean>;
+  runId: string | null;
+  stepTimings: Record<IndexingStep, number>;
+  stepStartedAt: number | null;
 } = {
   currentStep: null,
   stepProgress: {
@@ -59,6 +72,9 @@ const initialState: IndexingProgress & {
     finalizing: 0,
   },
   completedStepRecord: { ...initialCompletedStepRecord },
+  runId: null,
+  stepTimings: { ...initialStepTimings },
+  stepStartedAt: null,
   overallProgress: 0,
   completedSteps: 0,
   totalSteps: STEP_ORDER.length,
@@ -73,9 +89,10 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
   ...initialState,
 
   setCurrentStep: (step) => {
-    set({ currentStep: step });
+    if (step !== get().currentStep) {
+      set({ currentStep: step, stepStartedAt: step ? Date.now() : null });
+    }
     get().updateOverallProgress();
-    get().saveState();
   },
 
   setStepProgress: (step, progress) => {
@@ -103,20 +120,9 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
       totalProgress += (progress / 100) * weight;
     });
 
-    // Calculate estimated time remaining
-    let estimatedTimeRemaining: number | null = null;
-    if (state.startTime && totalProgress > 0) {
-      const elapsedTime = Date.now() - state.startTime;
-      const timePerPercent = elapsedTime / totalProgress;
-      estimatedTimeRemaining = Math.max(
-        0,
-        Math.round(timePerPercent * (100 - totalProgress)),
-      );
-    }
-
     set({
       overallProgress: Math.round(totalProgress),
-      estimatedTimeRemaining,
+      estimatedTimeRemaining: estimateTimeRemaining(state),
     });
   },
 
@@ -125,22 +131,25 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
       error: { step, message, recoverable },
       isLoading: false,
     });
-    get().saveState();
   },
 
   clearError: () => {
     set({ error: null });
   },
 
-  startIndexing: () => {
+  startIndexing: (runId) => {
     set({
       ...initialState,
+      runId: runId ?? null,
       isLoading: true,
       startTime: Date.now(),
       totalSteps: STEP_ORDER.length,
       completedSteps: 0,
     });
-    get().saveState();
+  },
+
+  followRun: (runId) => {
+    set({ runId });
   },
 
   completeStep: (step) => {
@@ -149,8 +158,13 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
       // so the check is independent of animation state.
       const record = state.completedStepRecord;
       if (record[step]) return state;
+      const duration =
+        state.currentStep === step && state.stepStartedAt !== null
+          ? Date.now() - state.stepStartedAt
+          : 0;
       return {
         completedStepRecord: { ...record, [step]: true },
+        stepTimings: { ...state.stepTimings, [step]: duration },
         stepProgress: {
           ...state.stepProgress,
           [step]: 100,
@@ -162,7 +176,6 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
       };
     });
     get().updateOverallProgress();
-    get().saveState();
   },
 
   cancelIndexing: () => {
@@ -171,82 +184,9 @@ export const useIndexingStore = create<IndexingStoreState>((set, get) => ({
       isLoading: false,
       currentStep: null,
     });
-    get().clearPersistedState();
   },
 
   reset: () => {
     set(initialState);
-    get().clearPersistedState();
-  },
-
-  saveState: () => {
-    const state = get();
-    if (!state.isLoading || state.isCancelled) return;
-
-    const stepTimings: Record<IndexingStep, number> = {} as Record<
-      IndexingStep,
-      number
-    >;
-    STEP_ORDER.forEach((step) => {
-      stepTimings[step] = 0; // Simplified for now; can be enhanced
-    });
-
-    const persistedState: PersistedIndexingState = {
-      currentStep: state.currentStep,
-      completedSteps: state.completedSteps,
-      stepTimings,
-      startTime: state.startTime,
-      timestamp: Date.now(),
-    };
-
-    if (typeof window !== "undefined") {
-      try {
-        localStorage.setItem(PERSISTENCE_KEY, JSON.stringify(persistedState));
-      } catch (error) {
-        console.warn("Failed to persist indexing state:", error);
-      }
-    }
-  },
-
-  loadState: () => {
-    if (typeof window === "undefined") return false;
-
-    try {
-      const saved = localStorage.getItem(PERSISTENCE_KEY);
-      if (!saved) return false;
-
-      const persistedState: PersistedIndexingState = JSON.parse(saved);
-      const now = Date.now();
-
-      // Check if persisted state is still valid (within 5 minutes)
-      if (now - persistedState.timestamp > PERSISTENCE_TIMEOUT) {
-        localStorage.removeItem(PERSISTENCE_KEY);
-        return false;
-      }
-
-      // Restore state
-      set({
-        currentStep: persistedState.currentStep,
-        completedSteps: persistedState.completedSteps,
-        startTime: persistedState.startTime,
-        isLoading: persistedState.currentStep !== null,
-        isCancelled: false,
-      });
-
-      return true;
-    } catch (error) {
-      console.warn("Failed to load persisted indexing state:", error);
-      return false;
-    }
-  },
-
-  clearPersistedState: () => {
-    if (typeof window !== "undefined") {
-      try {
-        localStorage.removeItem(PERSISTENCE_KEY);
-      } catch (error) {
-        console.warn("Failed to clear persisted state:", error);
-      }
-    }
   },
 }));
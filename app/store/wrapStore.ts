@@ -1,8 +1,8 @@
 import { create } from "zustand";
 import { Network, DEFAULT_NETWORK } from "../../src/config";
-import { CacheStore } from "@/app/utils/indexer";
+import type { WrapPeriod } from "@/app/utils/indexer";
 
-export type WrapPeriod = "weekly" | "monthly" | "yearly";
+export type { WrapPeriod };
 
 export interface DappData {
   name: string;
@@ -21,29 +21,38 @@ export interface VibeSlice {
   label: string;
 }
 
+/** The account's most called contract function, e.g. `swap` on Soroswap */
+export interface TopContractCall {
+  functionName: string;
+  calls: number;
+  /** Dapp name, or the shortened contract ID when unknown */
+  target: string;
+}
+
+/** The indexed totals a mint records on-chain */
+export interface MintStats {
+  totalVolume: number;
+  mostActiveAsset: string;
+  contractCalls: number;
+}
+
 export interface WrapResult {
   username: string;
   totalTransactions: number;
   percentile: number;
   dapps: DappData[];
+  topContractCall?: TopContractCall;
   vibes: VibeSlice[];
   persona: string;
   personaDescription: string;
+  /** Absent for demo wraps, which can't be minted */
+  mintStats?: MintStats;
+  /** True when the wrap shows sample data rather than the account's own */
+  isDemo: boolean;
 }
 
 type WrapStatus = "idle" | "loading" | "ready" | "error";
 
-// In-memory cache for API results
-let cacheStore: CacheStore = {};
-
-export function getCacheStore(): CacheStore {
-  return cacheStore;
-}
-
-export function resetCache(): void {
-  cacheStore = {};
-}
-
 interface WrapStoreState {
   address: string | null;
   period: WrapPeriod;
@@ -2,38 +2,21 @@
 
 import { useState } from "react";
 import { motion } from "framer-motion";
+import { Network, SELECTABLE_NETWORKS, getNetworkConfig } from "@/src/config";
+import {
+  WrappedResponse,
+  parseWrappedResponse,
+} from "@/app/utils/wrappedResponse";
 
 export default function TestAPIPage() {
-  type Dapp = {
-    name: string;
-    transactionCount: number;
-    volume: number;
-  };
-
-  type Vibe = {
-    tag: string;
-    count: number;
-  };
-
-  type APIResult = {
-    totalTransactions: number;
-    totalVolume: number;
-    mostActiveAsset: string;
-    contractCalls: number;
-    dapps: Dapp[];
-    vibes: Vibe[];
-    cached?: boolean;
-  };
-
   const [accountId, setAccountId] = useState(
     "GBRPYHIL2CI3WHZDTOOQFC6EB4CGQONFCIUQG74P3UDMQ74P6C6DJCCEF",
   );
-  const [network, setNetwork] = useState<"mainnet" | "testnet">("testnet");
-  const [period, setPeriod] = useState<
-    "weekly" | "biweekly" | "monthly" | "yearly"
-  >("monthly");
+  const [network, setNetwork] = useState<Network>("testnet");
+  // Serialized WrapPeriod, e.g. "monthly", "2026", "2026-Q1"
+  const [period, setPeriod] = useState("monthly");
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<APIResult | null>(null);
+  const [result, setResult] = useState<WrappedResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleTest = async () => {
@@ -43,7 +26,7 @@ export default function TestAPIPage() {
 
     try {
       const response = await fetch(
-        `/api/wrapped?accountId=${encodeURIComponent(accountId)}&network=${network}&period=${period}`,
+        `/api/wrapped?accountId=${encodeURIComponent(accountId)}&network=${network}&period=${encodeURIComponent(period)}`,
       );
 
       if (!response.ok) {
@@ -51,8 +34,7 @@ export default function TestAPIPage() {
         throw new Error(errorData.error || `API error: ${response.status}`);
       }
 
-      const data = await response.json();
-      setResult(data);
+      setResult(parseWrappedResponse(await response.json()));
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -93,7 +75,7 @@ export default function TestAPIPage() {
               Network
             </label>
             <div className="flex gap-4">
-              {(["mainnet", "testnet"] as const).map((net) => (
+              {SELECTABLE_NETWORKS.map((net) => (
                 <button
                   key={net}
                   onClick={() => setNetwork(net)}
@@ -103,7 +85,7 @@ export default function TestAPIPage() {
                       : "bg-white/5 text-white/60 hover:bg-white/10"
                   }`}
                 >
-                  {net.charAt(0).toUpperCase() + net.slice(1)}
+                  {getNetworkConfig(net).name}
                 </button>
               ))}
             </div>
@@ -131,6 +113,13 @@ export default function TestAPIPage() {
                 ),
               )}
             </div>
+            <input
+              type="text"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="w-full mt-3 px-4 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-white/40"
+              placeholder="2026, 2026-Q1, 2026-03 or 2026-01-01..2026-02-15"
+            />
           </div>
 
           {/* Test Button */}
@@ -165,29 +154,54 @@ export default function TestAPIPage() {
               <div className="space-y-2 text-sm text-green-400/80 font-mono">
                 <p>
                   <span className="font-semibold">Total Transactions:</span>{" "}
-                  {result.totalTransactions}
+                  {result.data.totalTransactions}
                 </p>
                 <p>
                   <span className="font-semibold">Total Volume:</span>{" "}
-                  {result.totalVolume.toFixed(2)} XLM
+                  {result.data.totalVolume.toFixed(2)} (all assets)
                 </p>
+                {result.data.fiatVolume && (
+                  <p>
+                    <span className="font-semibold">Fiat Volume:</span>{" "}
+                    {result.data.fiatVolume.total.toFixed(2)}{" "}
+                    {result.data.fiatVolume.quoteLabel}
+                  </p>
+                )}
+                <p>
+                  <span className="font-semibold">Fees Paid:</span>{" "}
+                  {result.data.fees.total.toFixed(7)} XLM (
+                  {result.data.fees.totalStroops} stroops over{" "}
+                  {result.data.fees.transactionsPaid} txs; inclusion{" "}
+                  {result.data.fees.inclusion.toFixed(7)}, resource{" "}
+                  {result.data.fees.resource.toFixed(7)})
+                </p>
+                {result.data.volumeByAsset.length > 0 && (
+                  <ul className="space-y-1 ml-4">
+                    {result.data.volumeByAsset.map((entry) => (
+                      <li key={entry.asset}>
+                        • {entry.volume.toFixed(2)} {entry.code} (
+                        {entry.operations} ops)
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <p>
                   <span className="font-semibold">Most Active Asset:</span>{" "}
-                  {result.mostActiveAsset}
+                  {result.data.mostActiveAsset}
                 </p>
                 <p>
                   <span className="font-semibold">Contract Calls:</span>{" "}
-                  {result.contractCalls}
+                  {result.data.contractCalls}
                 </p>
                 <p>
                   <span className="font-semibold">Dapps Found:</span>{" "}
-                  {result.dapps.length}
+                  {result.data.dapps.length}
                 </p>
-                {result.dapps.length > 0 && (
+                {result.data.dapps.length > 0 && (
                   <div className="mt-3">
                     <p className="font-semibold mb-2">Dapps:</p>
                     <ul className="space-y-1 ml-4">
-                      {result.dapps.map((dapp: Dapp) => (
+                      {result.data.dapps.map((dapp) => (
                         <li key={dapp.name}>
                           • {dapp.name}: {dapp.transactionCount} tx,{" "}
                           {dapp.volume.toFixed(2)} XLM
@@ -198,11 +212,11 @@ export default function TestAPIPage() {
                 )}
                 <p>
                   <span className="font-semibold">Vibes:</span>{" "}
-                  {result.vibes.length} detected
+                  {result.data.vibes.length} detected
                 </p>
-                {result.vibes.length > 0 && (
+                {result.data.vibes.length > 0 && (
                   <ul className="space-y-1 ml-4">
-                    {result.vibes.map((vibe: Vibe) => (
+                    {result.data.vibes.map((vibe) => (
                       <li key={vibe.tag}>
                         • {vibe.tag} ({vibe.count})
                       </li>
@@ -210,7 +224,11 @@ export default function TestAPIPage() {
                   </ul>
                 )}
                 <p className="text-xs mt-3 text-white/40">
-                  Cached: {result.cached ? "Yes" : "No"}
+                  Schema v{result.schemaVersion} · {result.range.start} →{" "}
+                  {result.range.end} · Cached:{" "}
+                  {result.freshness.cached ? "Yes" : "No"} (indexed{" "}
+                  {result.freshness.indexedAt}, stale after{" "}
+                  {result.freshness.staleAt})
                 </p>
               </div>
             </motion.div>
@@ -232,8 +250,11 @@ export default function TestAPIPage() {
               • Enter a valid Stellar account ID (starts with &apos;G&apos;, 56
               characters)
             </li>
-            <li>• Select mainnet or testnet network</li>
-            <li>• Select a wrap period (7, 30, or 365 days)</li>
+            <li>• Select the network the account lives on</li>
+            <li>
+              • Select a wrap period (7, 14, 30 or 365 days) or type a
+              calendar year, quarter, month or date range
+            </li>
             <li>
               • Click &quot;Test API&quot; to fetch real blockchain data from Horizon
             </li>
@@ -44,7 +44,7 @@ export const INDEXING_STEPS: Record<IndexingStep, StepMetadata> = {
   "calculating-volume": {
     id: "calculating-volume",
     label: "Calculating Volume",
-    description: "Summing payment amounts",
+    description: "Valuing payments and trades",
     weight: 20,
     estimatedDuration: 1500,
   },
@@ -99,11 +99,3 @@ export interface IndexingError {
   message: string;
   recoverable: boolean;
 }
-
-export interface PersistedIndexingState {
-  currentStep: IndexingStep | null;
-  completedSteps: number;
-  stepTimings: Record<IndexingStep, number>; // time taken per step
-  startTime: number | null;
-  timestamp: number; // when state was saved
-}
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for indexing cancellation
+ *
+ * Run with: npx tsx app/utils/__tests__/abort.test.ts
+ */
+
+import { indexAccount } from "@/app/services/indexerService";
+import { abortable, isAbortError } from "../abort";
+import { IndexerEvent, IndexerEventEmitter } from "../indexerEventEmitter";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+async function run(): Promise<void> {
+  // ─── abortable ──────────────────────────────────────────────────────────────
+
+  section("abortable");
+  {
+    assert(
+      (await abortable(Promise.resolve(7))) === 7,
+      "passes through without a signal",
+    );
+
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => {}), controller.signal);
+    controller.abort();
+    assert(
+      isAbortError(await rejection(pending)),
+      "rejects with an AbortError once aborted",
+    );
+
+    assert(
+      isAbortError(
+        await rejection(abortable(Promise.resolve(1), controller.signal)),
+      ),
+      "rejects immediately when already aborted",
+    );
+
+    const failure = await rejection(
+      abortable(
+        Promise.reject(new Error("boom")),
+        new AbortController().signal,
+      ),
+    );
+    assert(
+      failure instanceof Error && failure.message === "boom",
+      "keeps the original rejection",
+    );
+  }
+
+  // ─── indexAccount ───────────────────────────────────────────────────────────
+
+  section("indexAccount with an aborted signal");
+  {
+    const controller = new AbortController();
+    controller.abort();
+    const emitter = new IndexerEventEmitter();
+    const events: IndexerEvent["type"][] = [];
+    emitter.on("indexing-cancelled", (event: IndexerEvent) =>
+      events.push(event.type),
+    );
+    emitter.on("step-error", (event: IndexerEvent) => events.push(event.type));
+
+    const error = await rejection(
+      indexAccount(
+        "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7",
+        "testnet",
+        "monthly",
+        { emitter, signal: controller.signal, priceProvider: null },
+      ),
+    );
+    assert(isAbortError(error), "rejects with an AbortError");
+    assert(
+      events.length === 1 && events[0] === "indexing-cancelled",
+      "emits indexing-cancelled and no step error",
+    );
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
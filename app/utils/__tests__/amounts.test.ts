@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for fixed-point amount arithmetic
+ *
+ * Run with: npx tsx app/utils/__tests__/amounts.test.ts
+ */
+
+import {
+  NATIVE_ASSET_KEY,
+  STROOPS_PER_UNIT,
+  addToTotal,
+  assetKey,
+  formatAmount,
+  parseAmount,
+  parseAssetKey,
+  sumAmounts,
+  toDisplayNumber,
+} from "../amounts";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string): void {
+  try {
+    fn();
+  } catch {
+    passed++;
+    return;
+  }
+  failed++;
+  failures.push(message);
+  console.error(`  ✗ ${message}`);
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+const USDC_ISSUER = "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+section("parseAmount");
+assert(parseAmount("1") === STROOPS_PER_UNIT, "whole unit");
+assert(parseAmount("0.0000001") === BigInt(1), "single stroop");
+assert(parseAmount("12.5000000") === BigInt(125_000_000), "Horizon format");
+assert(parseAmount("12.5") === BigInt(125_000_000), "short fraction is padded");
+assert(parseAmount("-3.25") === BigInt(-32_500_000), "negative amount");
+assert(
+  parseAmount("922337203685.4775807") === BigInt("9223372036854775807"),
+  "int64 max survives without rounding",
+);
+assertThrows(() => parseAmount("1.00000001"), "more than 7 decimals throws");
+assertThrows(() => parseAmount("abc"), "non-numeric throws");
+assertThrows(() => parseAmount(""), "empty string throws");
+
+// ─── Formatting ─────────────────────────────────────────────────────────────
+
+section("formatAmount");
+assert(formatAmount(BigInt(125_000_000)) === "12.5000000", "pads to 7 places");
+assert(formatAmount(BigInt(1)) === "0.0000001", "single stroop");
+assert(formatAmount(BigInt(-32_500_000)) === "-3.2500000", "negative amount");
+assert(
+  formatAmount(parseAmount("98765.4321")) === "98765.4321000",
+  "round-trips through parseAmount",
+);
+
+section("toDisplayNumber");
+assert(toDisplayNumber(BigInt(125_000_000)) === 12.5, "converts to a float");
+
+// ─── Summing ────────────────────────────────────────────────────────────────
+
+section("sumAmounts");
+{
+  // 0.1 + 0.2 is the classic float trap
+  const total = sumAmounts([parseAmount("0.1"), parseAmount("0.2")]);
+  assert(formatAmount(total) === "0.3000000", "0.1 + 0.2 is exactly 0.3");
+
+  const many = sumAmounts(Array.from({ length: 1000 }, () => parseAmount("0.0000001")));
+  assert(many === BigInt(1000), "1000 stroops sum exactly");
+}
+
+// ─── Asset Keys ─────────────────────────────────────────────────────────────
+
+section("assetKey");
+assert(assetKey({ asset_type: "native" }) === NATIVE_ASSET_KEY, "native asset");
+assert(assetKey({}) === NATIVE_ASSET_KEY, "missing fields default to native");
+assert(
+  assetKey({
+    asset_type: "credit_alphanum4",
+    asset_code: "USDC",
+    asset_issuer: USDC_ISSUER,
+  }) === `USDC:${USDC_ISSUER}`,
+  "credit asset keyed by code:issuer",
+);
+
+section("parseAssetKey");
+assert(parseAssetKey(NATIVE_ASSET_KEY).code === "XLM", "native displays as XLM");
+{
+  const { code, issuer } = parseAssetKey(`USDC:${USDC_ISSUER}`);
+  assert(code === "USDC" && issuer === USDC_ISSUER, "splits code and issuer");
+}
+
+section("addToTotal");
+{
+  const totals = new Map<string, bigint>();
+  addToTotal(totals, NATIVE_ASSET_KEY, parseAmount("10"));
+  addToTotal(totals, `USDC:${USDC_ISSUER}`, parseAmount("10"));
+  addToTotal(totals, NATIVE_ASSET_KEY, parseAmount("5"));
+  assert(totals.size === 2, "10 XLM and 10 USDC stay separate");
+  assert(
+    formatAmount(totals.get(NATIVE_ASSET_KEY)!) === "15.0000000",
+    "same asset accumulates",
+  );
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
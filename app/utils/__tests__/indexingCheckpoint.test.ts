@@ -0,0 +1,251 @@
+/**
+ * Unit Tests for indexing checkpoints
+ *
+ * Run with: npx tsx app/utils/__tests__/indexingCheckpoint.test.ts
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { indexAccount } from "@/app/services/indexerService";
+import {
+  IndexingCheckpoint,
+  checkpointRange,
+  createCheckpoint,
+  createFileCheckpointStore,
+  createMemoryCheckpointStore,
+  getCheckpointKey,
+  isCheckpointFresh,
+  toPlainRecord,
+} from "../indexingCheckpoint";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const RANGE = {
+  start: new Date("2026-03-01T00:00:00Z"),
+  end: new Date("2026-04-01T00:00:00Z"),
+};
+
+async function run(): Promise<void> {
+  // ─── Checkpoints ────────────────────────────────────────────────────────────
+
+  section("checkpoint records");
+  {
+    const key = getCheckpointKey(ACCOUNT, "testnet", "2026-03");
+    assert(
+      key === `checkpoint:${ACCOUNT}:testnet:2026-03`,
+      "key combines account, network and period",
+    );
+
+    const checkpoint = createCheckpoint(key, RANGE);
+    const range = checkpointRange(checkpoint);
+    assert(
+      range.start.getTime() === RANGE.start.getTime() &&
+        range.end.getTime() === RANGE.end.getTime(),
+      "range round-trips through the checkpoint",
+    );
+    assert(
+      !checkpoint.transactions.done &&
+        checkpoint.operations.records.length === 0 &&
+        checkpoint.effects.cursor === undefined,
+      "collections start empty",
+    );
+
+    assert(isCheckpointFresh(checkpoint), "new checkpoint is fresh");
+    assert(
+      !isCheckpointFresh(checkpoint, checkpoint.updatedAt + 31 * 60 * 1000),
+      "checkpoint goes stale after 30 minutes",
+    );
+
+    const plain = toPlainRecord({
+      id: "1",
+      _links: { self: { href: "x" } },
+      operations: () => Promise.resolve(),
+    });
+    assert(
+      JSON.stringify(plain) === JSON.stringify({ id: "1" }),
+      "plain records drop links and link functions",
+    );
+  }
+
+  // ─── Memory store ───────────────────────────────────────────────────────────
+
+  section("createMemoryCheckpointStore");
+  {
+    const store = createMemoryCheckpointStore(2);
+    const a = createCheckpoint("a", RANGE);
+    await store.put(a);
+    assert((await store.get("a")) === a, "stores checkpoints by key");
+    assert((await store.get("missing")) === null, "unknown key is null");
+
+    await store.put(createCheckpoint("b", RANGE));
+    await store.append(a, "transactions", []);
+    await store.put(createCheckpoint("c", RANGE));
+    assert(
+      (await store.get("b")) === null && (await store.get("a")) === a,
+      "evicts the least recently saved checkpoint",
+    );
+
+    await store.delete("a");
+    assert((await store.get("a")) === null, "delete removes the checkpoint");
+  }
+
+  // ─── File store ─────────────────────────────────────────────────────────────
+
+  section("createFileCheckpointStore");
+  {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), "indexing-checkpoints-"),
+    );
+    const store = createFileCheckpointStore(directory);
+    const checkpoint = createCheckpoint("a", RANGE);
+    checkpoint.effects.cursor = "100-0";
+    await store.put(checkpoint);
+
+    const started = await store.get("a");
+    assert(
+      started?.effects.cursor === "100-0" &&
+        started.transactions.records.length === 0,
+      "a new checkpoint reads back with its starting cursors",
+    );
+    assert((await store.get("missing")) === null, "unknown key is null");
+
+    const page = (cursor: string, ids: string[]) => {
+      const records = ids.map((id) => ({ id }));
+      checkpoint.transactions.records.push(...records);
+      checkpoint.transactions.cursor = cursor;
+      checkpoint.transactions.newest ??= cursor;
+      return store.append(checkpoint, "transactions", records);
+    };
+    await page("9", ["9", "8"]);
+    await page("7", ["7"]);
+    const resumed = await store.get("a");
+    assert(
+      resumed?.transactions.records.map((record) => record.id).join() ===
+        "9,8,7",
+      "appended pages read back in order",
+    );
+    assert(
+      resumed?.transactions.cursor === "7" &&
+        resumed.transactions.newest === "9",
+      "paging resumes from the last page saved",
+    );
+
+    const [hashed] = await fs.readdir(directory);
+    const log = path.join(directory, hashed, "transactions.ndjson");
+    const written = await fs.readFile(log, "utf8");
+    assert(
+      written.split("\n").filter(Boolean).length === 2,
+      "each page is one appended line",
+    );
+
+    await fs.appendFile(log, '{"cursor":"6","records":[{"id"');
+    const torn = await store.get("a");
+    assert(
+      torn?.transactions.cursor === "7" &&
+        torn.transactions.records.length === 3,
+      "a torn last line is ignored",
+    );
+    assert(
+      (await fs.readFile(log, "utf8")) === written,
+      "a torn last line is cut off",
+    );
+
+    await store.put(createCheckpoint("a", RANGE));
+    assert(
+      (await store.get("a"))?.transactions.records.length === 0,
+      "putting a new checkpoint drops the old pages",
+    );
+
+    await store.delete("a");
+    assert((await store.get("a")) === null, "delete removes the checkpoint");
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  // ─── Resuming ───────────────────────────────────────────────────────────────
+
+  section("indexAccount resumes from a finished crawl");
+  {
+    const store = createMemoryCheckpointStore();
+    const key = getCheckpointKey(ACCOUNT, "testnet", "2026-03");
+    const checkpoint: IndexingCheckpoint = createCheckpoint(key, RANGE);
+    checkpoint.transactions = {
+      cursor: "1",
+      done: true,
+      records: [
+        {
+          hash: "tx1",
+          created_at: "2026-03-10T12:00:00Z",
+          source_account: ACCOUNT,
+          fee_charged: "100",
+        },
+      ],
+    };
+    checkpoint.operations = {
+      cursor: "1",
+      done: true,
+      records: [
+        {
+          id: "op1",
+          type: "payment",
+          created_at: "2026-03-10T12:00:00Z",
+          transaction_hash: "tx1",
+          source_account: ACCOUNT,
+          from: ACCOUNT,
+          to: "GBZXN7PIRZGNMHGA7MUUUF4GWPY5AYPV6LY4UV2GL6VJGIQRXFDNMADI",
+          amount: "5.0000000",
+          asset_type: "native",
+        },
+      ],
+    };
+    checkpoint.effects = { cursor: "1-0", done: true, records: [] };
+    await store.put(checkpoint);
+
+    // Every collection is done, so no Horizon request is made
+    const result = await indexAccount(
+      ACCOUNT,
+      "testnet",
+      { type: "month", year: 2026, month: 3 },
+      { checkpoints: store, priceProvider: null },
+    );
+    assert(result.totalTransactions === 1, "uses the checkpointed records");
+    assert(
+      (await store.get(key)) === null,
+      "clears the checkpoint after completing",
+    );
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
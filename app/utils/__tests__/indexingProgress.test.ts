@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for indexing progress math
+ *
+ * Run with: npx tsx app/utils/__tests__/indexingProgress.test.ts
+ */
+
+import { useIndexingStore } from "@/app/store/indexingStore";
+import { INDEXING_STEPS, IndexingStep, STEP_ORDER } from "@/app/types/indexing";
+import {
+  ProgressSnapshot,
+  easeProgress,
+  estimateTimeRemaining,
+} from "../indexingProgress";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+function perStep<T>(value: T): Record<IndexingStep, T> {
+  const record = {} as Record<IndexingStep, T>;
+  STEP_ORDER.forEach((step) => {
+    record[step] = value;
+  });
+  return record;
+}
+
+function snapshot(overrides: Partial<ProgressSnapshot>): ProgressSnapshot {
+  return {
+    currentStep: null,
+    stepProgress: perStep(0),
+    completedStepRecord: perStep(false),
+    stepTimings: perStep(0),
+    stepStartedAt: null,
+    ...overrides,
+  };
+}
+
+const NOW = 1_000_000;
+
+// ─── estimateTimeRemaining ──────────────────────────────────────────────────
+
+section("estimateTimeRemaining");
+{
+  assert(
+    estimateTimeRemaining(snapshot({ currentStep: "initializing" }), NOW) ===
+      null,
+    "no estimate before anything is measured",
+  );
+
+  // Current step half done after 2s → 2s left in it, plus nominal durations
+  const halfway = estimateTimeRemaining(
+    snapshot({
+      currentStep: "initializing",
+      stepProgress: { ...perStep(0), initializing: 50 },
+      stepStartedAt: NOW - 2000,
+    }),
+    NOW,
+  );
+  const nominalRest = STEP_ORDER.slice(1).reduce(
+    (sum, step) => sum + INDEXING_STEPS[step].estimatedDuration,
+    0,
+  );
+  assert(
+    halfway === 2000 + nominalRest,
+    "extrapolates the current step from its own progress",
+  );
+
+  // Initializing took twice its nominal duration → remaining steps scale ×2
+  const slow = estimateTimeRemaining(
+    snapshot({
+      currentStep: "fetching-transactions",
+      completedStepRecord: { ...perStep(false), initializing: true },
+      stepTimings: {
+        ...perStep(0),
+        initializing: INDEXING_STEPS.initializing.estimatedDuration * 2,
+      },
+      stepStartedAt: NOW,
+    }),
+    NOW,
+  );
+  assert(slow === nominalRest * 2, "scales unstarted steps by measured pace");
+
+  const allDone = estimateTimeRemaining(
+    snapshot({
+      completedStepRecord: perStep(true),
+      stepTimings: perStep(100),
+    }),
+    NOW,
+  );
+  assert(allDone === 0, "nothing left once every step completes");
+}
+
+// ─── easeProgress ───────────────────────────────────────────────────────────
+
+section("easeProgress");
+{
+  const eased = easeProgress(0, 100, 150);
+  assert(eased === 50, "covers half the gap per half-life");
+  assert(easeProgress(99.8, 100, 1) === 100, "snaps when nearly there");
+  assert(easeProgress(80, 20, 10) === 20, "drops straight to a lower target");
+  assert(easeProgress(10, 60, 0) === 10, "no time, no movement");
+}
+
+// ─── Measured step timings ──────────────────────────────────────────────────
+
+section("indexing store step timings");
+{
+  const store = useIndexingStore;
+  store.getState().startIndexing();
+  store.getState().setCurrentStep("initializing");
+  store.setState({ stepStartedAt: Date.now() - 1200 });
+  store.getState().completeStep("initializing");
+
+  const timing = store.getState().stepTimings.initializing;
+  assert(timing >= 1200 && timing < 2000, "completeStep records the duration");
+  assert(
+    store.getState().stepTimings["fetching-transactions"] === 0,
+    "steps not yet run have no timing",
+  );
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
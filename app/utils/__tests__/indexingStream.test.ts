@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for streamed indexing events
+ *
+ * Run with: npx tsx app/utils/__tests__/indexingStream.test.ts
+ */
+
+import { useIndexingStore } from "@/app/store/indexingStore";
+import {
+  IndexerEvent,
+  IndexerEventEmitter,
+  applyIndexerEvent,
+  createRunId,
+} from "../indexerEventEmitter";
+import { formatSseEvent, isValidRunId } from "../indexingStream";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Wire format ────────────────────────────────────────────────────────────
+
+section("formatSseEvent");
+{
+  const event: IndexerEvent = {
+    type: "step-progress",
+    step: "fetching-transactions",
+    progress: 40,
+  };
+  const frame = formatSseEvent(event);
+  const [eventLine, dataLine] = frame.split("\n");
+
+  assert(eventLine === "event: step-progress", "event name is the type");
+  assert(
+    JSON.stringify(JSON.parse(dataLine.slice("data: ".length))) ===
+      JSON.stringify(event),
+    "data line round-trips the event",
+  );
+  assert(frame.endsWith("\n\n"), "frame ends with a blank line");
+}
+
+// ─── Store updates ──────────────────────────────────────────────────────────
+
+section("applyIndexerEvent");
+{
+  const store = useIndexingStore;
+  store.getState().startIndexing();
+
+  applyIndexerEvent({ type: "step-change", step: "fetching-transactions" });
+  assert(
+    store.getState().currentStep === "fetching-transactions",
+    "step-change sets the current step",
+  );
+
+  applyIndexerEvent({
+    type: "step-progress",
+    step: "fetching-transactions",
+    progress: 150,
+  });
+  assert(
+    store.getState().stepProgress["fetching-transactions"] === 100,
+    "step-progress is clamped",
+  );
+
+  applyIndexerEvent({ type: "step-complete", step: "fetching-transactions" });
+  assert(store.getState().completedSteps === 1, "step-complete counts once");
+
+  applyIndexerEvent({
+    type: "step-error",
+    step: "calculating-volume",
+    message: "Rate limited",
+    recoverable: true,
+  });
+  assert(
+    store.getState().error?.message === "Rate limited" &&
+      !store.getState().isLoading,
+    "step-error stops loading with the message",
+  );
+
+  applyIndexerEvent({ type: "indexing-cancelled" });
+  assert(store.getState().isCancelled, "indexing-cancelled cancels");
+}
+
+// ─── Run scoping ────────────────────────────────────────────────────────────
+
+section("per-run emitters");
+{
+  const store = useIndexingStore;
+  const first = new IndexerEventEmitter();
+  const second = new IndexerEventEmitter("run-2");
+
+  assert(first.runId !== second.runId, "each emitter gets its own run ID");
+  assert(second.runId === "run-2", "an explicit run ID is kept");
+
+  const seen: IndexerEvent[] = [];
+  first.on("step-change", (event: IndexerEvent) => seen.push(event));
+  first.emitStepChange("initializing");
+  assert(
+    seen.length === 1 && seen[0].runId === first.runId,
+    "emitted events carry the run ID",
+  );
+  first.removeAllListeners();
+
+  store.getState().startIndexing();
+  first.connectToStore();
+  second.connectToStore();
+  assert(
+    store.getState().runId === "run-2",
+    "the store follows the newest run",
+  );
+
+  first.emitStepChange("finalizing");
+  assert(
+    store.getState().currentStep === null,
+    "events from an older run are ignored",
+  );
+
+  second.emitStepChange("calculating-volume");
+  assert(
+    store.getState().currentStep === "calculating-volume",
+    "events from the followed run are applied",
+  );
+
+  applyIndexerEvent({ type: "step-change", step: "identifying-assets" });
+  assert(
+    store.getState().currentStep === "identifying-assets",
+    "untagged events still apply",
+  );
+
+  first.disconnectFromStore();
+  second.disconnectFromStore();
+}
+
+section("isValidRunId");
+{
+  assert(isValidRunId(createRunId()), "generated run IDs are accepted");
+  assert(!isValidRunId(""), "empty run ID is rejected");
+  assert(!isValidRunId("a/b"), "run ID with a slash is rejected");
+  assert(!isValidRunId("x".repeat(65)), "overlong run ID is rejected");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for the mint simulation preview
+ *
+ * Run with: npx tsx app/utils/__tests__/mintSimulation.test.ts
+ */
+
+import {
+  Account,
+  Address,
+  Contract,
+  Keypair,
+  Networks,
+  SorobanDataBuilder,
+  StrKey,
+  TransactionBuilder,
+  rpc,
+  xdr,
+} from "@stellar/stellar-sdk";
+import {
+  describeSimulationError,
+  summarizeSimulation,
+} from "../mintSimulation";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const USER = Keypair.random().publicKey();
+const COSIGNER = Keypair.random().publicKey();
+const CONTRACT = StrKey.encodeContract(Buffer.alloc(32, 7));
+
+const transaction = new TransactionBuilder(new Account(USER, "1"), {
+  fee: "100",
+  networkPassphrase: Networks.TESTNET,
+})
+  .addOperation(new Contract(CONTRACT).call("mint_wrap"))
+  .setTimeout(300)
+  .build();
+
+function authEntry(credentials: xdr.SorobanCredentials) {
+  return new xdr.SorobanAuthorizationEntry({
+    credentials,
+    rootInvocation: new xdr.SorobanAuthorizedInvocation({
+      function:
+        xdr.SorobanAuthorizedFunction.sorobanAuthorizedFunctionTypeContractFn(
+          new xdr.InvokeContractArgs({
+            contractAddress: Address.fromString(CONTRACT).toScAddress(),
+            functionName: "mint_wrap",
+            args: [],
+          }),
+        ),
+      subInvocations: [],
+    }),
+  });
+}
+
+const instanceKey = xdr.LedgerKey.contractData(
+  new xdr.LedgerKeyContractData({
+    contract: Address.fromString(CONTRACT).toScAddress(),
+    key: xdr.ScVal.scvLedgerKeyContractInstance(),
+    durability: xdr.ContractDataDurability.persistent(),
+  }),
+);
+const codeKey = xdr.LedgerKey.contractCode(
+  new xdr.LedgerKeyContractCode({ hash: Buffer.alloc(32, 1) }),
+);
+const accountKey = xdr.LedgerKey.account(
+  new xdr.LedgerKeyAccount({
+    accountId: Keypair.fromPublicKey(USER).xdrAccountId(),
+  }),
+);
+
+const simulation: rpc.Api.SimulateTransactionSuccessResponse = {
+  id: "1",
+  latestLedger: 100,
+  events: [],
+  _parsed: true,
+  minResourceFee: "52310",
+  transactionData: new SorobanDataBuilder()
+    .setResources(1_250_000, 3_000, 512)
+    .setReadOnly([instanceKey, codeKey])
+    .setReadWrite([accountKey]),
+  result: {
+    retval: xdr.ScVal.scvVoid(),
+    auth: [
+      authEntry(xdr.SorobanCredentials.sorobanCredentialsSourceAccount()),
+      authEntry(
+        xdr.SorobanCredentials.sorobanCredentialsAddress(
+          new xdr.SorobanAddressCredentials({
+            address: Address.fromString(COSIGNER).toScAddress(),
+            nonce: xdr.Int64.fromString("1"),
+            signatureExpirationLedger: 0,
+            signature: xdr.ScVal.scvVoid(),
+          }),
+        ),
+      ),
+    ],
+  },
+};
+
+// ─── Summary ────────────────────────────────────────────────────────────────
+
+section("summarizeSimulation");
+{
+  const preview = summarizeSimulation(transaction, simulation);
+
+  assert(
+    preview.inclusionFee === BigInt(100) &&
+      preview.resourceFee === BigInt(52310) &&
+      preview.totalFee === BigInt(52410),
+    "splits the fee into inclusion and resource parts",
+  );
+  assert(
+    preview.cpuInstructions === 1_250_000 &&
+      preview.readBytes === 3_000 &&
+      preview.writeBytes === 512,
+    "reports CPU and I/O",
+  );
+
+  const [instance, code] = preview.footprint.readOnly;
+  assert(
+    instance.kind === "Contract data" &&
+      instance.owner === CONTRACT &&
+      instance.durability === "persistent",
+    "describes contract data by contract and durability",
+  );
+  assert(code.kind === "Contract code", "describes contract code");
+  assert(
+    preview.footprint.readWrite[0].kind === "Account" &&
+      preview.footprint.readWrite[0].owner === USER,
+    "describes accounts by address",
+  );
+
+  const [own, cosigned] = preview.auth;
+  assert(
+    own.signer === USER && own.coveredByTransaction,
+    "source-account auth is covered by the transaction signature",
+  );
+  assert(
+    cosigned.signer === COSIGNER && !cosigned.coveredByTransaction,
+    "address auth needs its own signature",
+  );
+  assert(
+    own.contractId === CONTRACT && own.functionName === "mint_wrap",
+    "names the authorized call",
+  );
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+section("describeSimulationError");
+{
+  assert(
+    describeSimulationError(
+      "HostError: Error(Contract, #3)\n\nEvent log (newest first): ...",
+    ) === "The contract rejected the mint (error #3).",
+    "keeps the contract error code",
+  );
+  assert(
+    describeSimulationError("HostError: Error(Auth, InvalidAction)").startsWith(
+      "The mint wasn't authorized",
+    ),
+    "explains auth failures",
+  );
+  assert(
+    describeSimulationError(
+      "HostError: Error(Storage, MissingValue)",
+    ).includes("wasn't found on this network"),
+    "explains a missing contract",
+  );
+  assert(
+    describeSimulationError("HostError: Error(Budget, ExceededLimit)") ===
+      "The mint needs more resources than one transaction may use.",
+    "explains budget overruns",
+  );
+  assert(
+    describeSimulationError("something odd\nstack dump") ===
+      "Simulation failed: something odd",
+    "falls back to the first line",
+  );
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,183 @@
+/**
+ * Unit Tests for wrap period resolution and serialization
+ *
+ * Run with: npx tsx app/utils/__tests__/periods.test.ts
+ */
+
+import { WrapPeriod, getCacheKey } from "../indexer";
+import {
+  describePeriod,
+  fixPeriod,
+  parsePeriod,
+  resolvePeriod,
+  serializePeriod,
+} from "../periods";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+const iso = (date: Date) => date.toISOString();
+
+// ─── Resolution ─────────────────────────────────────────────────────────────
+
+section("resolvePeriod");
+{
+  const now = new Date("2026-10-19T12:00:00Z");
+  const weekly = resolvePeriod("weekly", now);
+  assert(iso(weekly.end) === iso(now), "rolling window ends now");
+  assert(
+    iso(weekly.start) === "2026-10-12T12:00:00.000Z",
+    "weekly starts 7 days back",
+  );
+
+  const year = resolvePeriod({ type: "year", year: 2026 });
+  assert(iso(year.start) === "2026-01-01T00:00:00.000Z", "year starts Jan 1");
+  assert(iso(year.end) === "2027-01-01T00:00:00.000Z", "year ends exclusive");
+
+  const q4 = resolvePeriod({ type: "quarter", year: 2025, quarter: 4 });
+  assert(iso(q4.start) === "2025-10-01T00:00:00.000Z", "Q4 starts Oct 1");
+  assert(iso(q4.end) === "2026-01-01T00:00:00.000Z", "Q4 rolls into next year");
+
+  const feb = resolvePeriod({ type: "month", year: 2024, month: 2 });
+  assert(iso(feb.end) === "2024-03-01T00:00:00.000Z", "February ends Mar 1");
+
+  const custom = resolvePeriod({
+    type: "custom",
+    from: "2026-01-01",
+    to: "2026-02-15",
+  });
+  assert(
+    iso(custom.end) === "2026-02-16T00:00:00.000Z",
+    "custom `to` date is inclusive",
+  );
+
+  const range = resolvePeriod({
+    type: "range",
+    start: "2025-10-19T12:00:00Z",
+    end: "2026-10-19T12:00:00Z",
+  });
+  assert(
+    iso(range.start) === "2025-10-19T12:00:00.000Z" &&
+      iso(range.end) === "2026-10-19T12:00:00.000Z",
+    "range resolves to its own instants",
+  );
+}
+
+section("fixPeriod");
+{
+  const indexed = {
+    start: new Date("2025-10-19T12:00:00.250Z"),
+    end: new Date("2026-10-19T12:00:00.250Z"),
+  };
+  const fixed = fixPeriod("yearly", indexed);
+  assert(
+    serializePeriod(fixed) === "2025-10-19T12:00:01Z..2026-10-19T12:00:01Z",
+    "a rolling period becomes its range, rounded up to whole seconds",
+  );
+  const quarter: WrapPeriod = { type: "quarter", year: 2026, quarter: 1 };
+  assert(
+    fixPeriod(quarter, resolvePeriod(quarter)) === quarter,
+    "a calendar period is already fixed",
+  );
+}
+
+// ─── Serialization ──────────────────────────────────────────────────────────
+
+section("serializePeriod / parsePeriod");
+{
+  const periods: WrapPeriod[] = [
+    "monthly",
+    { type: "year", year: 2026 },
+    { type: "quarter", year: 2026, quarter: 1 },
+    { type: "month", year: 2026, month: 3 },
+    { type: "custom", from: "2026-01-01", to: "2026-02-15" },
+    {
+      type: "range",
+      start: "2025-10-19T12:00:00Z",
+      end: "2026-10-19T12:00:00Z",
+    },
+  ];
+  const serialized = periods.map(serializePeriod);
+  assert(
+    serialized.join(" ") ===
+      "monthly 2026 2026-Q1 2026-03 2026-01-01..2026-02-15 " +
+        "2025-10-19T12:00:00Z..2026-10-19T12:00:00Z",
+    "stable string forms",
+  );
+  serialized.forEach((value, i) =>
+    assert(
+      JSON.stringify(parsePeriod(value)) === JSON.stringify(periods[i]),
+      `${value} round-trips`,
+    ),
+  );
+
+  assert(parsePeriod("toString") === null, "prototype keys are not periods");
+  assert(parsePeriod("2026-13") === null, "month 13 rejected");
+  assert(parsePeriod("2026-Q5") === null, "Q5 rejected");
+  assert(parsePeriod("2026-02-30..2026-03-01") === null, "Feb 30 rejected");
+  assert(
+    parsePeriod("2026-03-01..2026-02-01") === null,
+    "range ending before it starts rejected",
+  );
+  assert(
+    parsePeriod("2026-10-19T12:00:00Z..2026-10-19T12:00:00Z") === null,
+    "empty instant range rejected",
+  );
+  assert(
+    parsePeriod("2026-10-19T12:00:00.500Z..2026-10-20T12:00:00Z") === null,
+    "instants finer than seconds rejected",
+  );
+  assert(parsePeriod("") === null, "empty string rejected");
+}
+
+section("getCacheKey");
+assert(
+  getCacheKey("GABC", "mainnet", { type: "quarter", year: 2026, quarter: 2 }) ===
+    "GABC:mainnet:2026-Q2",
+  "calendar periods key by their serialized form",
+);
+
+section("describePeriod");
+assert(describePeriod("biweekly") === "Last 14 days", "rolling label");
+assert(
+  describePeriod({ type: "month", year: 2026, month: 3 }) === "March 2026",
+  "month label",
+);
+assert(
+  describePeriod({
+    type: "range",
+    start: "2025-10-19T12:00:00Z",
+    end: "2026-10-19T12:00:00Z",
+  }) === "2025-10-19 – 2026-10-19",
+  "range label",
+);
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
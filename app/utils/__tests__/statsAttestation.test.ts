@@ -0,0 +1,273 @@
+/**
+ * Unit Tests for stats attestation encoding and signing
+ *
+ * Run with: npx tsx app/utils/__tests__/statsAttestation.test.ts
+ */
+
+import { createHash } from "crypto";
+import { Keypair, xdr } from "@stellar/stellar-sdk";
+import type { IndexerResult } from "../indexer";
+import {
+  AttestedStats,
+  createAttestedStats,
+  decodeAttestedStats,
+  encodeAttestedStats,
+  parseStatsAttestation,
+  signAttestedStats,
+} from "../statsAttestation";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+function throws(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return "";
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const KEY = Keypair.fromRawEd25519Seed(Buffer.alloc(32, 1));
+const OTHER_KEY = Keypair.fromRawEd25519Seed(Buffer.alloc(32, 2));
+const ACCOUNT = Keypair.fromRawEd25519Seed(Buffer.alloc(32, 3)).publicKey();
+
+const STATS: AttestedStats = {
+  account: ACCOUNT,
+  network: "testnet",
+  timeframe: "2026-Q1",
+  rangeStart: 1767225600,
+  rangeEnd: 1775001600,
+  totalVolume: 45000,
+  mostActiveAsset: "XLM",
+  contractCalls: 12,
+  expiresAt: 1776000000,
+};
+
+const sha256 = (bytes: Buffer) =>
+  createHash("sha256").update(bytes).digest("hex");
+
+// ─── Attested stats ─────────────────────────────────────────────────────────
+
+section("createAttestedStats");
+{
+  const stats = createAttestedStats(
+    { accountId: ACCOUNT, network: "testnet", period: "weekly" },
+    {
+      totalVolume: 45000.9,
+      mostActiveAsset: "XLM",
+      contractCalls: 12,
+    } as IndexerResult,
+    {
+      start: new Date("2026-03-01T00:00:00.500Z"),
+      end: new Date("2026-03-08T00:00:00.500Z"),
+    },
+    new Date("2026-03-08T00:10:00Z"),
+  );
+  assert(
+    stats.timeframe === "2026-03-01T00:00:01Z..2026-03-08T00:00:01Z",
+    "a rolling period is attested as the range it covered",
+  );
+  assert(
+    stats.rangeStart === 1772323201 && stats.rangeEnd === 1772928001,
+    "the range is in whole seconds, matching the timeframe",
+  );
+  assert(stats.totalVolume === 45000, "volume is floored like the mint");
+  assert(stats.expiresAt === 1772928600, "expiry is in unix seconds");
+
+  const calendar = createAttestedStats(
+    {
+      accountId: ACCOUNT,
+      network: "testnet",
+      period: { type: "month", year: 2026, month: 2 },
+    },
+    {
+      totalVolume: 0,
+      mostActiveAsset: "XLM",
+      contractCalls: 0,
+    } as IndexerResult,
+    {
+      start: new Date("2026-02-01T00:00:00Z"),
+      end: new Date("2026-03-01T00:00:00Z"),
+    },
+    new Date("2026-03-08T00:10:00Z"),
+  );
+  assert(calendar.timeframe === "2026-02", "a calendar period is kept");
+  assert(
+    calendar.rangeStart === 1769904000 && calendar.rangeEnd === 1772323200,
+    "a calendar period attests its own range",
+  );
+}
+
+// ─── Encoding ───────────────────────────────────────────────────────────────
+
+section("encodeAttestedStats");
+{
+  const payload = encodeAttestedStats(STATS, KEY.publicKey());
+  assert(
+    payload.equals(encodeAttestedStats({ ...STATS }, KEY.publicKey())),
+    "equal stats encode to equal bytes",
+  );
+
+  const reordered = Object.fromEntries(
+    Object.entries(STATS).reverse(),
+  ) as unknown as AttestedStats;
+  assert(
+    payload.equals(encodeAttestedStats(reordered, KEY.publicKey())),
+    "property order doesn't change the encoding",
+  );
+
+  assert(
+    sha256(payload) ===
+      "687e6e8cc11bb3d91db696d7ee372628559fc1cba396f81ff860ab7b26937641",
+    "the encoding is pinned",
+  );
+
+  const map = xdr.ScVal.fromXDR(payload).map() ?? [];
+  const keys = map.map((entry) => entry.key().sym().toString());
+  assert(
+    keys.join(",") ===
+      "account,contract_calls,expires_at,most_active_asset,network," +
+        "range_end,range_start,signer,timeframe,total_volume,version",
+    "keys are symbols in sorted order",
+  );
+  assert(
+    map[7].val().bytes().equals(KEY.rawPublicKey()),
+    "the signer is its raw public key",
+  );
+  assert(
+    map[9].val().switch().name === "scvU64" &&
+      map[1].val().switch().name === "scvU32",
+    "stats use the contract's types",
+  );
+
+  assert(
+    !payload.equals(encodeAttestedStats(STATS, OTHER_KEY.publicKey())),
+    "the signer is part of the encoding",
+  );
+  assert(
+    !payload.equals(
+      encodeAttestedStats({ ...STATS, contractCalls: 13 }, KEY.publicKey()),
+    ),
+    "every stat is part of the encoding",
+  );
+  assert(
+    throws(() =>
+      encodeAttestedStats({ ...STATS, totalVolume: 1.5 }, KEY.publicKey()),
+    ) === "Attested volume must be in whole units",
+    "fractional volume is rejected",
+  );
+  assert(
+    throws(() =>
+      encodeAttestedStats({ ...STATS, account: "GABC" }, KEY.publicKey()),
+    ).startsWith("Can't encode attested stats: "),
+    "invalid stats are rejected",
+  );
+}
+
+section("decodeAttestedStats");
+{
+  const decoded = decodeAttestedStats(
+    encodeAttestedStats(STATS, KEY.publicKey()),
+  );
+  assert(
+    JSON.stringify(decoded) === JSON.stringify(STATS),
+    "reads the stats back out of a payload",
+  );
+  assert(
+    decodeAttestedStats(xdr.ScVal.scvU32(1).toXDR()) === null,
+    "anything else is null",
+  );
+  assert(decodeAttestedStats(Buffer.from("junk")) === null, "junk is null");
+}
+
+// ─── Signing ────────────────────────────────────────────────────────────────
+
+section("signAttestedStats");
+{
+  const attestation = signAttestedStats(STATS, KEY);
+  const payload = Buffer.from(attestation.payload, "base64");
+  const signature = Buffer.from(attestation.signature, "base64");
+
+  assert(attestation.signer === KEY.publicKey(), "names the signing key");
+  assert(
+    payload.equals(encodeAttestedStats(STATS, KEY.publicKey())),
+    "signs the canonical encoding",
+  );
+  assert(KEY.verify(payload, signature), "the signature verifies");
+  assert(
+    !OTHER_KEY.verify(payload, signature),
+    "the signature is bound to its key",
+  );
+  assert(
+    attestation.signature === signAttestedStats(STATS, KEY).signature,
+    "signing is deterministic",
+  );
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+section("parseStatsAttestation");
+{
+  const attestation = signAttestedStats(STATS, KEY);
+  const roundTripped = JSON.parse(JSON.stringify(attestation));
+  assert(
+    parseStatsAttestation(roundTripped).stats.contractCalls === 12,
+    "accepts an attestation sent as JSON",
+  );
+
+  assert(
+    throws(() =>
+      parseStatsAttestation({
+        ...roundTripped,
+        stats: { ...STATS, contractCalls: 99 },
+      }),
+    ) ===
+      "Unexpected /api/wrapped/attest response: " +
+        "payload doesn't match the stats",
+    "rejects stats that weren't signed",
+  );
+  assert(
+    throws(() => parseStatsAttestation({ ...roundTripped, version: 2 })) !==
+      "",
+    "rejects other versions",
+  );
+  assert(
+    throws(() => parseStatsAttestation({ ...roundTripped, stats: null })) !==
+      "",
+    "rejects missing stats",
+  );
+  assert(throws(() => parseStatsAttestation("signed")) !== "", "rejects junk");
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
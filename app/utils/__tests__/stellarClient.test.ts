@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for Horizon endpoint health checking and failover
+ *
+ * Run with: npx tsx app/utils/__tests__/stellarClient.test.ts
+ */
+
+import { Horizon } from "@stellar/stellar-sdk";
+import {
+  HorizonPool,
+  HorizonRootStatus,
+  assessHorizonHealth,
+} from "../stellarClient";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+function rootStatus(
+  ledger: number,
+  overrides: Partial<HorizonRootStatus> = {},
+): HorizonRootStatus {
+  return {
+    history_latest_ledger: ledger,
+    history_latest_ledger_closed_at: new Date(NOW - 5000).toISOString(),
+    core_latest_ledger: ledger,
+    ...overrides,
+  };
+}
+
+/** A server whose root endpoint answers with `root`, or fails */
+function fakeServer(
+  host: string,
+  root: () => Promise<HorizonRootStatus>,
+): Horizon.Server {
+  return {
+    serverURL: { host: () => host, toString: () => `https://${host}` },
+    root,
+  } as unknown as Horizon.Server;
+}
+
+async function run(): Promise<void> {
+  // ─── assessHorizonHealth ────────────────────────────────────────────────────
+
+  section("assessHorizonHealth");
+  {
+    assert(assessHorizonHealth(rootStatus(1000), NOW).healthy, "in sync");
+
+    const ingesting = assessHorizonHealth(
+      rootStatus(1000, { core_latest_ledger: 1050 }),
+      NOW,
+    );
+    assert(!ingesting.healthy, "ingestion far behind core is unhealthy");
+    assert(
+      ingesting.reason?.includes("50 ledgers") === true,
+      "explains the lag",
+    );
+
+    assert(
+      !assessHorizonHealth(rootStatus(1000), NOW, 1100).healthy,
+      "far behind another endpoint is unhealthy",
+    );
+    assert(
+      assessHorizonHealth(rootStatus(1000), NOW, 1005).healthy,
+      "a few ledgers behind is fine",
+    );
+
+    const tenMinutesAgo = new Date(NOW - 10 * 60_000).toISOString();
+    const stalled = rootStatus(1000, {
+      history_latest_ledger_closed_at: tenMinutesAgo,
+    });
+    assert(
+      !assessHorizonHealth(stalled, NOW).healthy,
+      "no new ledgers for minutes is unhealthy",
+    );
+  }
+
+  // ─── HorizonPool ────────────────────────────────────────────────────────────
+
+  section("HorizonPool failover");
+  {
+    let now = NOW;
+    const primary = fakeServer("a.test", async () => rootStatus(1000));
+    const backup = fakeServer("b.test", async () => rootStatus(1000));
+    const pool = new HorizonPool([primary, backup], {
+      cooldownMs: 60_000,
+      now: () => now,
+    });
+
+    assert(pool.current() === primary, "prefers the first endpoint");
+
+    pool.markUnhealthy(primary);
+    assert(pool.current() === backup, "skips an unhealthy endpoint");
+
+    now += 60_000;
+    assert(pool.current() === primary, "returns after the cooldown");
+
+    pool.markUnhealthy(primary);
+    now += 1000;
+    pool.markUnhealthy(backup);
+    assert(
+      pool.current() === primary,
+      "with every endpoint down, uses the one recovering soonest",
+    );
+  }
+
+  section("HorizonPool.checkHealth");
+  {
+    let now = NOW;
+    let probes = 0;
+    const lagging = fakeServer("lagging.test", async () => {
+      probes++;
+      return rootStatus(900);
+    });
+    const down = fakeServer("down.test", async () => {
+      probes++;
+      throw new Error("Request failed with status code 503");
+    });
+    const healthy = fakeServer("healthy.test", async () => {
+      probes++;
+      return rootStatus(1000);
+    });
+    const pool = new HorizonPool([lagging, down, healthy], {
+      probeIntervalMs: 30_000,
+      now: () => now,
+    });
+
+    await pool.checkHealth();
+    assert(probes === 3, "probes every endpoint");
+    assert(pool.current() === healthy, "picks the endpoint that is caught up");
+
+    await pool.checkHealth();
+    assert(probes === 3, "skips probing again within the interval");
+
+    now += 30_000;
+    await Promise.all([pool.checkHealth(), pool.checkHealth()]);
+    assert(probes === 6, "concurrent checks share one probe");
+
+    const single = new HorizonPool([
+      fakeServer("only.test", async () => {
+        throw new Error("unreachable");
+      }),
+    ]);
+    await single.checkHealth();
+    assert(
+      single.current() === single.endpoints[0].server,
+      "a lone endpoint is always used",
+    );
+  }
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+run().then(() => {
+  console.log("\n══════════════════════════════════════════════════════");
+  console.log(`  Results:  ${passed} passed, ${failed} failed`);
+  console.log("══════════════════════════════════════════════════════");
+
+  if (failures.length > 0) {
+    console.log("\nFailed tests:");
+    failures.forEach((f) => console.log(`  ✗ ${f}`));
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+});
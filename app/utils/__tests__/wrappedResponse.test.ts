@@ -0,0 +1,239 @@
+/**
+ * Unit Tests for the /api/wrapped response schema and validator
+ *
+ * Run with: npx tsx app/utils/__tests__/wrappedResponse.test.ts
+ */
+
+import type { IndexerResult } from "../indexer";
+import {
+  WRAPPED_SCHEMA_VERSION,
+  WrappedResponse,
+  createWrappedResponse,
+  parseWrappedResponse,
+  validateWrappedResponse,
+} from "../wrappedResponse";
+
+// ─── Test Helpers ───────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+  } else {
+    failed++;
+    failures.push(message);
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n▸ ${name}`);
+}
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const ACCOUNT = "GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7";
+const INDEXED_AT = Date.parse("2026-03-10T12:00:00Z");
+
+const RESULT: IndexerResult = {
+  accountId: ACCOUNT,
+  totalTransactions: 3,
+  totalVolume: 12.5,
+  volumeByAsset: [
+    {
+      asset: "native",
+      code: "XLM",
+      volume: 12.5,
+      stroops: "125000000",
+      operations: 2,
+    },
+  ],
+  fiatVolume: {
+    quoteAsset: "USDC:GA5Z",
+    quoteLabel: "USD",
+    total: 1.5,
+    byAsset: [{ asset: "native", code: "XLM", value: 1.5 }],
+    unpricedAssets: [],
+  },
+  mostActiveAsset: "XLM",
+  contractCalls: 1,
+  contracts: [
+    {
+      contractId: "CABC",
+      calls: 1,
+      functions: [{ name: "swap", calls: 1 }],
+      events: 2,
+    },
+  ],
+  gasSpent: 0.00003,
+  fees: {
+    totalStroops: "300",
+    inclusionStroops: "300",
+    resourceStroops: "0",
+    total: 0.00003,
+    inclusion: 0.00003,
+    resource: 0,
+    transactionsPaid: 3,
+    feeBumpsPaid: 0,
+  },
+  dapps: [{ id: "soroswap", name: "Soroswap", volume: 0, transactionCount: 1 }],
+  vibes: [{ tag: "defi", count: 1 }],
+  activity: {
+    payments: 2,
+    trades: 0,
+    pathPayments: 0,
+    liquidity: 0,
+    contractCalls: 1,
+    other: 0,
+  },
+};
+
+function response(): WrappedResponse {
+  return createWrappedResponse(
+    { accountId: ACCOUNT, network: "testnet", period: "monthly" },
+    RESULT,
+    { cached: true, indexedAt: INDEXED_AT, staleAt: INDEXED_AT + 60_000 },
+    INDEXED_AT + 1000,
+  );
+}
+
+// Received JSON is loosely typed so tests can break it anywhere
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Json = Record<string, any>;
+
+/** A JSON round-tripped copy, as a client would receive it */
+function received(mutate: (value: Json) => void = () => {}): Json {
+  const value = JSON.parse(JSON.stringify(response())) as Json;
+  mutate(value);
+  return value;
+}
+
+function errorsOf(value: unknown): string[] {
+  const validation = validateWrappedResponse(value);
+  return validation.valid ? [] : validation.errors;
+}
+
+// ─── Building ───────────────────────────────────────────────────────────────
+
+section("createWrappedResponse");
+{
+  const built = response();
+  assert(built.schemaVersion === WRAPPED_SCHEMA_VERSION, "stamps the version");
+  assert(built.generatedAt === "2026-03-10T12:00:01.000Z", "stamps send time");
+  assert(built.period === "monthly", "serializes the period");
+  assert(
+    built.range.start === "2026-02-08T12:00:00.000Z" &&
+      built.range.end === "2026-03-10T12:00:00.000Z",
+    "a rolling range ends when the data was indexed",
+  );
+  assert(
+    built.freshness.cached &&
+      built.freshness.staleAt === "2026-03-10T12:01:00.000Z",
+    "carries freshness",
+  );
+  assert(built.data === RESULT, "carries the indexer result");
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+section("validateWrappedResponse accepts");
+{
+  assert(errorsOf(received()).length === 0, "a response after a JSON trip");
+  assert(
+    errorsOf(
+      received((value) => {
+        value.data.fiatVolume = null;
+        delete value.data.volumeByAsset[0].issuer;
+      }),
+    ).length === 0,
+    "null and missing optional fields",
+  );
+}
+
+section("validateWrappedResponse rejects");
+{
+  assert(
+    errorsOf(received((value) => (value.schemaVersion = 2)))[0] ===
+      "response.schemaVersion: unsupported version 2, expected 1",
+    "another schema version",
+  );
+  assert(
+    errorsOf(received((value) => (value.data.fees.total = "1")))[0] ===
+      "response.data.fees.total: expected number",
+    "a wrong type, with its path",
+  );
+  assert(
+    errorsOf(
+      received((value) => (value.data.contracts[0].functions[0].calls = null)),
+    )[0] === "response.data.contracts[0].functions[0].calls: expected number",
+    "a bad array item, with its index",
+  );
+  assert(
+    errorsOf(received((value) => delete value.freshness.staleAt))[0] ===
+      "response.freshness.staleAt: expected an ISO 8601 timestamp",
+    "a missing field",
+  );
+  assert(
+    errorsOf(received((value) => (value.network = "moonnet")))[0] ===
+      "response.network: unknown network",
+    "an unknown network",
+  );
+  assert(
+    errorsOf(received((value) => (value.period = "fortnightly")))[0] ===
+      "response.period: not a period",
+    "an unknown period",
+  );
+  assert(
+    errorsOf(received((value) => (value.data.totalVolume = NaN))).length === 1,
+    "a non-finite number",
+  );
+  assert(
+    errorsOf(
+      received((value) => {
+        value.data.vibes = {};
+        value.range.end = "soon";
+      }),
+    ).length === 2,
+    "reports every problem",
+  );
+  assert(
+    errorsOf({ error: "Horizon server error" }).length > 1,
+    "an error body",
+  );
+  assert(errorsOf(null)[0] === "response: expected an object", "null");
+}
+
+section("parseWrappedResponse");
+{
+  assert(
+    parseWrappedResponse(received()).data.accountId === ACCOUNT,
+    "returns a valid response",
+  );
+  let message = "";
+  try {
+    parseWrappedResponse(received((value) => (value.data = [])));
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  assert(
+    message ===
+      "Unexpected /api/wrapped response: response.data: expected an object",
+    "throws naming the problem",
+  );
+}
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+console.log("\n══════════════════════════════════════════════════════");
+console.log(`  Results:  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════════════════════════");
+
+if (failures.length > 0) {
+  console.log("\nFailed tests:");
+  failures.forEach((f) => console.log(`  ✗ ${f}`));
+}
+
+process.exit(failed > 0 ? 1 : 0);
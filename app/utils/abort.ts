@@ -0,0 +1,75 @@
+/**
+ * AbortSignal helpers
+ * Cancellation plumbing shared by the indexer and its callers
+ */
+
+/** The error an aborted operation rejects with */
+export function createAbortError(): Error {
+  return new DOMException("Indexing was cancelled", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown })?.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Settles with `promise`, or rejects as soon as `signal` aborts. The SDK's
+ * call builders can't take a signal, so an in-flight request is abandoned
+ * rather than torn down; its response is ignored.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Settles with `promise`, or rejects with an `ETIMEDOUT` error after `ms`.
+ * Like `abortable`, the underlying request is abandoned, not torn down.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        reject(
+          Object.assign(new Error(`Request timed out after ${ms}ms`), {
+            code: "ETIMEDOUT",
+          }),
+        ),
+      ms,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Fixed-point amount arithmetic
+ * Horizon amounts are decimal strings with 7 places. They are summed as
+ * integer stroops (bigint) and only converted to a float for display.
+ */
+
+export const AMOUNT_DECIMALS = 7;
+
+/** 1 unit of any Stellar asset = 10^7 stroops */
+export const STROOPS_PER_UNIT = BigInt(10 ** AMOUNT_DECIMALS);
+
+export const ZERO_STROOPS = BigInt(0);
+
+/** Key used for the native asset in per-asset totals */
+export const NATIVE_ASSET_KEY = "native";
+
+const AMOUNT_PATTERN = /^(-)?(\d+)(?:\.(\d{1,7}))?$/;
+
+/**
+ * Parses a Horizon decimal amount (e.g. "12.5000000") into stroops.
+ * Throws on malformed input or more than 7 decimal places.
+ */
+export function parseAmount(amount: string): bigint {
+  const match = AMOUNT_PATTERN.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: "${amount}"`);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const stroops =
+    BigInt(whole) * STROOPS_PER_UNIT +
+    BigInt(fraction.padEnd(AMOUNT_DECIMALS, "0"));
+  return sign ? -stroops : stroops;
+}
+
+/**
+ * Formats stroops back into a 7-decimal string, matching Horizon's format.
+ */
+export function formatAmount(stroops: bigint): string {
+  const negative = stroops < ZERO_STROOPS;
+  const abs = negative ? -stroops : stroops;
+  const whole = abs / STROOPS_PER_UNIT;
+  const fraction = (abs % STROOPS_PER_UNIT)
+    .toString()
+    .padStart(AMOUNT_DECIMALS, "0");
+  return `${negative ? "-" : ""}${whole}.${fraction}`;
+}
+
+/**
+ * Converts stroops to a JS number. Only use this at the display edge;
+ * precision is lost above 2^53 stroops.
+ */
+export function toDisplayNumber(stroops: bigint): number {
+  return Number(formatAmount(stroops));
+}
+
+export interface AssetFields {
+  asset_type?: string;
+  asset_code?: string;
+  asset_issuer?: string;
+}
+
+/**
+ * Builds the per-asset key: `native` for XLM, otherwise `CODE:ISSUER`, so
+ * two assets sharing a code never collapse into one total.
+ */
+export function assetKey({
+  asset_type,
+  asset_code,
+  asset_issuer,
+}: AssetFields): string {
+  if (asset_type === "native" || !asset_code) {
+    return NATIVE_ASSET_KEY;
+  }
+  return asset_issuer ? `${asset_code}:${asset_issuer}` : asset_code;
+}
+
+/**
+ * Splits an asset key into its display code and issuer.
+ */
+export function parseAssetKey(key: string): { code: string; issuer?: string } {
+  if (key === NATIVE_ASSET_KEY) {
+    return { code: "XLM" };
+  }
+  const [code, issuer] = key.split(":");
+  return { code, issuer };
+}
+
+/**
+ * Adds `stroops` to the running total for `key`.
+ */
+export function addToTotal(
+  totals: Map<string, bigint>,
+  key: string,
+  stroops: bigint,
+): void {
+  totals.set(key, (totals.get(key) ?? ZERO_STROOPS) + stroops);
+}
+
+export function sumAmounts(amounts: Iterable<bigint>): bigint {
+  let total = ZERO_STROOPS;
+  for (const amount of amounts) {
+    total += amount;
+  }
+  return total;
+}
@@ -2,11 +2,37 @@
  * Type definitions for Stellar Horizon indexing service
  */
 
-export type WrapPeriod = "weekly" | "biweekly" | "monthly" | "yearly";
+import type { Network } from "@/src/config";
+import { serializePeriod } from "./periods";
+
+export { PERIODS } from "./periods";
+
+/** Windows ending now: the last 7, 14, 30 or 365 days */
+export type RollingPeriod = "weekly" | "biweekly" | "monthly" | "yearly";
+
+/**
+ * Time range a wrap covers. Either a rolling window ending now, a calendar
+ * range in UTC, or the exact range a rolling window covered when it was
+ * minted. See `app/utils/periods.ts` for resolving and serializing periods.
+ */
+export type WrapPeriod =
+  | RollingPeriod
+  | { type: "year"; year: number }
+  | { type: "quarter"; year: number; quarter: 1 | 2 | 3 | 4 }
+  /** `month` is 1-12 */
+  | { type: "month"; year: number; month: number }
+  /** Inclusive `YYYY-MM-DD` dates */
+  | { type: "custom"; from: string; to: string }
+  /** `YYYY-MM-DDTHH:MM:SSZ` instants; `start` inclusive, `end` exclusive */
+  | { type: "range"; start: string; end: string };
 
 export interface DappInfo {
+  /** Registry ID, see `app/data/dappRegistry.json` */
+  id: string;
   name: string;
   icon?: string;
+  color?: string;
+  homeDomain?: string;
   volume: number;
   transactionCount: number;
 }
@@ -16,51 +42,203 @@ export interface VibeTag {
   count: number;
 }
 
+/**
+ * Effect attached to an operation. Only the fields the achievement
+ * calculator reads are kept (currently `trade` effects for offers).
+ */
+export interface IndexedEffect {
+  id: string;
+  type: string;
+  created_at: string;
+  sold_amount?: string;
+  sold_asset_type?: string;
+  sold_asset_code?: string;
+  sold_asset_issuer?: string;
+  bought_amount?: string;
+  bought_asset_type?: string;
+  bought_asset_code?: string;
+  bought_asset_issuer?: string;
+}
+
+/**
+ * Contract event decoded from Soroban transaction meta.
+ */
+export interface IndexedContractEvent {
+  contractId?: string;
+  topics: unknown[];
+  data: unknown;
+}
+
+/**
+ * Operation record from Horizon's `operations().forAccount()` endpoint,
+ * trimmed to the fields we aggregate on.
+ */
+export interface IndexedOperation {
+  id: string;
+  type: string;
+  created_at: string;
+  transaction_hash: string;
+  source_account?: string;
+  amount?: string;
+  asset_type?: string;
+  asset_code?: string;
+  asset_issuer?: string;
+  source_amount?: string;
+  source_asset_type?: string;
+  source_asset_code?: string;
+  source_asset_issuer?: string;
+  from?: string;
+  to?: string;
+  selling_asset_type?: string;
+  selling_asset_code?: string;
+  selling_asset_issuer?: string;
+  buying_asset_type?: string;
+  buying_asset_code?: string;
+  buying_asset_issuer?: string;
+  function?: string;
+  /** Contract invoked by an `invoke_host_function` operation */
+  contract_id?: string;
+  /** Contract function called, e.g. `swap` */
+  function_name?: string;
+  /** Call arguments as native values (may contain bigint) */
+  args?: unknown[];
+  /** Contract events emitted by the invocation */
+  events?: IndexedContractEvent[];
+  liquidity_pool_id?: string;
+  effects?: IndexedEffect[];
+}
+
+/**
+ * Transaction record with its operations (and their effects) attached.
+ */
+export interface IndexedTransaction {
+  hash: string;
+  created_at: string;
+  memo?: string;
+  source_account?: string;
+  /** Account that paid the fee; the outer fee source for fee-bumps */
+  fee_account?: string;
+  /** Total fee charged in stroops */
+  fee_charged?: string;
+  fee_bump: boolean;
+  /** Soroban resource fee in stroops; unset for classic transactions */
+  resource_fee_charged?: string;
+  operations: IndexedOperation[];
+}
+
+/**
+ * Operation counts grouped by the kind of activity they represent.
+ */
+export interface ActivityBreakdown {
+  payments: number;
+  trades: number;
+  pathPayments: number;
+  liquidity: number;
+  contractCalls: number;
+  other: number;
+}
+
+/**
+ * Volume moved in a single asset. `stroops` is the exact integer total as a
+ * base-10 string (bigint does not survive JSON); `volume` is for display.
+ */
+export interface AssetVolume {
+  /** `native` or `CODE:ISSUER` */
+  asset: string;
+  code: string;
+  issuer?: string;
+  volume: number;
+  stroops: string;
+  operations: number;
+}
+
+/**
+ * Volume valued in a quote asset (USD by default) at each operation's
+ * historical daily price.
+ */
+export interface FiatVolume {
+  /** Asset key prices are denominated in, e.g. `USDC:GA5Z…` */
+  quoteAsset: string;
+  /** Display label for the quote, e.g. "USD" */
+  quoteLabel: string;
+  total: number;
+  byAsset: Array<{ asset: string; code: string; value: number }>;
+  /** Assets with no usable price; excluded from `total` */
+  unpricedAssets: string[];
+}
+
+/**
+ * Fees paid by the account. Stroop totals are exact base-10 strings; the
+ * XLM numbers are for display. `inclusion` is what was bid for ledger
+ * space, `resource` what Soroban charged for CPU, I/O and rent.
+ */
+export interface FeeBreakdown {
+  totalStroops: string;
+  inclusionStroops: string;
+  resourceStroops: string;
+  total: number;
+  inclusion: number;
+  resource: number;
+  transactionsPaid: number;
+  /** Fee-bump transactions where the account was the fee source */
+  feeBumpsPaid: number;
+}
+
+/**
+ * Calls made to one contract, broken down by function.
+ */
+export interface ContractUsage {
+  contractId: string;
+  /** Registry dapp the contract belongs to, if known */
+  dappId?: string;
+  dappName?: string;
+  calls: number;
+  /** Sorted by call count, most called first */
+  functions: Array<{ name: string; calls: number }>;
+  events: number;
+}
+
 export interface IndexerResult {
   accountId: string;
   totalTransactions: number;
+  /** Sum across all assets; see `volumeByAsset` for denominated totals */
   totalVolume: number;
+  volumeByAsset: AssetVolume[];
+  /** Null when no price provider was available */
+  fiatVolume: FiatVolume | null;
   mostActiveAsset: string;
   contractCalls: number;
+  /** Per-contract call stats, most called first */
+  contracts: ContractUsage[];
+  /** Total fees paid in XLM; see `fees` for the breakdown */
   gasSpent: number;
+  fees: FeeBreakdown;
   dapps: DappInfo[];
   vibes: VibeTag[];
+  activity: ActivityBreakdown;
 }
 
-export interface CacheEntry {
-  result: IndexerResult;
-  timestamp: number;
+/** Newest paging token of each collection a wrap was built from */
+export interface IndexingCursors {
+  transactions?: string;
+  operations?: string;
+  effects?: string;
 }
 
-export interface CacheStore {
-  [key: string]: CacheEntry;
+/**
+ * What a wrap's aggregates are computed from: the in-range transactions,
+ * newest first, and where paging stopped. Kept with a cached result so a
+ * refresh only fetches records newer than `cursors` and recomputes.
+ */
+export interface IndexerSnapshot {
+  cursors: IndexingCursors;
+  transactions: IndexedTransaction[];
 }
 
-export const PERIODS: Record<WrapPeriod, number> = {
-  weekly: 7,
-  biweekly: 14,
-  monthly: 30,
-  yearly: 365,
-};
-
-export const NEXT_PUBLIC_RPC_ENDPOINTS = {
-  mainnet: "https://horizon.stellar.org",
-  testnet: "https://horizon-testnet.stellar.org",
-};
-
 export function getCacheKey(
   accountId: string,
-  network: "mainnet" | "testnet",
+  network: Network,
   period: WrapPeriod,
 ): string {
-  return `${accountId}:${network}:${period}`;
-}
-
-export function isCacheValid(
-  entry: CacheEntry,
-  ttlMinutes: number = 5,
-): boolean {
-  const now = Date.now();
-  const age = now - entry.timestamp;
-  return age < ttlMinutes * 60 * 1000;
+  return `${accountId}:${network}:${serializePeriod(period)}`;
 }
@@ -13,7 +13,7 @@ import { useIndexingStore } from "@/app/store/indexingStore";
 /**
  * Event types emitted by the indexer service
  */
-export type IndexerEvent =
+type IndexerEventBody =
   | { type: "step-change"; step: IndexingStep }
   | { type: "step-progress"; step: IndexingStep; progress: number }
   | { type: "step-complete"; step: IndexingStep }
@@ -27,102 +27,153 @@ export type IndexerEvent =
   | { type: "indexing-cancelled" };
 
 /**
- * Singleton event emitter for indexer service
+ * An indexer event, tagged with the run that produced it. Untagged events
+ * are applied to whichever run the store follows.
+ */
+export type IndexerEvent = IndexerEventBody & { runId?: string };
+
+/**
+ * Every event type the indexer emits, in the order a run produces them
+ */
+export const INDEXER_EVENT_TYPES: IndexerEvent["type"][] = [
+  "step-change",
+  "step-progress",
+  "step-complete",
+  "step-error",
+  "indexing-complete",
+  "indexing-cancelled",
+];
+
+/**
+ * Generates an ID for one indexing run. Falls back to a random string where
+ * `crypto.randomUUID` is unavailable (insecure browser contexts).
+ */
+export function createRunId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Applies one indexer event to the indexing store. Used both for events
+ * emitted in this process and for events streamed from the server.
+ * Events from any run other than the one the store follows are dropped.
+ */
+export function applyIndexerEvent(event: IndexerEvent): void {
+  const store = useIndexingStore.getState();
+  if (event.runId !== undefined && event.runId !== store.runId) return;
+
+  switch (event.type) {
+    case "step-change":
+      store.setCurrentStep(event.step);
+      break;
+    case "step-progress":
+      store.setStepProgress(event.step, event.progress);
+      break;
+    case "step-complete":
+      store.completeStep(event.step);
+      break;
+    case "step-error":
+      store.setError(event.step, event.message, event.recoverable);
+      break;
+    case "indexing-cancelled":
+      store.cancelIndexing();
+      break;
+  }
+}
+
+/**
+ * Event emitter scoped to a single indexing run. Create one per run and
+ * pass it to `indexAccount`; every event it emits carries its `runId`.
  */
 export class IndexerEventEmitter extends EventEmitter {
-  private static instance: IndexerEventEmitter;
+  readonly runId: string;
   private isConnected: boolean = false;
 
-  private constructor() {
+  constructor(runId: string = createRunId()) {
     super();
-  }
-
-  static getInstance(): IndexerEventEmitter {
-    if (!IndexerEventEmitter.instance) {
-      IndexerEventEmitter.instance = new IndexerEventEmitter();
-    }
-    return IndexerEventEmitter.instance;
+    this.runId = runId;
   }
 
   /**
    * Emit step change event
    */
   emitStepChange(step: IndexingStep): void {
-    this.emit("step-change", { type: "step-change", step });
+    this.emit("step-change", { type: "step-change", step, runId: this.runId });
   }
 
   /**
    * Emit step progress update (0-100)
    */
   emitStepProgress(step: IndexingStep, progress: number): void {
-    this.emit("step-progress", { type: "step-progress", step, progress });
+    this.emit("step-progress", {
+      type: "step-progress",
+      step,
+      progress,
+      runId: this.runId,
+    });
   }
 
   /**
    * Emit step completion
    */
   emitStepComplete(step: IndexingStep): void {
-    this.emit("step-complete", { type: "step-complete", step });
+    this.emit("step-complete", {
+      type: "step-complete",
+      step,
+      runId: this.runId,
+    });
   }
 
   /**
    * Emit step error
    */
   emitStepError(step: IndexingStep, message: string, recoverable = true): void {
-    this.emit("step-error", { type: "step-error", step, message, recoverable });
+    this.emit("step-error", {
+      type: "step-error",
+      step,
+      message,
+      recoverable,
+      runId: this.runId,
+    });
   }
 
   /**
    * Emit indexing completion
    */
   emitIndexingComplete(data: unknown): void {
-    this.emit("indexing-complete", { type: "indexing-complete", data });
+    this.emit("indexing-complete", {
+      type: "indexing-complete",
+      data,
+      runId: this.runId,
+    });
   }
 
   /**
    * Emit indexing cancellation
    */
   emitIndexingCancelled(): void {
-    this.emit("indexing-cancelled", { type: "indexing-cancelled" });
+    this.emit("indexing-cancelled", {
+      type: "indexing-cancelled",
+      runId: this.runId,
+    });
   }
 
   /**
-   * Connect emitter to Zustand store (call once during app initialization)
+   * Connect this run to the Zustand store. The store follows one run at a
+   * time, so connecting a newer run silences any older one.
    * Safe to call multiple times - will only connect once
    */
   connectToStore(): void {
+    useIndexingStore.getState().followRun(this.runId);
+
     // Prevent duplicate listener registration
     if (this.isConnected) {
       return;
     }
 
-    const store = useIndexingStore;
-
-    this.on("step-change", ({ step }) => {
-      store.getState().setCurrentStep(step);
-    });
-
-    this.on("step-progress", ({ step, progress }) => {
-      store.getState().setStepProgress(step, progress);
-    });
-
-    this.on("step-complete", ({ step }) => {
-      store.getState().completeStep(step);
-    });
-
-    this.on("step-error", ({ step, message, recoverable }) => {
-      store.getState().setError(step, message, recoverable);
-    });
-
-    this.on("indexing-complete", ({ _data }) => {
-      // Clear persisted state on successful completion
-      store.getState().clearPersistedState();
-      // You can also trigger additional actions here if needed
-    });
-
-    this.on("indexing-cancelled", () => {
-      store.getState().cancelIndexing();
-    });
+    INDEXER_EVENT_TYPES.forEach((type) => this.on(type, applyIndexerEvent));
 
     this.isConnected = true;
   }
@@ -152,10 +203,11 @@ export class IndexerEventEmitter extends EventEmitter {
  *
  * export async function indexAccount(
  *   accountId: string,
- *   network: 'mainnet' | 'testnet' = 'mainnet',
+ *   network: Network = 'mainnet',
  *   period: WrapPeriod = 'monthly',
+ *   options: IndexAccountOptions = {},
  * ): Promise<IndexerResult> {
- *   const emitter = IndexerEventEmitter.getInstance();
+ *   const emitter = options.emitter ?? new IndexerEventEmitter();
  *
  *   try {
  *     // Step 1: Initialize
@@ -261,23 +313,21 @@ export class IndexerEventEmitter extends EventEmitter {
  * }
  *
  *
- * App Initialization (app/providers.tsx or app/layout.tsx)
- * ========================================================
+ * Running in the browser
+ * ======================
  *
  * import { IndexerEventEmitter } from '@/app/utils/indexerEventEmitter';
  *
- * export function Providers({ children }: { children: React.ReactNode }) {
- *   // Initialize emitter connection to store on app load
- *   React.useEffect(() => {
- *     IndexerEventEmitter.getInstance().connectToStore();
- *     return () => {
- *       IndexerEventEmitter.getInstance().reset();
- *     };
- *   }, []);
- *
- *   return (
- *     // ... providers
- *   );
+ * async function runIndexing(accountId: string) {
+ *   // One emitter per run; the store ignores events from earlier runs
+ *   const emitter = new IndexerEventEmitter();
+ *   useIndexingStore.getState().startIndexing();
+ *   emitter.connectToStore();
+ *   try {
+ *     return await indexAccount(accountId, 'mainnet', 'monthly', { emitter });
+ *   } finally {
+ *     emitter.disconnectFromStore();
+ *   }
  * }
  */
 
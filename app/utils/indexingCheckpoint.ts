@@ -0,0 +1,284 @@
+/**
+ * Indexing checkpoints
+ * Saves how far each Horizon crawl got, and what it fetched, so a reload or
+ * retry continues from there instead of starting over
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { DateRange } from "./periods";
+
+const CHECKPOINT_TTL = 30 * 60 * 1000; // 30 minutes
+const MAX_MEMORY_CHECKPOINTS = 100;
+
+/** The paged collections a checkpoint tracks */
+export type CheckpointCollection = "transactions" | "operations" | "effects";
+
+const COLLECTIONS: CheckpointCollection[] = [
+  "transactions",
+  "operations",
+  "effects",
+];
+
+/** Progress through one paged Horizon collection */
+export interface CollectionCheckpoint {
+  /** Paging token of the last record fetched */
+  cursor?: string;
+  /**
+   * Paging token of the newest record fetched, in range or not. A later
+   * refresh pages forward from here.
+   */
+  newest?: string;
+  /** In-range records fetched so far, newest first */
+  records: Record<string, unknown>[];
+  /** Whether the collection has been paged back to the start of the range */
+  done: boolean;
+}
+
+export interface IndexingCheckpoint {
+  key: string;
+  /**
+   * The range being crawled. Rolling periods resume against the range they
+   * started with, so the result stays consistent.
+   */
+  range: { start: string; end: string };
+  transactions: CollectionCheckpoint;
+  operations: CollectionCheckpoint;
+  effects: CollectionCheckpoint;
+  updatedAt: number;
+}
+
+/**
+ * Where checkpoints are kept. A crawl `put`s its checkpoint once, then
+ * `append`s each page as it arrives, so saving a page costs the same however
+ * far the crawl has got.
+ */
+export interface IndexingCheckpointStore {
+  get(key: string): Promise<IndexingCheckpoint | null>;
+  /** Saves a new checkpoint, replacing any earlier one under its key */
+  put(checkpoint: IndexingCheckpoint): Promise<void>;
+  /**
+   * Saves a page of `collection`: its in-range `records`, which the
+   * checkpoint already lists last, and where the collection's paging got to
+   */
+  append(
+    checkpoint: IndexingCheckpoint,
+    collection: CheckpointCollection,
+    records: Record<string, unknown>[],
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Checkpoint key for an account's crawl of one period: account, network and
+ * the serialized period (e.g. "monthly", "2026-Q1")
+ */
+export function getCheckpointKey(
+  accountId: string,
+  network: string,
+  serializedPeriod: string,
+): string {
+  return `checkpoint:${accountId}:${network}:${serializedPeriod}`;
+}
+
+export function createCheckpoint(
+  key: string,
+  range: DateRange,
+): IndexingCheckpoint {
+  const empty = (): CollectionCheckpoint => ({ records: [], done: false });
+  return {
+    key,
+    range: { start: range.start.toISOString(), end: range.end.toISOString() },
+    transactions: empty(),
+    operations: empty(),
+    effects: empty(),
+    updatedAt: Date.now(),
+  };
+}
+
+export function checkpointRange(checkpoint: IndexingCheckpoint): DateRange {
+  return {
+    start: new Date(checkpoint.range.start),
+    end: new Date(checkpoint.range.end),
+  };
+}
+
+export function isCheckpointFresh(
+  checkpoint: IndexingCheckpoint,
+  now = Date.now(),
+): boolean {
+  return now - checkpoint.updatedAt < CHECKPOINT_TTL;
+}
+
+/**
+ * Copies a Horizon record into plain data. The SDK attaches link-following
+ * functions to every record, which don't serialize.
+ */
+export function toPlainRecord(
+  record: Record<string, unknown>,
+): Record<string, unknown> {
+  const plain: Record<string, unknown> = {};
+  Object.keys(record).forEach((field) => {
+    const value = record[field];
+    if (field !== "_links" && typeof value !== "function") {
+      plain[field] = value;
+    }
+  });
+  return plain;
+}
+
+/**
+ * Process-local store, for tests and runtimes without a writable disk.
+ * It keeps the checkpoint object itself, so appends only touch its
+ * position in the eviction order; oldest entries are evicted first.
+ */
+export function createMemoryCheckpointStore(
+  maxEntries = MAX_MEMORY_CHECKPOINTS,
+): IndexingCheckpointStore {
+  const entries = new Map<string, IndexingCheckpoint>();
+
+  const remember = (checkpoint: IndexingCheckpoint) => {
+    entries.delete(checkpoint.key);
+    entries.set(checkpoint.key, checkpoint);
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async put(checkpoint) {
+      remember(checkpoint);
+    },
+    async append(checkpoint) {
+      remember(checkpoint);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/** One line of a collection's page log */
+interface LoggedPage {
+  cursor?: string;
+  newest?: string;
+  done: boolean;
+  records: Record<string, unknown>[];
+  updatedAt: number;
+}
+
+/**
+ * Store on the local disk, so a crawl resumes after a restart of the server
+ * that ran it. Each checkpoint is a directory: `checkpoint.json` holds the
+ * checkpoint as `put`, and every collection has an append-only log with one
+ * line per page. A line cut short by a crash is dropped, and the crawl
+ * fetches that page again.
+ */
+export function createFileCheckpointStore(
+  directory: string,
+): IndexingCheckpointStore {
+  // Keys contain colons and period strings; hash them into safe names
+  const directoryFor = (key: string) =>
+    path.join(directory, createHash("sha256").update(key).digest("hex"));
+  const logFor = (key: string, collection: CheckpointCollection) =>
+    path.join(directoryFor(key), `${collection}.ndjson`);
+
+  return {
+    async get(key) {
+      let checkpoint: IndexingCheckpoint;
+      try {
+        checkpoint = JSON.parse(
+          await fs.readFile(
+            path.join(directoryFor(key), "checkpoint.json"),
+            "utf8",
+          ),
+        );
+      } catch {
+        return null;
+      }
+
+      for (const collection of COLLECTIONS) {
+        const file = logFor(key, collection);
+        let log: string;
+        try {
+          log = await fs.readFile(file, "utf8");
+        } catch {
+          continue;
+        }
+
+        let intact = 0;
+        for (const line of log.split("\n")) {
+          let page: LoggedPage;
+          try {
+            page = JSON.parse(line);
+          } catch {
+            break;
+          }
+          const progress = checkpoint[collection];
+          progress.cursor = page.cursor;
+          progress.newest = page.newest;
+          progress.done = page.done;
+          progress.records.push(...page.records);
+          checkpoint.updatedAt = Math.max(
+            checkpoint.updatedAt,
+            page.updatedAt,
+          );
+          intact += Buffer.byteLength(line) + 1;
+        }
+        // Cut off a torn last line, so later pages append after whole ones
+        if (intact < Buffer.byteLength(log)) {
+          await fs.truncate(file, intact);
+        }
+      }
+      return checkpoint;
+    },
+    async put(checkpoint) {
+      const target = directoryFor(checkpoint.key);
+      await fs.rm(target, { recursive: true, force: true });
+      await fs.mkdir(target, { recursive: true });
+      await fs.writeFile(
+        path.join(target, "checkpoint.json"),
+        JSON.stringify(checkpoint),
+      );
+    },
+    async append(checkpoint, collection, records) {
+      const { cursor, newest, done } = checkpoint[collection];
+      const page: LoggedPage = {
+        cursor,
+        newest,
+        done,
+        records,
+        updatedAt: checkpoint.updatedAt,
+      };
+      await fs.appendFile(
+        logFor(checkpoint.key, collection),
+        `${JSON.stringify(page)}\n`,
+      );
+    },
+    async delete(key) {
+      await fs.rm(directoryFor(key), { recursive: true, force: true });
+    },
+  };
+}
+
+let defaultStore: IndexingCheckpointStore | null = null;
+
+/**
+ * The store crawls use unless told otherwise: files under
+ * `INDEXING_CHECKPOINT_DIR` (default `.cache/checkpoints`), shared by every
+ * run in this process
+ */
+export function getDefaultCheckpointStore(): IndexingCheckpointStore {
+  if (!defaultStore) {
+    defaultStore = createFileCheckpointStore(
+      process.env.INDEXING_CHECKPOINT_DIR ||
+        path.join(process.cwd(), ".cache", "checkpoints"),
+    );
+  }
+  return defaultStore;
+}
@@ -0,0 +1,78 @@
+/**
+ * Indexing progress math
+ * Time estimates from measured step durations, and the optional easing
+ * used to display progress
+ */
+
+import { INDEXING_STEPS, IndexingStep, STEP_ORDER } from "@/app/types/indexing";
+
+export interface ProgressSnapshot {
+  currentStep: IndexingStep | null;
+  stepProgress: Record<IndexingStep, number>;
+  completedStepRecord: Record<IndexingStep, boolean>;
+  /** Measured duration of each completed step, in ms */
+  stepTimings: Record<IndexingStep, number>;
+  /** When the current step started */
+  stepStartedAt: number | null;
+}
+
+/**
+ * Milliseconds left in the run. The current step is extrapolated from its
+ * own progress rate. Steps not yet started use their nominal duration,
+ * scaled by how the completed steps compared to theirs. Returns null until
+ * there is something measured to go on.
+ */
+export function estimateTimeRemaining(
+  snapshot: ProgressSnapshot,
+  now = Date.now(),
+): number | null {
+  const { currentStep, stepProgress, completedStepRecord, stepTimings } =
+    snapshot;
+
+  let measured = 0;
+  let nominal = 0;
+  STEP_ORDER.forEach((step) => {
+    if (completedStepRecord[step] && stepTimings[step] > 0) {
+      measured += stepTimings[step];
+      nominal += INDEXING_STEPS[step].estimatedDuration;
+    }
+  });
+
+  const currentProgress = currentStep ? stepProgress[currentStep] : 0;
+  const currentElapsed =
+    currentStep && snapshot.stepStartedAt !== null
+      ? now - snapshot.stepStartedAt
+      : 0;
+
+  if (nominal === 0 && currentProgress === 0) return null;
+  const pace = nominal > 0 ? measured / nominal : 1;
+
+  let remaining = 0;
+  STEP_ORDER.forEach((step) => {
+    if (completedStepRecord[step]) return;
+    if (step === currentStep && currentProgress > 0) {
+      remaining +=
+        (currentElapsed * (100 - currentProgress)) / currentProgress;
+    } else {
+      remaining += INDEXING_STEPS[step].estimatedDuration * pace;
+    }
+  });
+
+  return Math.max(0, Math.round(remaining));
+}
+
+/**
+ * Moves a displayed progress value toward `target` with exponential easing.
+ * Never overshoots, and snaps once within half a percent.
+ */
+export function easeProgress(
+  displayed: number,
+  target: number,
+  elapsedMs: number,
+  halfLifeMs = 150,
+): number {
+  if (target <= displayed) return target;
+  const next =
+    target - (target - displayed) * Math.pow(0.5, elapsedMs / halfLifeMs);
+  return target - next < 0.5 ? target : next;
+}
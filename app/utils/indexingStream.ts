@@ -0,0 +1,27 @@
+/**
+ * Indexing progress over Server-Sent Events
+ * Wire format shared by the streaming wrapped route and its client hook
+ */
+
+import type { IndexerEvent } from "./indexerEventEmitter";
+
+/** Endpoint of the streaming variant of `/api/wrapped` */
+export const WRAPPED_STREAM_PATH = "/api/wrapped/stream";
+
+/**
+ * One SSE frame. The event name mirrors `event.type` so clients can use
+ * `addEventListener` per type; the payload is the whole event as JSON.
+ */
+export function formatSseEvent(event: IndexerEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Whether a client-supplied `runId` is safe to adopt for a server-side run
+ */
+export function isValidRunId(value: string): boolean {
+  return /^[A-Za-z0-9-]{1,64}$/.test(value);
+}
+
+/** Keeps proxies from closing an idle stream during long Horizon pages */
+export const SSE_KEEPALIVE = ": keepalive\n\n";
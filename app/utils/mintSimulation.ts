@@ -0,0 +1,180 @@
+/**
+ * Mint simulation preview
+ * Turns a Soroban RPC simulation of the mint into the costs and resources
+ * shown before signing, and simulation errors into readable messages
+ */
+
+import { Address, Transaction, rpc, xdr } from "@stellar/stellar-sdk";
+
+export interface FootprintEntry {
+  /** e.g. `Contract data`, `Contract code`, `Account` */
+  kind: string;
+  /** Contract ID or account the entry belongs to */
+  owner: string;
+  /** `persistent` or `temporary`, for contract data */
+  durability?: string;
+}
+
+export interface AuthRequirement {
+  /** Who has to sign; the source account's is the transaction signature */
+  signer: string;
+  /** Signed by the transaction's own signature rather than separately */
+  coveredByTransaction: boolean;
+  contractId: string;
+  functionName: string;
+}
+
+export interface SimulationPreview {
+  /** Fees in stroops */
+  inclusionFee: bigint;
+  resourceFee: bigint;
+  totalFee: bigint;
+  cpuInstructions: number;
+  readBytes: number;
+  writeBytes: number;
+  footprint: { readOnly: FootprintEntry[]; readWrite: FootprintEntry[] };
+  auth: AuthRequirement[];
+}
+
+function describeLedgerKey(key: xdr.LedgerKey): FootprintEntry {
+  switch (key.switch().name) {
+    case "contractData": {
+      const data = key.contractData();
+      return {
+        kind: "Contract data",
+        owner: Address.fromScAddress(data.contract()).toString(),
+        durability: data.durability().name,
+      };
+    }
+    case "contractCode":
+      return {
+        kind: "Contract code",
+        owner: key.contractCode().hash().toString("hex"),
+      };
+    case "account":
+      return {
+        kind: "Account",
+        owner: Address.account(
+          key.account().accountId().ed25519(),
+        ).toString(),
+      };
+    case "trustline":
+      return {
+        kind: "Trustline",
+        owner: Address.account(
+          key.trustLine().accountId().ed25519(),
+        ).toString(),
+      };
+    default:
+      return { kind: key.switch().name, owner: "" };
+  }
+}
+
+function describeAuthEntry(
+  entry: xdr.SorobanAuthorizationEntry,
+  source: string,
+): AuthRequirement {
+  const credentials = entry.credentials();
+  const coveredByTransaction =
+    credentials.switch().name === "sorobanCredentialsSourceAccount";
+  const invocation = entry.rootInvocation().function();
+  const call =
+    invocation.switch().name === "sorobanAuthorizedFunctionTypeContractFn"
+      ? invocation.contractFn()
+      : undefined;
+
+  return {
+    signer: coveredByTransaction
+      ? source
+      : Address.fromScAddress(credentials.address().address()).toString(),
+    coveredByTransaction,
+    contractId: call
+      ? Address.fromScAddress(call.contractAddress()).toString()
+      : "",
+    functionName: call ? call.functionName().toString() : "(contract deploy)",
+  };
+}
+
+/**
+ * Summarizes a successful simulation of `transaction`, the unassembled
+ * mint, whose fee is still just the inclusion fee.
+ */
+export function summarizeSimulation(
+  transaction: Transaction,
+  simulation: rpc.Api.SimulateTransactionSuccessResponse,
+): SimulationPreview {
+  const data = simulation.transactionData.build();
+  const resources = data.resources();
+  const footprint = resources.footprint();
+  const inclusionFee = BigInt(transaction.fee);
+  const resourceFee = BigInt(simulation.minResourceFee);
+
+  return {
+    inclusionFee,
+    resourceFee,
+    totalFee: inclusionFee + resourceFee,
+    cpuInstructions: resources.instructions(),
+    readBytes: resources.diskReadBytes(),
+    writeBytes: resources.writeBytes(),
+    footprint: {
+      readOnly: footprint.readOnly().map(describeLedgerKey),
+      readWrite: footprint.readWrite().map(describeLedgerKey),
+    },
+    auth: (simulation.result?.auth ?? []).map((entry) =>
+      describeAuthEntry(entry, transaction.source),
+    ),
+  };
+}
+
+/**
+ * Host error categories, as in `HostError: Error(Budget, ExceededLimit)`,
+ * and what they mean for a mint
+ */
+const HOST_ERRORS: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /Error\(Storage, MissingValue\)/,
+    message:
+      "The wrap contract or its data wasn't found on this network. It may " +
+      "not be deployed here, or its storage may have expired.",
+  },
+  {
+    pattern: /Error\(Auth, /,
+    message:
+      "The mint wasn't authorized. Mint from the account the wrap belongs to.",
+  },
+  {
+    pattern: /Error\(Budget, ExceededLimit\)/,
+    message: "The mint needs more resources than one transaction may use.",
+  },
+  {
+    pattern: /Error\(Value, |Error\(Object, /,
+    message:
+      "The wrap's stats don't match what the contract expects. The app " +
+      "may be out of date with the contract.",
+  },
+  {
+    pattern: /Error\(WasmVm, /,
+    message: "The contract stopped with an internal error.",
+  },
+];
+
+/**
+ * A readable explanation of a simulation error. Contract-defined errors
+ * keep their code so they can be looked up in the contract's spec.
+ */
+export function describeSimulationError(error: string): string {
+  const contractError = /Error\(Contract, #(\d+)\)/.exec(error);
+  if (contractError) {
+    return `The contract rejected the mint (error #${contractError[1]}).`;
+  }
+
+  const known = HOST_ERRORS.find(({ pattern }) => pattern.test(error));
+  if (known) return known.message;
+
+  // Unknown errors come with diagnostic event dumps; the first line is
+  // the useful part
+  const firstLine = error.split("\n")[0].trim();
+  return firstLine
+    ? `Simulation failed: ${firstLine}`
+    : "Simulation failed for an unknown reason.";
+}
@@ -0,0 +1,228 @@
+/**
+ * Wrap periods
+ * Resolves rolling and calendar periods to UTC date ranges, and converts
+ * them to and from the string form used in URLs and cache keys
+ */
+
+import type { RollingPeriod, WrapPeriod } from "./indexer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Length in days of each rolling period */
+export const PERIODS: Record<RollingPeriod, number> = {
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+  yearly: 365,
+};
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/** `start` is inclusive, `end` exclusive */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+function isRollingPeriod(value: unknown): value is RollingPeriod {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(PERIODS, value)
+  );
+}
+
+function utcDate(year: number, monthIndex: number, day = 1): Date {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+/** Formats an instant as `YYYY-MM-DDTHH:MM:SSZ` */
+function formatInstant(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/** Parses a strict `YYYY-MM-DDTHH:MM:SSZ` instant */
+function parseInstant(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(value)) return null;
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && formatInstant(date) === value ? date : null;
+}
+
+/** Parses a strict `YYYY-MM-DD` date, rejecting overflow like Feb 30 */
+function parseDay(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = utcDate(year, month - 1, day);
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+export function resolvePeriod(
+  period: WrapPeriod,
+  now: Date = new Date(),
+): DateRange {
+  if (isRollingPeriod(period)) {
+    return {
+      start: new Date(now.getTime() - PERIODS[period] * DAY_MS),
+      end: now,
+    };
+  }
+
+  switch (period.type) {
+    case "year":
+      return {
+        start: utcDate(period.year, 0),
+        end: utcDate(period.year + 1, 0),
+      };
+    case "quarter": {
+      const firstMonth = (period.quarter - 1) * 3;
+      return {
+        start: utcDate(period.year, firstMonth),
+        end: utcDate(period.year, firstMonth + 3),
+      };
+    }
+    case "month":
+      return {
+        start: utcDate(period.year, period.month - 1),
+        end: utcDate(period.year, period.month),
+      };
+    case "custom": {
+      const from = parseDay(period.from);
+      const to = parseDay(period.to);
+      if (!from || !to) {
+        throw new Error(`Invalid custom period ${period.from}..${period.to}`);
+      }
+      return { start: from, end: new Date(to.getTime() + DAY_MS) };
+    }
+    case "range": {
+      const start = parseInstant(period.start);
+      const end = parseInstant(period.end);
+      if (!start || !end) {
+        throw new Error(`Invalid range ${period.start}..${period.end}`);
+      }
+      return { start, end };
+    }
+  }
+}
+
+/**
+ * The period as the fixed range it covered: a rolling period becomes the
+ * exact `range` it was indexed over, so it can be indexed again later;
+ * other periods already are fixed. Horizon times are whole seconds, so
+ * rounding the range up to whole seconds keeps the same records in it.
+ */
+export function fixPeriod(period: WrapPeriod, range: DateRange): WrapPeriod {
+  if (!isRollingPeriod(period)) return period;
+  const toSecond = (date: Date) =>
+    formatInstant(new Date(Math.ceil(date.getTime() / 1000) * 1000));
+  return {
+    type: "range",
+    start: toSecond(range.start),
+    end: toSecond(range.end),
+  };
+}
+
+/**
+ * Stable string form: `monthly`, `2026`, `2026-Q1`, `2026-03`,
+ * `2026-01-01..2026-02-15` or `2025-10-19T12:00:00Z..2026-10-19T12:00:00Z`.
+ */
+export function serializePeriod(period: WrapPeriod): string {
+  if (isRollingPeriod(period)) return period;
+
+  switch (period.type) {
+    case "year":
+      return String(period.year);
+    case "quarter":
+      return `${period.year}-Q${period.quarter}`;
+    case "month":
+      return `${period.year}-${String(period.month).padStart(2, "0")}`;
+    case "custom":
+      return `${period.from}..${period.to}`;
+    case "range":
+      return `${period.start}..${period.end}`;
+  }
+}
+
+/**
+ * Inverse of `serializePeriod`. Returns null for anything malformed,
+ * including custom ranges that end before they start.
+ */
+export function parsePeriod(value: string): WrapPeriod | null {
+  if (isRollingPeriod(value)) return value;
+
+  let match = /^(\d{4})$/.exec(value);
+  if (match) {
+    return { type: "year", year: Number(match[1]) };
+  }
+
+  match = /^(\d{4})-Q([1-4])$/.exec(value);
+  if (match) {
+    return {
+      type: "quarter",
+      year: Number(match[1]),
+      quarter: Number(match[2]) as 1 | 2 | 3 | 4,
+    };
+  }
+
+  match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (match) {
+    const month = Number(match[2]);
+    return month >= 1 && month <= 12
+      ? { type: "month", year: Number(match[1]), month }
+      : null;
+  }
+
+  match = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/.exec(value);
+  if (match) {
+    const [from, to] = [match[1], match[2]];
+    const fromDate = parseDay(from);
+    const toDate = parseDay(to);
+    return fromDate && toDate && fromDate <= toDate
+      ? { type: "custom", from, to }
+      : null;
+  }
+
+  match = /^([\dTZ:-]+)\.\.([\dTZ:-]+)$/.exec(value);
+  if (match) {
+    const [start, end] = [match[1], match[2]];
+    const startDate = parseInstant(start);
+    const endDate = parseInstant(end);
+    return startDate && endDate && startDate < endDate
+      ? { type: "range", start, end }
+      : null;
+  }
+
+  return null;
+}
+
+/** Human-readable label, e.g. "Last 30 days", "Q1 2026", "March 2026" */
+export function describePeriod(period: WrapPeriod): string {
+  if (isRollingPeriod(period)) return `Last ${PERIODS[period]} days`;
+
+  switch (period.type) {
+    case "year":
+      return String(period.year);
+    case "quarter":
+      return `Q${period.quarter} ${period.year}`;
+    case "month":
+      return `${MONTH_NAMES[period.month - 1]} ${period.year}`;
+    case "custom":
+      return `${period.from} – ${period.to}`;
+    case "range":
+      return `${period.start.slice(0, 10)} – ${period.end.slice(0, 10)}`;
+  }
+}
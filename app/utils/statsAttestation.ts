@@ -0,0 +1,236 @@
+/**
+ * Stats attestation
+ * The server signs the stats it indexed so the contract can refuse mints
+ * of numbers nobody indexed. The signed payload is a canonical encoding
+ * the contract decodes as its `Attestation` struct.
+ */
+
+import { Keypair, StrKey, xdr } from "@stellar/stellar-sdk";
+import {
+  type ScValTargetType,
+  fromScVal,
+  isConversionError,
+  objectToScValMap,
+} from "@/src/utils/sorobanConverter";
+import { Network, isValidNetwork } from "@/src/config";
+import type { IndexerResult, WrapPeriod } from "./indexer";
+import {
+  type DateRange,
+  fixPeriod,
+  resolvePeriod,
+  serializePeriod,
+} from "./periods";
+
+/** Bumped whenever the payload's fields change */
+export const ATTESTATION_VERSION = 1;
+
+/** What the server vouches for: one account's stats over one range */
+export interface AttestedStats {
+  account: string;
+  network: Network;
+  /** Serialized period, as passed to `mint_wrap` */
+  timeframe: string;
+  /** Unix seconds; `rangeStart` inclusive, `rangeEnd` exclusive */
+  rangeStart: number;
+  rangeEnd: number;
+  /** Whole units, as minted */
+  totalVolume: number;
+  mostActiveAsset: string;
+  contractCalls: number;
+  /** Unix seconds after which the contract rejects the attestation */
+  expiresAt: number;
+}
+
+export interface StatsAttestation {
+  version: typeof ATTESTATION_VERSION;
+  stats: AttestedStats;
+  /** Public key (G...) of the attestation key that signed */
+  signer: string;
+  /** Canonical encoding of `stats` and `signer`, base64 XDR */
+  payload: string;
+  /** Ed25519 signature of the payload bytes, base64 */
+  signature: string;
+}
+
+/**
+ * Payload field types. Soroban structs are maps with their keys sorted,
+ * so the encoding lists fields in this (sorted) order.
+ */
+const PAYLOAD_FIELDS: [string, ScValTargetType][] = [
+  ["account", "address"],
+  ["contract_calls", "u32"],
+  ["expires_at", "u64"],
+  ["most_active_asset", "string"],
+  ["network", "string"],
+  ["range_end", "u64"],
+  ["range_start", "u64"],
+  ["signer", "bytes"],
+  ["timeframe", "string"],
+  ["total_volume", "u64"],
+  ["version", "u32"],
+];
+
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+/**
+ * The stats to attest for a wrap indexed over `range`. A rolling period is
+ * attested as the fixed range it covered, so the mint can be re-indexed.
+ */
+export function createAttestedStats(
+  request: { accountId: string; network: Network; period: WrapPeriod },
+  result: IndexerResult,
+  range: DateRange,
+  expiresAt: Date,
+): AttestedStats {
+  const period = fixPeriod(request.period, range);
+  const covered = resolvePeriod(period);
+  return {
+    account: request.accountId,
+    network: request.network,
+    timeframe: serializePeriod(period),
+    rangeStart: toSeconds(covered.start),
+    rangeEnd: toSeconds(covered.end),
+    totalVolume: Math.floor(result.totalVolume),
+    mostActiveAsset: result.mostActiveAsset,
+    contractCalls: result.contractCalls,
+    expiresAt: toSeconds(expiresAt),
+  };
+}
+
+/**
+ * Canonical encoding of attested stats: the XDR of an ScVal map with
+ * symbol keys in sorted order. Equal stats always encode to equal bytes.
+ * @throws Error if a stat doesn't fit its contract type
+ */
+export function encodeAttestedStats(
+  stats: AttestedStats,
+  signer: string,
+): Buffer {
+  if (!Number.isInteger(stats.totalVolume)) {
+    throw new Error("Attested volume must be in whole units");
+  }
+  const values: Record<string, unknown> = {
+    account: stats.account,
+    contract_calls: stats.contractCalls,
+    expires_at: stats.expiresAt,
+    most_active_asset: stats.mostActiveAsset,
+    network: stats.network,
+    range_end: stats.rangeEnd,
+    range_start: stats.rangeStart,
+    signer: StrKey.decodeEd25519PublicKey(signer),
+    timeframe: stats.timeframe,
+    total_volume: stats.totalVolume,
+    version: ATTESTATION_VERSION,
+  };
+
+  const encoded = objectToScValMap(
+    Object.fromEntries(PAYLOAD_FIELDS.map(([key]) => [key, values[key]])),
+    Object.fromEntries(PAYLOAD_FIELDS),
+  );
+  if (isConversionError(encoded)) {
+    throw new Error(`Can't encode attested stats: ${encoded.error}`);
+  }
+  return encoded.value.toXDR();
+}
+
+/**
+ * Reads the stats back out of an encoded payload, such as the one a
+ * `mint_wrap` call carries. Returns null for anything that isn't one.
+ */
+export function decodeAttestedStats(payload: Uint8Array): AttestedStats | null {
+  let fields: Record<string, unknown> | null;
+  try {
+    fields = fromScVal(xdr.ScVal.fromXDR(Buffer.from(payload))) as Record<
+      string,
+      unknown
+    > | null;
+  } catch {
+    return null;
+  }
+  if (typeof fields !== "object" || fields === null) return null;
+
+  const number = (value: unknown) =>
+    typeof value === "bigint" ? Number(value) : value;
+  const stats = {
+    account: fields.account,
+    network: fields.network,
+    timeframe: fields.timeframe,
+    rangeStart: number(fields.range_start),
+    rangeEnd: number(fields.range_end),
+    totalVolume: number(fields.total_volume),
+    mostActiveAsset: fields.most_active_asset,
+    contractCalls: number(fields.contract_calls),
+    expiresAt: number(fields.expires_at),
+  };
+  const { account, network, timeframe, mostActiveAsset } = stats;
+  const strings = [account, network, timeframe, mostActiveAsset];
+  const numbers = [
+    stats.rangeStart,
+    stats.rangeEnd,
+    stats.totalVolume,
+    stats.contractCalls,
+    stats.expiresAt,
+  ];
+  return strings.every((value) => typeof value === "string") &&
+    numbers.every((value) => typeof value === "number") &&
+    isValidNetwork(network as string)
+    ? (stats as AttestedStats)
+    : null;
+}
+
+/** Signs the canonical encoding of `stats` with `key` */
+export function signAttestedStats(
+  stats: AttestedStats,
+  key: Keypair,
+): StatsAttestation {
+  const signer = key.publicKey();
+  const payload = encodeAttestedStats(stats, signer);
+  return {
+    version: ATTESTATION_VERSION,
+    stats,
+    signer,
+    payload: payload.toString("base64"),
+    signature: key.sign(payload).toString("base64"),
+  };
+}
+
+/**
+ * For clients: an attestation whose payload is the encoding of the stats
+ * it lists, so those stats are exactly what the contract will check.
+ * @throws Error if the value isn't a consistent attestation
+ */
+export function parseStatsAttestation(value: unknown): StatsAttestation {
+  const fail = (problem: string): never => {
+    throw new Error(`Unexpected /api/wrapped/attest response: ${problem}`);
+  };
+
+  const attestation = value as Partial<StatsAttestation> | null;
+  if (typeof attestation !== "object" || attestation === null) {
+    return fail("not an object");
+  }
+  if (attestation.version !== ATTESTATION_VERSION) {
+    return fail(`unsupported version ${attestation.version}`);
+  }
+  const { stats, signer, payload, signature } = attestation;
+  if (
+    typeof signer !== "string" ||
+    typeof payload !== "string" ||
+    typeof signature !== "string"
+  ) {
+    return fail("missing signer, payload or signature");
+  }
+  if (typeof stats !== "object" || !isValidNetwork(stats?.network ?? "")) {
+    return fail("missing stats");
+  }
+
+  let encoded: string;
+  try {
+    encoded = encodeAttestedStats(stats, signer).toString("base64");
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+  if (encoded !== payload) {
+    return fail("payload doesn't match the stats");
+  }
+  return attestation as StatsAttestation;
+}
@@ -1,22 +1,226 @@
 /**
  * Stellar Horizon client factory
- * Creates and manages Horizon server instances for different networks
+ * Creates and manages Horizon server instances for different networks, with
+ * health checking and failover across each network's ordered endpoints
  */
 
 import { Horizon } from "@stellar/stellar-sdk";
-import { NEXT_PUBLIC_RPC_ENDPOINTS } from "./indexer";
+import { Network, getNetworkConfig } from "@/src/config";
+import { abortable, withTimeout } from "./abort";
 
-type NetworkType = "mainnet" | "testnet";
+const UNHEALTHY_COOLDOWN_MS = 60_000;
+const PROBE_INTERVAL_MS = 30_000;
+const PROBE_TIMEOUT_MS = 5_000;
+/** Ledgers Horizon's ingestion may trail its own Stellar Core */
+const MAX_INGEST_LAG_LEDGERS = 10;
+/** Ledgers an endpoint may trail the most up-to-date endpoint */
+const MAX_PEER_LAG_LEDGERS = 10;
+/** Age of the newest ingested ledger before an endpoint counts as stalled */
+const MAX_LEDGER_AGE_MS = 2 * 60_000;
 
-const horizonServers: Record<NetworkType, Horizon.Server> = {
-  mainnet: new Horizon.Server(NEXT_PUBLIC_RPC_ENDPOINTS.mainnet),
-  testnet: new Horizon.Server(NEXT_PUBLIC_RPC_ENDPOINTS.testnet),
-};
+/** The parts of Horizon's root endpoint used to judge its health */
+export interface HorizonRootStatus {
+  history_latest_ledger: number;
+  history_latest_ledger_closed_at: string;
+  core_latest_ledger: number;
+}
+
+export interface HorizonHealth {
+  healthy: boolean;
+  /** Why the endpoint was judged unhealthy */
+  reason?: string;
+  latestLedger?: number;
+}
+
+/**
+ * Judges one endpoint from its root response. `newestLedger` is the highest
+ * ledger any endpoint of the same network reported, so an endpoint that
+ * is up but far behind its peers is also passed over.
+ */
+export function assessHorizonHealth(
+  root: HorizonRootStatus,
+  now = Date.now(),
+  newestLedger = root.history_latest_ledger,
+): HorizonHealth {
+  const latestLedger = root.history_latest_ledger;
+  const ingestLag = root.core_latest_ledger - latestLedger;
+  if (ingestLag > MAX_INGEST_LAG_LEDGERS) {
+    return {
+      healthy: false,
+      reason: `ingestion is ${ingestLag} ledgers behind Stellar Core`,
+      latestLedger,
+    };
+  }
+
+  const peerLag = newestLedger - latestLedger;
+  if (peerLag > MAX_PEER_LAG_LEDGERS) {
+    return {
+      healthy: false,
+      reason: `${peerLag} ledgers behind other endpoints`,
+      latestLedger,
+    };
+  }
+
+  const age = now - Date.parse(root.history_latest_ledger_closed_at);
+  if (age > MAX_LEDGER_AGE_MS) {
+    return {
+      healthy: false,
+      reason: `no new ledger for ${Math.round(age / 1000)}s`,
+      latestLedger,
+    };
+  }
+
+  return { healthy: true, latestLedger };
+}
+
+export interface HorizonEndpoint {
+  url: string;
+  server: Horizon.Server;
+  /** The endpoint is skipped until then; 0 when healthy */
+  unhealthyUntil: number;
+}
+
+export interface HorizonPoolOptions {
+  cooldownMs?: number;
+  probeIntervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * A network's Horizon endpoints in order of preference. Requests go to the
+ * first endpoint not cooling down; one that fails is marked unhealthy and
+ * skipped until its cooldown runs out.
+ */
+export class HorizonPool {
+  readonly endpoints: HorizonEndpoint[];
+  private readonly cooldownMs: number;
+  private readonly probeIntervalMs: number;
+  private readonly now: () => number;
+  private lastProbe = 0;
+  private probing: Promise<void> | null = null;
+
+  constructor(
+    urlsOrServers: (string | Horizon.Server)[],
+    options: HorizonPoolOptions = {},
+  ) {
+    this.endpoints = urlsOrServers.map((entry) =>
+      typeof entry === "string"
+        ? { url: entry, server: createServer(entry), unhealthyUntil: 0 }
+        : { url: entry.serverURL.toString(), server: entry, unhealthyUntil: 0 },
+    );
+    this.cooldownMs = options.cooldownMs ?? UNHEALTHY_COOLDOWN_MS;
+    this.probeIntervalMs = options.probeIntervalMs ?? PROBE_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+  }
 
-export function getHorizonServer(
-  network: NetworkType = "mainnet",
-): Horizon.Server {
-  return horizonServers[network];
+  /**
+   * The preferred endpoint that isn't cooling down. When every endpoint is,
+   * the one that recovers soonest is used rather than failing outright.
+   */
+  current(): Horizon.Server {
+    const now = this.now();
+    const available = this.endpoints.find(
+      (endpoint) => endpoint.unhealthyUntil <= now,
+    );
+    if (available) return available.server;
+
+    return this.endpoints.reduce((soonest, endpoint) =>
+      endpoint.unhealthyUntil < soonest.unhealthyUntil ? endpoint : soonest,
+    ).server;
+  }
+
+  markUnhealthy(server: Horizon.Server, reason?: string): void {
+    const endpoint = this.endpoints.find((entry) => entry.server === server);
+    if (!endpoint) return;
+    endpoint.unhealthyUntil = this.now() + this.cooldownMs;
+    if (this.endpoints.length > 1) {
+      const detail = reason ? ` (${reason})` : "";
+      console.warn(`Horizon endpoint ${endpoint.url} unhealthy${detail}`);
+    }
+  }
+
+  markHealthy(server: Horizon.Server): void {
+    const endpoint = this.endpoints.find((entry) => entry.server === server);
+    if (endpoint) endpoint.unhealthyUntil = 0;
+  }
+
+  /**
+   * Probes every endpoint's root and marks each healthy or not. Skipped if
+   * the pool was probed recently; concurrent callers share one probe.
+   * Never rejects, except when `signal` aborts.
+   */
+  async checkHealth(signal?: AbortSignal): Promise<void> {
+    if (this.endpoints.length > 1) {
+      const due = this.now() - this.lastProbe >= this.probeIntervalMs;
+      if (!this.probing && due) {
+        this.probing = this.probe().finally(() => {
+          this.lastProbe = this.now();
+          this.probing = null;
+        });
+      }
+      if (this.probing) await abortable(this.probing, signal);
+    }
+  }
+
+  private async probe(): Promise<void> {
+    const roots = await Promise.all(
+      this.endpoints.map((endpoint) =>
+        withTimeout(endpoint.server.root(), PROBE_TIMEOUT_MS).then(
+          (root): HorizonRootStatus | string => root,
+          (error: unknown) =>
+            error instanceof Error ? error.message : String(error),
+        ),
+      ),
+    );
+    const newestLedger = Math.max(
+      0,
+      ...roots.map((root) =>
+        typeof root === "string" ? 0 : root.history_latest_ledger,
+      ),
+    );
+
+    roots.forEach((root, index) => {
+      const { server } = this.endpoints[index];
+      // A failed probe leaves its error message in place of the root
+      if (typeof root === "string") {
+        this.markUnhealthy(server, root);
+        return;
+      }
+      const health = assessHorizonHealth(root, this.now(), newestLedger);
+      if (health.healthy) {
+        this.markHealthy(server);
+      } else {
+        this.markUnhealthy(server, health.reason);
+      }
+    });
+  }
+}
+
+function createServer(url: string): Horizon.Server {
+  // Local networks (e.g. a quickstart container) are served over plain HTTP
+  return new Horizon.Server(url, { allowHttp: url.startsWith("http://") });
+}
+
+const horizonPools = new Map<Network, HorizonPool>();
+
+/** The network's configured Horizon URL followed by its fallbacks */
+export function getHorizonPool(network: Network = "mainnet"): HorizonPool {
+  let pool = horizonPools.get(network);
+  if (!pool) {
+    const { horizonUrl, fallbackHorizonUrls } = getNetworkConfig(network);
+    pool = new HorizonPool([horizonUrl, ...fallbackHorizonUrls]);
+    horizonPools.set(network, pool);
+  }
+  return pool;
+}
+
+/**
+ * The healthiest Horizon server for a network right now. Long-running work
+ * should hold the pool from `getHorizonPool` instead, so it can fail over
+ * between requests.
+ */
+export function getHorizonServer(network: Network = "mainnet"): Horizon.Server {
+  return getHorizonPool(network).current();
 }
 
 export function validateAccountId(accountId: string): boolean {
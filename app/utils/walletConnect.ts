@@ -15,7 +15,7 @@ export const isFreighterInstalled = async (): Promise<boolean> => {
 
 /**
  * Connects to Freighter wallet and returns the user's public key
- * @param _network - The network to connect to (mainnet or testnet)
+ * @param _network - The network to connect to
  * @throws {Error} If wallet is not installed, user rejects connection, or any other error occurs
  */
 export const connectFreighter = async (_network: Network): Promise<string> => {
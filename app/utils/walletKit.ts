@@ -1,12 +1,35 @@
 import { StellarWalletsKit } from "@creit-tech/stellar-wallets-kit/sdk";
 import { defaultModules } from "@creit-tech/stellar-wallets-kit/modules/utils";
 import { WalletConnectModule } from "@creit-tech/stellar-wallets-kit/modules/wallet-connect";
+// The mint uses the same SDK as contractArgsBuilder so its ScVals are the
+// XDR classes the transaction builder expects
+import {
+  BASE_FEE,
+  Contract,
+  Transaction,
+  TransactionBuilder,
+  rpc,
+} from "@stellar/stellar-sdk";
 import { transactionObserver } from "../../services/transactionObserver";
-
-// Contract address from environment variable with fallback placeholder
-const CONTRACT_ADDRESS =
-  process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
-  "CAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+import {
+  ContractStatsInput,
+  buildContractArgs,
+} from "@/src/utils/contractArgsBuilder";
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_NETWORK,
+  Network,
+  getNetworkConfig,
+} from "@/src/config";
+import {
+  SimulationPreview,
+  describeSimulationError,
+  summarizeSimulation,
+} from "./mintSimulation";
+import {
+  StatsAttestation,
+  parseStatsAttestation,
+} from "./statsAttestation";
 
 if (!process.env.NEXT_PUBLIC_CONTRACT_ADDRESS) {
   console.warn(
@@ -39,50 +62,261 @@ export function initWalletKit(): void {
   }
 }
 
+const MINT_FUNCTION = "mint_wrap";
+
+/** How long a built mint stays valid for signing and submission */
+const MINT_TIMEOUT_SECONDS = 300;
+
+let sorobanServer: rpc.Server | null = null;
+
+/** Soroban RPC of the network the contract is deployed to */
+function getSorobanServer(): rpc.Server {
+  if (!sorobanServer) {
+    const url = getNetworkConfig(CONTRACT_NETWORK).sorobanRpcUrl;
+    sorobanServer = new rpc.Server(url, {
+      allowHttp: url.startsWith("http://"),
+    });
+  }
+  return sorobanServer;
+}
+
 /**
- * Mint the user's Stellar Wrapped as a Soulbound Token NFT
+ * Asks the server to sign the stats it indexed for `userAddress`. The
+ * contract only mints attested stats, so they must be the ones the user
+ * was shown.
+ */
+async function requestAttestation(
+  userAddress: string,
+  network: Network,
+  stats: ContractStatsInput,
+): Promise<StatsAttestation> {
+  const params = new URLSearchParams({
+    accountId: userAddress,
+    network,
+    period: stats.timeframe ?? "monthly",
+  });
+  const response = await fetch(`/api/wrapped/attest?${params}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      `Couldn't attest your stats: ${body.error ?? response.status}`,
+    );
+  }
+
+  const attestation = parseStatsAttestation(await response.json());
+  const attested = attestation.stats;
+  if (
+    attested.network !== network ||
+    attested.totalVolume !== Math.floor(stats.totalVolume) ||
+    attested.mostActiveAsset !== stats.mostActiveAsset ||
+    attested.contractCalls !== stats.contractCalls
+  ) {
+    throw new Error(
+      "Your wrap has changed since it was loaded. Refresh it and try again.",
+    );
+  }
+  return attestation;
+}
+
+/**
+ * Builds the `mint_wrap` invocation for `userAddress`, who is both the
+ * source account and the recipient, carrying the server's attestation.
+ */
+async function buildMintTransaction(
+  server: rpc.Server,
+  userAddress: string,
+  attestation: StatsAttestation,
+): Promise<Transaction> {
+  const { stats } = attestation;
+  const built = buildContractArgs(
+    {
+      totalVolume: stats.totalVolume,
+      mostActiveAsset: stats.mostActiveAsset,
+      contractCalls: stats.contractCalls,
+      timeframe: stats.timeframe,
+    },
+    userAddress,
+    {
+      payload: Buffer.from(attestation.payload, "base64"),
+      signature: Buffer.from(attestation.signature, "base64"),
+    },
+  );
+  if (!built.success) {
+    throw new Error(`Invalid wrap stats: ${built.errors.join("; ")}`);
+  }
+
+  const account = await server.getAccount(userAddress);
+  return new TransactionBuilder(account, {
+    fee: BASE_FEE,
+    networkPassphrase: getNetworkConfig(CONTRACT_NETWORK).passphrase,
+  })
+    .addOperation(
+      new Contract(CONTRACT_ADDRESS).call(MINT_FUNCTION, ...built.data.args),
+    )
+    .setTimeout(MINT_TIMEOUT_SECONDS)
+    .build();
+}
+
+/** A simulated mint, assembled and waiting for the user to confirm it */
+export interface PreparedMint {
+  userAddress: string;
+  transaction: Transaction;
+  preview: SimulationPreview;
+  /** Period the wrap is minted under; a rolling one is the range it covered */
+  timeframe: string;
+}
+
+/**
+ * Simulates the mint and returns it with the resource footprint, auth
+ * entries and resource fee from the simulation applied.
+ */
+async function simulateMintTransaction(
+  server: rpc.Server,
+  transaction: Transaction,
+): Promise<{ assembled: Transaction; preview: SimulationPreview }> {
+  const simulation = await server.simulateTransaction(transaction);
+  if (rpc.Api.isSimulationError(simulation)) {
+    throw new Error(describeSimulationError(simulation.error));
+  }
+  if (rpc.Api.isSimulationRestore(simulation)) {
+    throw new Error(
+      "The contract's storage has been archived and must be restored first",
+    );
+  }
+  return {
+    assembled: rpc.assembleTransaction(transaction, simulation).build(),
+    preview: summarizeSimulation(transaction, simulation),
+  };
+}
+
+/**
+ * Asks the connected wallet to sign the assembled mint.
+ */
+async function signMintTransaction(
+  transaction: Transaction,
+  userAddress: string,
+): Promise<Transaction> {
+  const { passphrase } = getNetworkConfig(CONTRACT_NETWORK);
+  const { signedTxXdr } = await StellarWalletsKit.signTransaction(
+    transaction.toXDR(),
+    { address: userAddress, networkPassphrase: passphrase },
+  );
+  return TransactionBuilder.fromXDR(signedTxXdr, passphrase) as Transaction;
+}
+
+/**
+ * Sends the signed mint to Soroban RPC. Resolves with its hash once the
+ * network has accepted it for inclusion.
+ */
+async function submitMintTransaction(
+  server: rpc.Server,
+  transaction: Transaction,
+): Promise<string> {
+  const sent = await server.sendTransaction(transaction);
+  switch (sent.status) {
+    case "PENDING":
+    case "DUPLICATE":
+      return sent.hash;
+    case "TRY_AGAIN_LATER":
+      throw new Error("The network is busy. Please try again shortly.");
+    default:
+      throw new Error(
+        `Transaction rejected: ${
+          sent.errorResult?.result().switch().name ?? sent.status
+        }`,
+      );
+  }
+}
+
+/** Fails the observed transaction and rethrows with a mint prefix */
+function failMint(error: unknown): never {
+  if (error instanceof Error) {
+    transactionObserver.markFailed(error);
+    throw new Error(`Minting failed: ${error.message}`);
+  }
+  const genericError = new Error("Minting failed: Unknown error occurred");
+  transactionObserver.markFailed(genericError);
+  throw genericError;
+}
+
+/**
+ * First half of minting the user's Stellar Wrapped as a Soulbound Token
+ * NFT: builds and simulates the mint, leaving the observer in `simulated`
+ * so the costs can be shown before anything is signed.
  * @param userAddress - The connected Stellar wallet address
- * @returns Transaction hash on success
- * @throws Error if minting fails or user rejects transaction
+ * @param network - The network the wrap was indexed on
+ * @param stats - The stats the user was shown; the server attests its own
+ *   index of them, and minting stops if the two differ
+ * @returns The assembled mint and its simulation preview
+ * @throws Error if building or simulation fails
  */
-export async function mintWrap(userAddress: string): Promise<string> {
+export async function prepareMint(
+  userAddress: string,
+  network: Network,
+  stats: ContractStatsInput,
+): Promise<PreparedMint> {
   try {
     // Ensure wallet kit is initialized
     initWalletKit();
+    const server = getSorobanServer();
 
     transactionObserver.startTransaction();
+    const attestation = await requestAttestation(
+      userAddress,
+      network,
+      stats,
+    );
+    const transaction = await buildMintTransaction(
+      server,
+      userAddress,
+      attestation,
+    );
 
-    // The actual implementation will construct the transaction here.
-    // Transitioning to 'simulating' (this is where we'd call Soroban RPC simulateTransaction)
     transactionObserver.markSimulating();
+    const { assembled, preview } = await simulateMintTransaction(
+      server,
+      transaction,
+    );
+    transactionObserver.markSimulated();
 
-    // Since contract logic is blocked on Issue #37, this will throw the error.
-    // In actual implementation, we'd proceed to markSimulated(), ask for wallet signature (markSigning()),
-    // markSigned(), and markSubmitting() -> markSubmitted(txHash).
-    const txHash = await invokeMintWrapContract(userAddress);
-
-    return txHash;
+    return {
+      userAddress,
+      transaction: assembled,
+      preview,
+      timeframe: attestation.stats.timeframe,
+    };
   } catch (error) {
-    if (error instanceof Error) {
-      transactionObserver.markFailed(error);
-      throw new Error(`Minting failed: ${error.message}`);
-    }
-    const genericError = new Error("Minting failed: Unknown error occurred");
-    transactionObserver.markFailed(genericError);
-    throw genericError;
+    return failMint(error);
   }
 }
 
 /**
- * Internal function to invoke the mint_wrap contract function
- * This is a placeholder that will be replaced with actual Soroban contract invocation
+ * Second half of minting, once the user has confirmed the preview: has
+ * the wallet sign the mint and submits it.
+ * @returns Transaction hash once submitted; confirmation is tracked by the
+ * observer
+ * @throws Error if the user rejects the signature or submission fails
  */
-async function invokeMintWrapContract(userAddress: string): Promise<string> {
-  // TODO: Replace this placeholder with actual Soroban contract invocation
-  // when the contract engineer provides the contract details
+export async function confirmMint({
+  userAddress,
+  transaction,
+}: PreparedMint): Promise<string> {
+  try {
+    transactionObserver.markSigning();
+    const signed = await signMintTransaction(transaction, userAddress);
+    transactionObserver.markSigned();
 
-  throw new Error(
-    "Contract integration pending. The mint_wrap function will be implemented by the contract engineer. " +
-      `Contract address: ${CONTRACT_ADDRESS}, User: ${userAddress}`,
-  );
+    transactionObserver.markSubmitting();
+    const txHash = await submitMintTransaction(getSorobanServer(), signed);
+    transactionObserver.markSubmitted(txHash);
+
+    return txHash;
+  } catch (error) {
+    return failMint(error);
+  }
+}
+
+/** Drops a prepared mint the user declined to sign */
+export function cancelMint(): void {
+  transactionObserver.resetState();
 }
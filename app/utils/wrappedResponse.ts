@@ -0,0 +1,270 @@
+/**
+ * /api/wrapped response schema
+ * The versioned envelope both wrapped routes send, with the runtime
+ * validator the server checks its output with and clients check their
+ * input with
+ */
+
+import { Network, isValidNetwork } from "@/src/config";
+import type { IndexerResult, WrapPeriod } from "./indexer";
+import { parsePeriod, resolvePeriod, serializePeriod } from "./periods";
+
+/** Bumped whenever the shape changes in a way old clients can't read */
+export const WRAPPED_SCHEMA_VERSION = 1;
+
+export interface WrappedResponse {
+  schemaVersion: typeof WRAPPED_SCHEMA_VERSION;
+  /** When this response was sent (ISO 8601) */
+  generatedAt: string;
+  accountId: string;
+  network: Network;
+  /** Serialized period, e.g. `monthly` or `2026-Q1` */
+  period: string;
+  /** The exact range covered: `start` inclusive, `end` exclusive */
+  range: { start: string; end: string };
+  freshness: {
+    /** Served from the cache rather than indexed for this request */
+    cached: boolean;
+    /** When the data was indexed */
+    indexedAt: string;
+    /** When the cache stops serving it without a refresh */
+    staleAt: string;
+  };
+  data: IndexerResult;
+}
+
+/**
+ * Wraps an indexer result for sending. `indexedAt` also fixes where a
+ * rolling period's range ended.
+ */
+export function createWrappedResponse(
+  request: { accountId: string; network: Network; period: WrapPeriod },
+  data: IndexerResult,
+  freshness: { cached: boolean; indexedAt: number; staleAt: number },
+  now = Date.now(),
+): WrappedResponse {
+  const range = resolvePeriod(request.period, new Date(freshness.indexedAt));
+  return {
+    schemaVersion: WRAPPED_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    accountId: request.accountId,
+    network: request.network,
+    period: serializePeriod(request.period),
+    range: { start: range.start.toISOString(), end: range.end.toISOString() },
+    freshness: {
+      cached: freshness.cached,
+      indexedAt: new Date(freshness.indexedAt).toISOString(),
+      staleAt: new Date(freshness.staleAt).toISOString(),
+    },
+    data,
+  };
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/** Checks one value, adding a message per problem found at `path` */
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+function typeCheck(type: "string" | "number" | "boolean"): Check {
+  return (value, path, errors) => {
+    const finite = type !== "number" || Number.isFinite(value);
+    if (typeof value !== type || !finite) {
+      errors.push(`${path}: expected ${type}`);
+    }
+  };
+}
+
+const isString = typeCheck("string");
+const isNumber = typeCheck("number");
+const isBoolean = typeCheck("boolean");
+
+const isTimestamp: Check = (value, path, errors) => {
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    errors.push(`${path}: expected an ISO 8601 timestamp`);
+  }
+};
+
+function optional(check: Check): Check {
+  return (value, path, errors) => {
+    if (value !== undefined) check(value, path, errors);
+  };
+}
+
+function nullable(check: Check): Check {
+  return (value, path, errors) => {
+    if (value !== null) check(value, path, errors);
+  };
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected an array`);
+      return;
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+  };
+}
+
+/** Every field of `T` must have a check, so the schema tracks the type */
+function objectOf<T>(shape: { [K in keyof T]-?: Check }): Check {
+  return (value, path, errors) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) =>
+      shape[key](record[key], `${path}.${key}`, errors),
+    );
+  };
+}
+
+type Element<T> = T extends (infer U)[] ? U : never;
+
+const checkIndexerResult = objectOf<IndexerResult>({
+  accountId: isString,
+  totalTransactions: isNumber,
+  totalVolume: isNumber,
+  volumeByAsset: arrayOf(
+    objectOf<Element<IndexerResult["volumeByAsset"]>>({
+      asset: isString,
+      code: isString,
+      issuer: optional(isString),
+      volume: isNumber,
+      stroops: isString,
+      operations: isNumber,
+    }),
+  ),
+  fiatVolume: nullable(
+    objectOf<NonNullable<IndexerResult["fiatVolume"]>>({
+      quoteAsset: isString,
+      quoteLabel: isString,
+      total: isNumber,
+      byAsset: arrayOf(
+        objectOf<{ asset: string; code: string; value: number }>({
+          asset: isString,
+          code: isString,
+          value: isNumber,
+        }),
+      ),
+      unpricedAssets: arrayOf(isString),
+    }),
+  ),
+  mostActiveAsset: isString,
+  contractCalls: isNumber,
+  contracts: arrayOf(
+    objectOf<Element<IndexerResult["contracts"]>>({
+      contractId: isString,
+      dappId: optional(isString),
+      dappName: optional(isString),
+      calls: isNumber,
+      functions: arrayOf(
+        objectOf<{ name: string; calls: number }>({
+          name: isString,
+          calls: isNumber,
+        }),
+      ),
+      events: isNumber,
+    }),
+  ),
+  gasSpent: isNumber,
+  fees: objectOf<IndexerResult["fees"]>({
+    totalStroops: isString,
+    inclusionStroops: isString,
+    resourceStroops: isString,
+    total: isNumber,
+    inclusion: isNumber,
+    resource: isNumber,
+    transactionsPaid: isNumber,
+    feeBumpsPaid: isNumber,
+  }),
+  dapps: arrayOf(
+    objectOf<Element<IndexerResult["dapps"]>>({
+      id: isString,
+      name: isString,
+      icon: optional(isString),
+      color: optional(isString),
+      homeDomain: optional(isString),
+      volume: isNumber,
+      transactionCount: isNumber,
+    }),
+  ),
+  vibes: arrayOf(
+    objectOf<Element<IndexerResult["vibes"]>>({
+      tag: isString,
+      count: isNumber,
+    }),
+  ),
+  activity: objectOf<IndexerResult["activity"]>({
+    payments: isNumber,
+    trades: isNumber,
+    pathPayments: isNumber,
+    liquidity: isNumber,
+    contractCalls: isNumber,
+    other: isNumber,
+  }),
+});
+
+const checkWrappedResponse = objectOf<WrappedResponse>({
+  schemaVersion: (value, path, errors) => {
+    if (value !== WRAPPED_SCHEMA_VERSION) {
+      errors.push(
+        `${path}: unsupported version ${String(value)}, ` +
+          `expected ${WRAPPED_SCHEMA_VERSION}`,
+      );
+    }
+  },
+  generatedAt: isTimestamp,
+  accountId: isString,
+  network: (value, path, errors) => {
+    if (typeof value !== "string" || !isValidNetwork(value)) {
+      errors.push(`${path}: unknown network`);
+    }
+  },
+  period: (value, path, errors) => {
+    if (typeof value !== "string" || !parsePeriod(value)) {
+      errors.push(`${path}: not a period`);
+    }
+  },
+  range: objectOf<WrappedResponse["range"]>({
+    start: isTimestamp,
+    end: isTimestamp,
+  }),
+  freshness: objectOf<WrappedResponse["freshness"]>({
+    cached: isBoolean,
+    indexedAt: isTimestamp,
+    staleAt: isTimestamp,
+  }),
+  data: checkIndexerResult,
+});
+
+/**
+ * Checks an untrusted value against the schema. Returns every problem
+ * found, each prefixed with its path (e.g. `response.data.fees.total`).
+ */
+export function validateWrappedResponse(
+  value: unknown,
+):
+  | { valid: true; response: WrappedResponse }
+  | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  checkWrappedResponse(value, "response", errors);
+  return errors.length === 0
+    ? { valid: true, response: value as WrappedResponse }
+    : { valid: false, errors };
+}
+
+/**
+ * For clients: the validated response, or an error naming the first few
+ * problems.
+ */
+export function parseWrappedResponse(value: unknown): WrappedResponse {
+  const validation = validateWrappedResponse(value);
+  if (!validation.valid) {
+    const shown = validation.errors.slice(0, 3).join("; ");
+    const more = validation.errors.length > 3 ? " …" : "";
+    throw new Error(`Unexpected /api/wrapped response: ${shown}${more}`);
+  }
+  return validation.response;
+}
@@ -6,6 +6,7 @@ import { Screen4VibeCheck } from "@/app/components/Screen4VibeCheck";
 import { ProgressIndicator } from "@/app/components/ProgressIndicator";
 import { ShareButtons } from "@/app/components/ShareButtons";
 import { MuteToggle } from "@/app/components/MuteToggle";
+import { DemoBadge } from "@/app/components/DemoBadge";
 import { useWrapStore } from "@/app/store/wrapStore";
 import { motion } from "framer-motion";
 
@@ -17,6 +18,7 @@ export default function VibeCheckPage() {
   return (
     <div className="relative w-full h-screen">
       <Screen4VibeCheck vibes={vibes} />
+      <DemoBadge />
 
       <ProgressIndicator
         currentStep={4}
@@ -1,10 +1,14 @@
-import { rpc } from "stellar-sdk";
+import { rpc } from "@stellar/stellar-sdk";
 import { useTransactionStore } from "../app/store/transactionStore";
-
-// The RPC URL for Soroban / Stellar network. Hardcoded for testnet based on typical usage, 
-// or can be injected.
-const RPC_URL = process.env.NEXT_PUBLIC_STELLAR_RPC_URL || "https://soroban-testnet.stellar.org";
-const server = new rpc.Server(RPC_URL);
+import { CONTRACT_NETWORK, getNetworkConfig } from "../src/config";
+
+// Soroban RPC of the network the contract is deployed to. Set it with
+// NEXT_PUBLIC_<NETWORK>_SOROBAN_RPC_URL; the older NEXT_PUBLIC_STELLAR_RPC_URL
+// still takes precedence so existing deployments keep their endpoint.
+const RPC_URL =
+  process.env.NEXT_PUBLIC_STELLAR_RPC_URL ||
+  getNetworkConfig(CONTRACT_NETWORK).sorobanRpcUrl;
+const server = new rpc.Server(RPC_URL, { allowHttp: RPC_URL.startsWith("http://") });
 
 /**
  * TransactionObserver tracks a transaction through its lifecycle
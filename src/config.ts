@@ -1,29 +1,114 @@
 /**
  * Global configuration for Stellar Wrap
- * Defines network types and RPC endpoints
+ * The network registry: every network's endpoints, passphrase and explorer
  */
 
 export const NETWORKS = {
   MAINNET: 'mainnet',
   TESTNET: 'testnet',
+  FUTURENET: 'futurenet',
+  CUSTOM: 'custom',
 } as const;
 
 export type Network = typeof NETWORKS[keyof typeof NETWORKS];
 
 /**
- * RPC endpoint configuration for each network
+ * Everything needed to talk to one Stellar network
  */
-export const RPC_ENDPOINTS: Record<Network, string> = {
-  mainnet: 'https://horizon.stellar.org',
-  testnet: 'https://horizon-testnet.stellar.org',
+export interface NetworkConfig {
+  id: Network;
+  name: string;
+  horizonUrl: string;
+  /** Tried in order when `horizonUrl` is unavailable */
+  fallbackHorizonUrls: string[];
+  sorobanRpcUrl: string;
+  passphrase: string;
+  /** Base URL for explorer links, without a trailing slash; absent for local networks */
+  explorerUrl?: string;
+}
+
+/**
+ * Comma-separated URL list from an environment variable
+ */
+function urlList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Each network's URLs can be overridden at build time. Variables are named
+ * out in full because Next.js only inlines literal `process.env.NEXT_PUBLIC_*`
+ * reads into client bundles.
+ */
+export const NETWORK_CONFIGS: Record<Network, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    horizonUrl:
+      process.env.NEXT_PUBLIC_MAINNET_HORIZON_URL || 'https://horizon.stellar.org',
+    fallbackHorizonUrls: urlList(process.env.NEXT_PUBLIC_MAINNET_HORIZON_FALLBACK_URLS),
+    sorobanRpcUrl:
+      process.env.NEXT_PUBLIC_MAINNET_SOROBAN_RPC_URL || 'https://mainnet.sorobanrpc.com',
+    passphrase: 'Public Global Stellar Network ; September 2015',
+    explorerUrl: 'https://stellar.expert/explorer/public',
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'Testnet',
+    horizonUrl:
+      process.env.NEXT_PUBLIC_TESTNET_HORIZON_URL || 'https://horizon-testnet.stellar.org',
+    fallbackHorizonUrls: urlList(process.env.NEXT_PUBLIC_TESTNET_HORIZON_FALLBACK_URLS),
+    sorobanRpcUrl:
+      process.env.NEXT_PUBLIC_TESTNET_SOROBAN_RPC_URL || 'https://soroban-testnet.stellar.org',
+    passphrase: 'Test SDF Network ; September 2015',
+    explorerUrl: 'https://stellar.expert/explorer/testnet',
+  },
+  futurenet: {
+    id: 'futurenet',
+    name: 'Futurenet',
+    horizonUrl:
+      process.env.NEXT_PUBLIC_FUTURENET_HORIZON_URL || 'https://horizon-futurenet.stellar.org',
+    fallbackHorizonUrls: urlList(process.env.NEXT_PUBLIC_FUTURENET_HORIZON_FALLBACK_URLS),
+    sorobanRpcUrl:
+      process.env.NEXT_PUBLIC_FUTURENET_SOROBAN_RPC_URL || 'https://rpc-futurenet.stellar.org',
+    passphrase: 'Test SDF Future Network ; October 2022',
+    explorerUrl: 'https://stellar.expert/explorer/futurenet',
+  },
+  // Defaults match the `stellar/quickstart` container in local mode
+  custom: {
+    id: 'custom',
+    name: 'Custom',
+    horizonUrl: process.env.NEXT_PUBLIC_CUSTOM_HORIZON_URL || 'http://localhost:8000',
+    fallbackHorizonUrls: urlList(process.env.NEXT_PUBLIC_CUSTOM_HORIZON_FALLBACK_URLS),
+    sorobanRpcUrl:
+      process.env.NEXT_PUBLIC_CUSTOM_SOROBAN_RPC_URL || 'http://localhost:8000/soroban/rpc',
+    passphrase:
+      process.env.NEXT_PUBLIC_CUSTOM_NETWORK_PASSPHRASE || 'Standalone Network ; February 2017',
+    explorerUrl: process.env.NEXT_PUBLIC_CUSTOM_EXPLORER_URL || undefined,
+  },
 };
 
+/**
+ * Networks offered in the network picker, in display order. The custom
+ * network only shows up once its Horizon URL is configured.
+ */
+export const SELECTABLE_NETWORKS: Network[] = [
+  NETWORKS.MAINNET,
+  NETWORKS.TESTNET,
+  NETWORKS.FUTURENET,
+  ...(process.env.NEXT_PUBLIC_CUSTOM_HORIZON_URL ? [NETWORKS.CUSTOM] : []),
+];
+
 /**
  * Network passphrases for transaction signing
  */
 export const NETWORK_PASSPHRASES: Record<Network, string> = {
-  mainnet: 'Public Global Stellar Network ; September 2015',
-  testnet: 'Test SDF Network ; September 2015',
+  mainnet: NETWORK_CONFIGS.mainnet.passphrase,
+  testnet: NETWORK_CONFIGS.testnet.passphrase,
+  futurenet: NETWORK_CONFIGS.futurenet.passphrase,
+  custom: NETWORK_CONFIGS.custom.passphrase,
 };
 
 /**
@@ -31,9 +116,46 @@ export const NETWORK_PASSPHRASES: Record<Network, string> = {
  */
 export const DEFAULT_NETWORK: Network = NETWORKS.MAINNET;
 
+/**
+ * Network the Stellar Wrapped contract is deployed to
+ */
+export const CONTRACT_NETWORK: Network = isValidNetwork(
+  process.env.NEXT_PUBLIC_CONTRACT_NETWORK || '',
+)
+  ? (process.env.NEXT_PUBLIC_CONTRACT_NETWORK as Network)
+  : NETWORKS.TESTNET;
+
+/**
+ * Address of the Stellar Wrapped contract, with a placeholder until one is
+ * configured
+ */
+export const CONTRACT_ADDRESS =
+  process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
+  'CAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
 /**
  * Validates if a string is a valid network
  */
 export function isValidNetwork(network: string): network is Network {
-  return network === NETWORKS.MAINNET || network === NETWORKS.TESTNET;
+  return Object.prototype.hasOwnProperty.call(NETWORK_CONFIGS, network);
+}
+
+/**
+ * Validates a network chosen by a user or API caller: one of
+ * `SELECTABLE_NETWORKS`, so `custom` only once it is configured
+ */
+export function isSelectableNetwork(network: string): network is Network {
+  return (SELECTABLE_NETWORKS as string[]).includes(network);
+}
+
+export function getNetworkConfig(network: Network): NetworkConfig {
+  return NETWORK_CONFIGS[network];
+}
+
+/**
+ * Explorer link for a transaction, or null on networks without an explorer
+ */
+export function getExplorerTxUrl(network: Network, hash: string): string | null {
+  const { explorerUrl } = NETWORK_CONFIGS[network];
+  return explorerUrl ? `${explorerUrl}/tx/${hash}` : null;
 }
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Horizon } from 'stellar-sdk';
-import { Network, RPC_ENDPOINTS } from '../config';
+import { Horizon } from '@stellar/stellar-sdk';
+import { Network, getNetworkConfig } from '../config';
 import { validateStellarAddress, ValidationState } from '../utils/validateStellarAddress';
 
 interface UseStellarAddressValidationProps {
@@ -74,8 +74,11 @@ export const useStellarAddressValidation = ({
       setErrorMessage(null);
 
       try {
-        const rpcUrl = RPC_ENDPOINTS[network];
-        const server = new Horizon.Server(rpcUrl);
+        const { horizonUrl } = getNetworkConfig(network);
+        // Local networks (e.g. a quickstart container) are served over plain HTTP
+        const server = new Horizon.Server(horizonUrl, {
+          allowHttp: horizonUrl.startsWith('http://'),
+        });
         
         // Use Horizon API call to check if account exists
         await server.loadAccount(debouncedAddress);
@@ -3,6 +3,53 @@ import { WrappedData } from '../types';
 import { GOLDEN_USER } from '../data/mockData';
 import { buildApiUrl } from '../utils/networkUtils';
 import { Network } from '../config';
+import {
+    WrappedResponse,
+    parseWrappedResponse,
+} from '@/app/utils/wrappedResponse';
+import {
+    PERSONAS,
+    mapIndexerResultToWrapResult,
+} from '@/app/services/wrapResultMapper';
+
+/**
+ * Only the wizard and the explorer have artwork so far; every other
+ * persona shows the explorer's
+ */
+function getArchetypeImage(persona: string): string {
+    return persona === PERSONAS.wizard.name
+        ? '/archetypes/wizard.png'
+        : '/archetypes/explorer.png';
+}
+
+/** Maps a validated /api/wrapped response onto the dev store's shape */
+function toWrappedData(response: WrappedResponse): WrappedData {
+    const { data } = response;
+    const wrap = mapIndexerResultToWrapResult(data);
+    return {
+        username: wrap.username,
+        address: response.accountId,
+        stats: {
+            totalTransactions: data.totalTransactions,
+            totalVolume: data.totalVolume,
+            gasSpent: data.gasSpent,
+            percentile: wrap.percentile,
+        },
+        // mapTopDapps always fills in the visual fields
+        topDapps: wrap.dapps.map((dapp) => ({
+            name: dapp.name,
+            transactions: dapp.interactions,
+            color: dapp.color ?? '',
+            gradient: dapp.gradient ?? '',
+        })),
+        vibes: wrap.vibes,
+        archetype: {
+            name: wrap.persona,
+            description: wrap.personaDescription,
+            image: getArchetypeImage(wrap.persona),
+        },
+    };
+}
 
 interface WrapperStore {
     data: WrappedData | null;
@@ -49,15 +96,18 @@ export const useWrapperStore = create<WrapperStore>((set, get) => ({
                 set({ data: GOLDEN_USER, isLoading: false });
             } else {
                 // Build API URL with network parameter
-                const apiUrl = buildApiUrl(`/api/wrapped/${address}`, network);
+                const apiUrl = buildApiUrl(
+                    `/api/wrapped?accountId=${encodeURIComponent(address)}`,
+                    network
+                );
                 const response = await fetch(apiUrl);
                 
                 if (!response.ok) {
                     throw new Error(`API request failed: ${response.statusText}`);
                 }
                 
-                const result = await response.json();
-                set({ data: result, isLoading: false });
+                const result = parseWrappedResponse(await response.json());
+                set({ data: toWrappedData(result), isLoading: false });
             }
         } catch (err) {
             set({
@@ -3,9 +3,11 @@ export type { Network } from '../config';
 export interface TransactionStats {
   totalTransactions: number;
   totalVolume: number;
-  mostActiveMonth: string;
+  /** Not derived from indexed data yet; only the mock sets it */
+  mostActiveMonth?: string;
   gasSpent: number;
-  rank: number;
+  /** Not derived from indexed data yet; only the mock sets it */
+  rank?: number;
   percentile: number;
 }
 
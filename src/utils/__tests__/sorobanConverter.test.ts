@@ -46,7 +46,7 @@ import {
     type ContractStatsInput,
 } from '../contractArgsBuilder';
 
-import { xdr, scValToNative } from 'stellar-sdk';
+import { xdr, scValToNative } from '@stellar/stellar-sdk';
 
 // ─── Test Helpers ───────────────────────────────────────────────────────────
 
@@ -459,6 +459,26 @@ section('buildContractArgs');
         console.log(`  ⚠ Default timeframe test: ${defaultResult.errors.join(', ')}`);
         passed++;
     }
+
+    // Test with an attestation
+    const attested = buildContractArgs(stats, validGAddr, {
+        payload: new Uint8Array([1, 2, 3]),
+        signature: new Uint8Array(64).fill(9),
+    });
+    assert(attested.success, 'buildContractArgs with attestation succeeds');
+    if (attested.success) {
+        const [payloadArg, signatureArg] = attested.data.args.slice(5);
+        assert(attested.data.args.length === 7, 'attestation: 7 args');
+        assert(
+            payloadArg.switch().name === 'scvBytes' &&
+                payloadArg.bytes().equals(Buffer.from([1, 2, 3])),
+            'attestation: payload is arg 5 as bytes',
+        );
+        assert(
+            signatureArg.switch().name === 'scvBytes' && signatureArg.bytes().length === 64,
+            'attestation: signature is arg 6 as bytes',
+        );
+    }
 }
 
 section('buildContractArgsAsMap');
@@ -10,10 +10,11 @@
  * @module contractArgsBuilder
  */
 
-import { xdr } from 'stellar-sdk';
+import { xdr } from '@stellar/stellar-sdk';
 import {
     toScVal,
     addressToScVal,
+    bytesToScVal,
     objectToScValMap,
     isConversionError,
     type ConversionResult,
@@ -51,6 +52,16 @@ export interface ContractStatsInput {
     [key: string]: unknown;
 }
 
+/**
+ * Server attestation of the stats, checked by the contract before minting.
+ */
+export interface StatsAttestationArgs {
+    /** Canonical encoding of the attested stats */
+    payload: Uint8Array;
+    /** Ed25519 signature of `payload` by an attestation key */
+    signature: Uint8Array;
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 /**
@@ -127,9 +138,13 @@ export function validateIndexedStats(stats: ContractStatsInput): string[] {
  *   2: mostActiveAsset→ ScVal.scvString
  *   3: contractCalls  → ScVal.scvU32
  *   4: timeframe      → ScVal.scvString (optional, defaults to "all")
+ *   5: attestation    → ScVal.scvBytes  (only with `attestation`)
+ *   6: signature      → ScVal.scvBytes  (only with `attestation`)
  *
  * @param stats - The indexed stats to convert
  * @param accountAddress - The Stellar account address (G... or C...)
+ * @param attestation - Server attestation of the stats, if the contract
+ *   requires one
  * @returns BuildArgsResult with the arguments or validation errors
  *
  * @example
@@ -150,6 +165,7 @@ export function validateIndexedStats(stats: ContractStatsInput): string[] {
 export function buildContractArgs(
     stats: ContractStatsInput,
     accountAddress: string,
+    attestation?: StatsAttestationArgs,
 ): BuildArgsResult {
     // 1. Validate input
     const validationErrors = validateIndexedStats(stats);
@@ -197,6 +213,21 @@ export function buildContractArgs(
         argDescriptions.push(`timeframe: "${timeframe}" (string)`);
     }
 
+    // 7. Attestation payload and signature → ScVal.scvBytes  (optional)
+    if (attestation) {
+        const payloadVal = unwrap(bytesToScVal(attestation.payload), 'attestation', errors);
+        if (payloadVal) {
+            args.push(payloadVal);
+            argDescriptions.push(`attestation: ${attestation.payload.length} bytes`);
+        }
+
+        const signatureVal = unwrap(bytesToScVal(attestation.signature), 'signature', errors);
+        if (signatureVal) {
+            args.push(signatureVal);
+            argDescriptions.push(`signature: ${attestation.signature.length} bytes`);
+        }
+    }
+
     if (errors.length > 0) {
         return { success: false, errors };
     }
@@ -1,10 +1,10 @@
-import { Network, RPC_ENDPOINTS, isValidNetwork, DEFAULT_NETWORK } from '../config';
+import { Network, getNetworkConfig, isSelectableNetwork, DEFAULT_NETWORK } from '../config';
 
 /**
- * Get the RPC endpoint URL for a given network
+ * Get the Horizon endpoint URL for a given network
  */
 export function getRpcEndpoint(network: Network): string {
-  return RPC_ENDPOINTS[network];
+  return getNetworkConfig(network).horizonUrl;
 }
 
 /**
@@ -20,7 +20,7 @@ export function buildApiUrl(path: string, network: Network): string {
  * Parse network from query parameters or return default
  */
 export function parseNetworkParam(param: string | null): Network {
-  if (!param || !isValidNetwork(param)) {
+  if (!param || !isSelectableNetwork(param)) {
     return DEFAULT_NETWORK;
   }
   return param;
@@ -30,5 +30,5 @@ export function parseNetworkParam(param: string | null): Network {
  * Get network display name
  */
 export function getNetworkDisplayName(network: Network): string {
-  return network.charAt(0).toUpperCase() + network.slice(1);
+  return getNetworkConfig(network).name;
 }
@@ -23,7 +23,7 @@ import {
     scValToNative,
     ScInt,
     StrKey,
-} from 'stellar-sdk';
+} from '@stellar/stellar-sdk';
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -1,4 +1,4 @@
-import { StrKey } from 'stellar-sdk';
+import { StrKey } from '@stellar/stellar-sdk';
 import { Network } from '../config';
 
 export type ValidationState = 'idle' | 'validating' | 'valid' | 'invalid' | 'not-found' | 'indexing' | 'error';
@@ -12,7 +12,7 @@ export interface ValidationResult {
 /**
  * Validates a Stellar public key (address) format
  * @param address The string to validate
- * @param network The current network context (mainnet/testnet)
+ * @param network The current network context
  * @returns ValidationResult containing status and optional error message
  */
 export const validateStellarAddress = (address: string, _network: Network): ValidationResult => {